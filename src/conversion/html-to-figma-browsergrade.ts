@@ -12,9 +12,24 @@ import { GridLayoutEngine } from '../layout/grid-engine';
 import { AccurateFigmaMapper, FigmaNodeConfig } from '../figma/layout-mapper';
 import { DOMParser, DOMElement } from '../parsers/dom-parser';
 
+export interface Breakpoint {
+  width: number;
+  height?: number;
+  /** Frame name; defaults to Mobile / Tablet / Desktop by width */
+  name?: string;
+}
+
 export interface ConversionOptions {
   viewport?: { width: number; height: number };
   rootFontSize?: number;
+  /** Matched by `prefers-color-scheme` media queries (default light) */
+  colorScheme?: 'light' | 'dark';
+  /** Matched by `prefers-reduced-motion` media queries */
+  reducedMotion?: boolean;
+  /** Render at each width and return one root frame per breakpoint, side by side */
+  breakpoints?: Array<number | Breakpoint>;
+  /** Horizontal gap between breakpoint frames (default 100) */
+  breakpointGap?: number;
 }
 
 export interface FigmaNodeData {
@@ -62,6 +77,7 @@ interface ProcessedElement {
 export class HTMLToFigmaConverter {
   private cssEngine: BrowserGradeCSSEngine;
   private options: ConversionOptions;
+  private viewport: { width: number; height: number } = { width: 1920, height: 1080 };
   
   constructor(options: ConversionOptions = {}) {
     console.log('🚀 Initializing Browser-Grade HTML to Figma Converter');
@@ -92,21 +108,11 @@ export class HTMLToFigmaConverter {
       const cssRules = CascadeResolver.parseCSSToRules(css);
       console.log(`✅ Parsed ${cssRules.length} CSS rules`);
       
-      // Expand shorthand properties
-      cssRules.forEach(rule => {
-        rule.declarations = CascadeResolver.expandShorthands(rule.declarations);
-      });
-      
-      // Process all elements
-      console.log('💻 Computing styles for all elements...');
-      const processedRoots = rootElements.map(element => 
-        this.processElement(element, cssRules, undefined)
-      );
-      
-      console.log(`✅ Processed ${processedRoots.length} root elements`);
-      
-      // Convert to Figma nodes
-      const figmaNodes = processedRoots.map(processed => this.createFigmaNode(processed));
+      // Render once per breakpoint, or once at the configured viewport. The
+      // engine expands shorthands itself, after substituting var() references
+      const figmaNodes = this.options.breakpoints && this.options.breakpoints.length > 0
+        ? this.renderBreakpoints(rootElements, cssRules)
+        : this.renderAtViewport(rootElements, cssRules, this.options.viewport!);
       
       console.log(`🎉 Created ${figmaNodes.length} Figma nodes`);
       return figmaNodes;
@@ -117,6 +123,81 @@ export class HTMLToFigmaConverter {
     }
   }
   
+  /**
+   * Compute styles and layout for the parsed document at one viewport size
+   */
+  private renderAtViewport(
+    rootElements: DOMElement[],
+    cssRules: any[],
+    viewport: { width: number; height: number }
+  ): FigmaNodeData[] {
+    this.viewport = viewport;
+    
+    // Process all elements
+    console.log(`💻 Computing styles for all elements at ${viewport.width}×${viewport.height}...`);
+    const processedRoots = rootElements.map(element => 
+      this.processElement(element, cssRules, undefined)
+    );
+    
+    console.log(`✅ Processed ${processedRoots.length} root elements`);
+    
+    // Convert to Figma nodes
+    return processedRoots.map(processed => this.createFigmaNode(processed));
+  }
+  
+  /**
+   * Render the document once per breakpoint. Each render is wrapped in a
+   * root frame named after the breakpoint; frames are laid out left to right.
+   */
+  private renderBreakpoints(rootElements: DOMElement[], cssRules: any[]): FigmaNodeData[] {
+    const gap = this.options.breakpointGap !== undefined ? this.options.breakpointGap : 100;
+    let x = 0;
+    
+    return this.options.breakpoints!.map(entry => {
+      const breakpoint: Breakpoint = typeof entry === 'number' ? { width: entry } : entry;
+      const viewport = {
+        width: breakpoint.width,
+        height: breakpoint.height || this.options.viewport!.height
+      };
+      const name = breakpoint.name || HTMLToFigmaConverter.breakpointName(breakpoint.width);
+      
+      console.log(`📱 Rendering breakpoint ${name} at ${viewport.width}px`);
+      const children = this.renderAtViewport(rootElements, cssRules, viewport);
+      
+      // Stack the root nodes vertically inside the breakpoint frame
+      let contentHeight = 0;
+      children.forEach(child => {
+        child.x = 0;
+        child.y = contentHeight;
+        contentHeight += child.height;
+      });
+      
+      const frame: FigmaNodeData = {
+        type: 'FRAME',
+        name: `${name} - ${viewport.width}px`,
+        x,
+        y: 0,
+        width: viewport.width,
+        height: Math.max(contentHeight, breakpoint.height || 0) || viewport.height,
+        layoutMode: 'NONE',
+        fills: [{ type: 'SOLID', color: { r: 1, g: 1, b: 1 } }],
+        children
+      };
+      
+      x += viewport.width + gap;
+      return frame;
+    });
+  }
+  
+  /**
+   * Default breakpoint name for a viewport width
+   */
+  private static breakpointName(width: number): string {
+    if (width < 768) return 'Mobile';
+    if (width < 1024) return 'Tablet';
+    return 'Desktop';
+  }
+  
   /**
    * Process an element and all its children
    */
@@ -133,7 +214,11 @@ export class HTMLToFigmaConverter {
       element,
       cssRules,
       parentComputedStyle,
-      this.options.viewport
+      {
+        ...this.viewport,
+        colorScheme: this.options.colorScheme,
+        reducedMotion: this.options.reducedMotion
+      }
     );
     
     console.log('✅ Computed styles:', {
@@ -252,7 +337,7 @@ export class HTMLToFigmaConverter {
     
     // Get dimensions
     const width = this.resolveSize(computedStyle.width) || 
-                  (computedStyle.display === 'block' ? this.options.viewport!.width : 200);
+                  (computedStyle.display === 'block' ? this.viewport.width : 200);
     const height = this.resolveSize(computedStyle.height) || 
                    this.calculateContentHeight(element, computedStyle, children);
     
@@ -6,6 +6,15 @@ import { GridWidthCalculator } from '../utils/grid-calculator';
 import { DynamicGridCalculator } from '../utils/dynamic-grid-calculator';
 import { DynamicSpacingExtractor } from '../utils/dynamic-spacing-extractor';
 import { DynamicWidthDetector } from '../utils/dynamic-width-detector';
+import { SelectorEngine } from '../engine/selector-engine';
+import { CSSSyntaxParser } from '../parsers/css-syntax-parser';
+import { CascadeResolver } from '../engine/cascade-resolver';
+import { MediaQueryEvaluator, MediaEnvironment } from '../engine/media-query-evaluator';
+import { ValueResolver } from '../engine/value-resolver';
+import { LocalStyleRegistry } from '../figma/local-style-registry';
+import { EffectMapper } from '../figma/effect-mapper';
+import { LinkMapper } from '../figma/link-mapper';
+import { ConversionOptions } from '../types/conversion-options';
 
 // CRITICAL FIX: Clean quotes from CSS values
 function cleanQuotesFromCSS(styles: any): any {
@@ -602,6 +611,7 @@ interface FigmaNode {
   fontName?: { family: string; style: string };
   fontWeight?: string | number; // CSS font-weight
   fontFamily?: string; // CSS font-family
+  fontStyle?: string; // CSS font-style
   color?: string; // Text color
   textAlign?: string; // CSS text-align
   textAlignHorizontal?: 'LEFT' | 'CENTER' | 'RIGHT' | 'JUSTIFIED';
@@ -623,6 +633,27 @@ interface FigmaNode {
   counterAxisSpacing?: number;
   primaryAxisAlignItems?: string;
   counterAxisAlignItems?: string;
+  fillStyleId?: string; // Local paint style (createLocalStyles / useExistingStyles)
+  textStyleId?: string; // Local text style
+  effectStyleId?: string; // Local effect style
+  componentKey?: string; // Shared by a main component and its instances (detectComponents)
+  componentRole?: 'MAIN' | 'INSTANCE';
+  componentOverrides?: ComponentOverride[]; // Instance differences from the main component
+  styleSource?: StyleSource; // Not rendered; read by local styles and component detection
+  hyperlink?: string; // href of the anchor the text or frame came from (preserveHyperlinks)
+}
+
+interface StyleSource {
+  name: string; // First CSS class, else the tag name
+  structure: string; // Tag name and sorted classes
+  variables: Record<string, string>; // Custom properties the values were taken from
+  styles: Record<string, string>;
+}
+
+interface ComponentOverride {
+  path: number[]; // Child indexes from the instance root
+  characters?: string;
+  fills?: FigmaFill[];
 }
 
 interface FigmaFill {
@@ -651,16 +682,6 @@ interface FigmaConstraints {
   vertical: 'MIN' | 'CENTER' | 'MAX' | 'STRETCH' | 'SCALE';
 }
 
-interface ConversionOptions {
-  useAutoLayout: boolean;
-  createLocalStyles: boolean;
-  useExistingStyles: boolean;
-  detectComponents: boolean;
-  preserveHyperlinks: boolean;
-  highResImages: boolean;
-  fontFallbacks: 'auto' | 'strict' | 'ignore';
-}
-
 interface SimpleElement {
   tagName: string;
   id?: string;
@@ -736,6 +757,120 @@ class ColorUtils {
   }
 }
 
+// Component Detection - repeated subtrees become a main component plus instances
+class ComponentDetector {
+  /**
+   * Mark repeated subtrees (same tag/class structure and styling) across the
+   * tree. The first occurrence becomes the main component; the others become
+   * instances whose text and fill differences are recorded as overrides.
+   * Returns the number of components found.
+   */
+  static detect(roots: FigmaNode[]): number {
+    const signatures = new Map<FigmaNode, string>();
+    const counts = new Map<string, number>();
+    roots.forEach(root => this.computeSignature(root, signatures, counts));
+    
+    // Outermost repeated subtrees win; their descendants stay part of them
+    const groups = new Map<string, FigmaNode[]>();
+    const collect = (node: FigmaNode): void => {
+      const signature = signatures.get(node)!;
+      if (node.type === 'FRAME' && node.children?.length && counts.get(signature)! > 1) {
+        groups.set(signature, [...(groups.get(signature) || []), node]);
+        return;
+      }
+      node.children?.forEach(collect);
+    };
+    roots.forEach(collect);
+    
+    let componentCount = 0;
+    groups.forEach(nodes => {
+      if (nodes.length < 2) return;
+      
+      const key = `component-${++componentCount}`;
+      const [main, ...instances] = nodes;
+      main.componentKey = key;
+      main.componentRole = 'MAIN';
+      
+      instances.forEach(instance => {
+        instance.componentKey = key;
+        instance.componentRole = 'INSTANCE';
+        instance.componentOverrides = this.diff(main, instance, []);
+      });
+      
+      console.log(`[COMPONENTS] ${main.name}: 1 main component, ${instances.length} instance(s)`);
+    });
+    
+    return componentCount;
+  }
+  
+  private static computeSignature(
+    node: FigmaNode,
+    signatures: Map<FigmaNode, string>,
+    counts: Map<string, number>
+  ): string {
+    const childSignatures = (node.children || []).map(child => this.computeSignature(child, signatures, counts));
+    const source = node.styleSource;
+    
+    // Text and fills may differ between instances; everything else must match
+    const signature = JSON.stringify([
+      node.type,
+      source?.structure || node.name,
+      this.fixedSize(node),
+      node.layoutSizingHorizontal,
+      node.layoutSizingVertical,
+      node.layoutMode,
+      node.layoutWrap,
+      node.itemSpacing,
+      [node.paddingTop, node.paddingRight, node.paddingBottom, node.paddingLeft],
+      node.strokes,
+      node.strokeWeight,
+      node.effects,
+      node.cornerRadius,
+      node.fontName,
+      node.fontSize,
+      node.textAlignHorizontal,
+      childSignatures
+    ]);
+    
+    signatures.set(node, signature);
+    counts.set(signature, (counts.get(signature) || 0) + 1);
+    return signature;
+  }
+  
+  /**
+   * Width and height of a frame, leaving out the ones that hug their content
+   * (they change with text overrides). Text layers are sized by their text.
+   */
+  private static fixedSize(node: FigmaNode): [number | null, number | null] | null {
+    if (node.type === 'TEXT') return null;
+    
+    const vertical = node.layoutMode === 'VERTICAL';
+    const widthMode = vertical ? node.counterAxisSizingMode : node.primaryAxisSizingMode;
+    const heightMode = vertical ? node.primaryAxisSizingMode : node.counterAxisSizingMode;
+    return [
+      widthMode === 'AUTO' ? null : node.width,
+      heightMode === 'AUTO' ? null : node.height
+    ];
+  }
+  
+  private static diff(main: FigmaNode, instance: FigmaNode, path: number[]): ComponentOverride[] {
+    const override: ComponentOverride = { path };
+    if (instance.type === 'TEXT' && instance.characters !== main.characters) {
+      override.characters = instance.characters;
+    }
+    if (JSON.stringify(instance.fills || []) !== JSON.stringify(main.fills || [])) {
+      override.fills = instance.fills || [];
+    }
+    
+    const overrides = override.characters !== undefined || override.fills ? [override] : [];
+    (instance.children || []).forEach((child, index) => {
+      const mainChild = main.children?.[index];
+      if (mainChild) overrides.push(...this.diff(mainChild, child, [...path, index]));
+    });
+    return overrides;
+  }
+}
+
 // Simple HTML Parser - keeping existing parser structure
 class SimpleHTMLParser {
   private html: string;
@@ -1148,10 +1283,14 @@ class CSSSourceDebugger {
 // FIXED CSS Parser - proper specificity and cascade
 class SimpleCSSParser {
   private css: string;
-  public rules: Array<{selector: string, declarations: Record<string, string>, specificity: number}> = [];
+  private viewport: MediaEnvironment;
+  private customPropertyCache = new Map<SimpleElement, Record<string, string>>();
+  private variableReferenceCache = new Map<SimpleElement, Record<string, string>>();
+  public rules: Array<{selector: string, declarations: Record<string, string>, specificity: number, importantProperties?: string[], sourceOrder?: number, media?: string[]}> = [];
 
-  constructor(css: string) {
+  constructor(css: string, viewport: MediaEnvironment = { width: 1400, height: 900 }) {
     this.css = css;
+    this.viewport = viewport;
     this.parse();
   }
 
@@ -1159,53 +1298,38 @@ class SimpleCSSParser {
     console.log('[CSS PARSER] Parsing CSS, input length:', this.css.length);
     console.log('[CSS PARSER] CSS content preview:', this.css.substring(0, 300));
     
-    // Remove comments
-    const cleanCss = this.css.replace(/\/\*[\s\S]*?\*\//g, '');
-    console.log('[CSS PARSER] After removing comments, length:', cleanCss.length);
-    
-    // Parse CSS rules with proper specificity
-    const ruleRegex = /([^{]+)\{([^}]+)\}/g;
-    let match;
+    const sheet = CSSSyntaxParser.parseStylesheet(this.css);
     let ruleCount = 0;
     
-    while ((match = ruleRegex.exec(cleanCss)) !== null) {
-      const selector = match[1].trim();
-      const declarationsText = match[2].trim();
+    CSSSyntaxParser.flattenStyleRules(sheet).forEach((rule, sourceOrder) => {
+      const selector = rule.selector;
+      if (!selector) return;
       
-      console.log(`[CSS PARSER] Parsing rule ${ruleCount}: ${selector}`);
-      console.log(`[CSS PARSER] Declarations text: ${declarationsText}`);
+      console.log(`[CSS PARSER] Parsing rule ${ruleCount}: ${selector} (line ${rule.loc.start.line})`);
       
       const declarations: Record<string, string> = {};
-      declarationsText.split(';').forEach(decl => {
-        const colonIndex = decl.indexOf(':');
-        if (colonIndex > 0) {
-          const prop = decl.substring(0, colonIndex).trim();
-          let value = decl.substring(colonIndex + 1).trim();
-          
-          // CRITICAL FIX: Remove quotes from CSS values
-          const originalValue = value;
-          
-          // More aggressive quote removal - handle nested quotes
-          value = value.trim();
-          // Remove outer quotes
-          if ((value.startsWith("'") && value.endsWith("'")) || 
-              (value.startsWith('"') && value.endsWith('"'))) {
-            value = value.slice(1, -1);
-          }
-          // Remove any remaining quotes
-          value = value.replace(/^['"]|['"]$/g, '');
-          
-          // DEBUG: Log if quotes were removed
-          if (originalValue !== value) {
-            console.warn(`[CSS PARSER] Removed quotes from ${prop}: "${originalValue}" → "${value}"`);
-          } else if (value.includes("'") || value.includes('"')) {
-            console.error(`[CSS PARSER] WARNING: ${prop} still contains quotes: "${value}"`);
-          }
-          
-          if (prop && value) {
-            declarations[prop] = value;
-            console.log(`[CSS PARSER]   ${prop}: ${value}`);
-          }
+      Object.entries(CSSSyntaxParser.declarationsToRecord(rule.declarations)).forEach(([prop, rawValue]) => {
+        // CRITICAL FIX: Remove quotes from CSS values
+        let value = rawValue;
+        
+        // Remove outer quotes
+        if ((value.startsWith("'") && value.endsWith("'")) || 
+            (value.startsWith('"') && value.endsWith('"'))) {
+          value = value.slice(1, -1);
+        }
+        // Remove any remaining quotes
+        value = value.replace(/^['"]|['"]$/g, '');
+        
+        // DEBUG: Log if quotes were removed
+        if (rawValue !== value) {
+          console.warn(`[CSS PARSER] Removed quotes from ${prop}: "${rawValue}" → "${value}"`);
+        } else if (value.includes("'") || value.includes('"')) {
+          console.error(`[CSS PARSER] WARNING: ${prop} still contains quotes: "${value}"`);
+        }
+        
+        if (prop && value) {
+          declarations[prop] = value;
+          console.log(`[CSS PARSER]   ${prop}: ${value}`);
         }
       });
       
@@ -1213,14 +1337,20 @@ class SimpleCSSParser {
         // CRITICAL: Apply quote removal to all declarations
         const cleanedDeclarations = cleanQuotesFromCSS(stripQuotesFromAllValues(declarations));
         
-        this.rules.push({
-          selector,
-          declarations: cleanedDeclarations,
-          specificity: this.calculateSpecificity(selector)
+        // One rule per selector in a list so each keeps its own specificity
+        SelectorEngine.splitSelectorList(selector).forEach(singleSelector => {
+          this.rules.push({
+            selector: singleSelector,
+            declarations: cleanedDeclarations,
+            specificity: this.calculateSpecificity(singleSelector),
+            importantProperties: CSSSyntaxParser.importantProperties(rule.declarations),
+            sourceOrder,
+            media: rule.media
+          });
         });
         ruleCount++;
       }
-    }
+    });
     
     console.log('[CSS PARSER] Total rules parsed:', this.rules.length);
     
@@ -1235,36 +1365,53 @@ class SimpleCSSParser {
   }
 
   private calculateSpecificity(selector: string): number {
-    let specificity = 0;
-    // IDs = 100, classes = 10, elements = 1
-    specificity += (selector.match(/#/g) || []).length * 100;
-    specificity += (selector.match(/\./g) || []).length * 10;
-    specificity += (selector.match(/^[a-z]|[ ][a-z]/g) || []).length * 1;
-    return specificity;
+    return SelectorEngine.calculateSpecificity(selector);
   }
 
   getStylesForElement(element: SimpleElement): Record<string, string> {
-    const styles: Record<string, string> = {};
-    
     console.log('[CSS PARSER] Getting styles for element:', element.className || element.tagName);
     console.log('[CSS PARSER] Available rules:', this.rules.length);
     
-    // Apply CSS rules in specificity order
-    for (const rule of this.rules) {
-      if (this.matchesSelector(element, rule.selector)) {
-        console.log('[CSS PARSER] Rule MATCHED:', rule.selector, rule.declarations);
-        
-        // CRITICAL DEBUG: Log width property specifically
-        if (rule.declarations.width) {
-          console.log('[CSS WIDTH] Found width in rule:', rule.selector, '→', rule.declarations.width);
-        }
-        
-        Object.assign(styles, rule.declarations);
+    const matchedRules = this.rules.filter(rule => {
+      // Rules inside @media blocks only apply when their queries match the viewport
+      if (!MediaQueryEvaluator.matchesAll(rule.media, this.viewport)) return false;
+      if (!this.matchesSelector(element, rule.selector)) return false;
+      console.log('[CSS PARSER] Rule MATCHED:', rule.selector, rule.declarations);
+      
+      // CRITICAL DEBUG: Log width property specifically
+      if (rule.declarations.width) {
+        console.log('[CSS WIDTH] Found width in rule:', rule.selector, '→', rule.declarations.width);
       }
-    }
+      return true;
+    });
+    
+    // Cascade: importance, then specificity, then source order; inline styles
+    // beat normal author rules but not !important ones
+    const cascaded = CascadeResolver.resolveStyles(matchedRules, element.attributes.style || element.style);
+    
+    // Custom properties inherit from the parent; var() references are substituted
+    const parentCustomProperties = element.parent ? this.getCustomProperties(element.parent) : {};
+    const styles = ValueResolver.resolveCascadedValues(cascaded, parentCustomProperties);
     
-    // Inline styles have highest priority
-    Object.assign(styles, element.style);
+    // Unset properties are left out, so the converter falls back as if they were never declared
+    const customProperties: Record<string, string> = {};
+    Object.keys(styles).forEach(property => {
+      if (property.startsWith('--')) {
+        customProperties[property] = styles[property];
+        delete styles[property];
+      } else if (styles[property] === 'unset') {
+        delete styles[property];
+      }
+    });
+    this.customPropertyCache.set(element, customProperties);
+    
+    // Remember which properties were a bare var() reference (used to name local styles)
+    const variableReferences: Record<string, string> = {};
+    Object.entries(cascaded).forEach(([property, value]) => {
+      const name = property.startsWith('--') ? null : ValueResolver.referencedCustomProperty(value);
+      if (name) variableReferences[property] = name;
+    });
+    this.variableReferenceCache.set(element, variableReferences);
     
     // CRITICAL DEBUG: Final width value
     if (styles.width) {
@@ -1286,129 +1433,30 @@ class SimpleCSSParser {
     return cleanedStyles;
   }
 
-  matchesSelector(element: SimpleElement, selector: string): boolean {
-    const cleanSelector = selector.trim();
-    
-    console.log('[CSS MATCHER] Checking selector:', cleanSelector, 'against element:', element.className || element.tagName);
-    
-    // Handle multiple selectors (comma-separated)
-    if (cleanSelector.includes(',')) {
-      return cleanSelector.split(',').some(s => this.matchesSelector(element, s.trim()));
-    }
-    
-    // Universal selector
-    if (cleanSelector === '*') {
-      console.log('[CSS MATCHER] Universal selector matches');
-      return true;
-    }
-    
-    // Handle attribute selectors
-    if (cleanSelector.includes('[') && cleanSelector.includes(']')) {
-      const match = cleanSelector.match(/^(\w+)?\[([^=\]]+)(?:="([^"]+)")?\]/);
-      if (match) {
-        const [, tagName, attrName, attrValue] = match;
-        if (tagName && element.tagName.toLowerCase() !== tagName.toLowerCase()) {
-          return false;
-        }
-        if (attrValue) {
-          return element.attributes[attrName] === attrValue;
-        }
-        return attrName in element.attributes;
-      }
-    }
-    
-    // ID selector
-    if (cleanSelector.startsWith('#')) {
-      const matches = element.id === cleanSelector.slice(1);
-      console.log('[CSS MATCHER] ID selector result:', matches);
-      return matches;
-    }
-    
-    // Class selector
-    if (cleanSelector.startsWith('.')) {
-      const className = cleanSelector.slice(1);
-      // CRITICAL FIX: Properly split and trim class names
-      const elementClasses = element.className ? element.className.trim().split(/\s+/).filter(c => c) : [];
-      const matches = elementClasses.includes(className);
-      console.log('[CSS MATCHER] Class selector result:', matches, 'for class:', className, 'in classes:', elementClasses);
-      return matches;
-    }
-    
-    // Tag selector
-    if (!cleanSelector.includes('.') && !cleanSelector.includes('#') && !cleanSelector.includes('[')) {
-      const matches = element.tagName.toLowerCase() === cleanSelector.toLowerCase();
-      console.log('[CSS MATCHER] Tag selector result:', matches);
-      return matches;
-    }
-    
-    // CRITICAL FIX: Handle descendant selectors like ".before .time-value"
-    if (cleanSelector.includes(' ')) {
-      return this.matchesDescendantSelector(element, cleanSelector);
-    }
-    
-    // Handle compound selectors like "div.header" (tag + class)
-    if (cleanSelector.includes('.') && !cleanSelector.startsWith('.')) {
-      const parts = cleanSelector.split('.');
-      const tagName = parts[0];
-      const className = parts[1];
-      
-      const tagMatches = element.tagName.toLowerCase() === tagName.toLowerCase();
-      const classMatches = (element.className?.split(' ') || []).includes(className);
-      const result = tagMatches && classMatches;
-      
-      console.log('[CSS MATCHER] Compound selector result:', result, 'for', cleanSelector);
-      return result;
+  /**
+   * Custom properties the element's values were taken from, e.g. `{ color: '--brand-500' }`
+   */
+  getVariableReferences(element: SimpleElement): Record<string, string> {
+    if (!this.variableReferenceCache.has(element)) {
+      this.getStylesForElement(element);
     }
-    
-    console.log('[CSS MATCHER] Complex selector - not matched');
-    return false;
+    return this.variableReferenceCache.get(element) || {};
   }
   
-  // CRITICAL FIX: Handle descendant selectors like ".before .time-value"
-  private matchesDescendantSelector(element: SimpleElement, selector: string): boolean {
-    const parts = selector.trim().split(/\s+/);
-    console.log('[CSS MATCHER] Descendant selector parts:', parts);
-    
-    // For descendant selectors, check if the element matches the last part
-    // and if it has an ancestor that matches the first part
-    const lastSelector = parts[parts.length - 1];
-    const ancestorSelector = parts[0];
-    
-    // Check if current element matches the last part of the selector
-    if (!this.matchesSimpleSelector(element, lastSelector)) {
-      console.log('[CSS MATCHER] Element does not match last part:', lastSelector);
-      return false;
-    }
-    
-    // CRITICAL FIX: Traverse up the DOM tree to find ancestor
-    let currentElement = element.parent; // Start with parent, not current element
-    let foundAncestor = false;
-    
-    while (currentElement && !foundAncestor) {
-      if (this.matchesSimpleSelector(currentElement, ancestorSelector)) {
-        foundAncestor = true;
-        console.log('[CSS MATCHER] Found ancestor:', ancestorSelector, 'on element:', currentElement.className || currentElement.tagName);
-        break;
-      }
-      currentElement = currentElement.parent; // Continue traversing up
+  /**
+   * Custom properties in scope for an element (computed on first use)
+   */
+  private getCustomProperties(element: SimpleElement): Record<string, string> {
+    if (!this.customPropertyCache.has(element)) {
+      this.getStylesForElement(element);
     }
-    
-    const result = foundAncestor;
-    console.log('[CSS MATCHER] Descendant selector result:', result, 'for', selector);
-    return result;
+    return this.customPropertyCache.get(element) || {};
   }
-  
-  // Helper function to match simple selectors
-  private matchesSimpleSelector(element: SimpleElement, selector: string): boolean {
-    if (selector.startsWith('.')) {
-      const className = selector.slice(1);
-      const elementClasses = element.className?.split(' ') || [];
-      return elementClasses.includes(className);
-    } else if (selector.startsWith('#')) {
-      return element.id === selector.slice(1);
-    } else {
-      return element.tagName.toLowerCase() === selector.toLowerCase();
-    }
+
+  matchesSelector(element: SimpleElement, selector: string): boolean {
+    const matches = SelectorEngine.matches(selector, element);
+    console.log('[CSS MATCHER] Selector', selector.trim(), matches ? 'matches' : 'does not match', element.className || element.tagName);
+    return matches;
   }
 }
 
@@ -1629,7 +1677,7 @@ export class HTMLToFigmaConverter {
     }
     
     // Parse CSS 
-    this.cssParser = new SimpleCSSParser(cleanedCSS);
+    this.cssParser = new SimpleCSSParser(cleanedCSS, this.options.viewport);
     console.log('[FaithfulConverter] Parsed', this.cssParser.rules.length, 'CSS rules');
     
     // CRITICAL: Debug specific CSS rules AFTER parsing
@@ -1679,6 +1727,25 @@ export class HTMLToFigmaConverter {
       }
     }
     
+    // Repeated structures become main components and instances
+    if (this.options.detectComponents) {
+      const componentCount = ComponentDetector.detect(figmaNodes);
+      console.log('[COMPONENTS] Detected', componentCount, 'component(s)');
+    }
+    
+    // Reference local paint, text and effect styles instead of raw values
+    if (this.options.createLocalStyles || this.options.useExistingStyles) {
+      const registry = new LocalStyleRegistry({
+        createLocalStyles: !!this.options.createLocalStyles,
+        useExistingStyles: !!this.options.useExistingStyles
+      });
+      await registry.load();
+      for (const node of figmaNodes) {
+        await this.assignLocalStyles(node, registry);
+      }
+      console.log('[LOCAL STYLES] Local styles:', registry.summary);
+    }
+    
     console.log('[FaithfulConverter] Created', figmaNodes.length, 'Figma nodes');
     return figmaNodes;
   }
@@ -1852,6 +1919,7 @@ export class HTMLToFigmaConverter {
     });
     
     const { width, height, usesLayoutSizing, shouldFillParent, layoutHints } = sizingResult;
+    const href = this.options.preserveHyperlinks ? LinkMapper.hrefOf(element) : null;
     console.log('[SIZING MODE] Element:', className);
     console.log('[SIZING MODE] Sizing decision:', sizingResult);
     
@@ -1879,6 +1947,8 @@ export class HTMLToFigmaConverter {
       
       // Apply text styles directly
       this.applyExactTextStyles(textNode, styles, element);
+      this.recordStyleSource(textNode, element, styles);
+      if (href) textNode.hyperlink = href;
       return textNode;
     }
     
@@ -1938,6 +2008,7 @@ export class HTMLToFigmaConverter {
     
     // Apply EXACT visual styles from CSS (NO smart defaults)
     this.applyExactVisualStyles(node, styles);
+    this.recordStyleSource(node, element, styles);
     
     // CRITICAL FIX: Create text node for leaf elements with text content
     if (element.textContent && element.textContent.trim() !== '') {
@@ -1975,12 +2046,19 @@ export class HTMLToFigmaConverter {
         
         // CRITICAL FIX: Apply descendant selector styles AFTER text creation
         this.applyDescendantSelectorStyles(textNode, element);
+        this.recordStyleSource(textNode, element, styles);
+        if (href) textNode.hyperlink = href;
         
         node.children!.push(textNode);
         console.log('[FaithfulConverter] Created text with HEIGHT auto-resize:', element.textContent);
       }
     }
     
+    // An anchor's own text is linked as text; an anchor around other elements as a frame
+    if (href && !node.children!.some(child => child.hyperlink === href)) {
+      node.hyperlink = href;
+    }
+    
     // Process child elements
     for (const child of element.children) {
       const childNode = this.convertElementFaithfully(child, false, layoutContext); // ✅ Pass context down
@@ -1998,6 +2076,90 @@ export class HTMLToFigmaConverter {
     return node;
   }
 
+  /**
+   * Keep what local style names, text metrics and component structure are derived from
+   */
+  private recordStyleSource(node: FigmaNode, element: SimpleElement, styles: Record<string, string>): void {
+    const classes = (element.className || '').trim().split(/\s+/).filter(Boolean);
+    node.styleSource = {
+      name: classes[0] || element.tagName,
+      structure: [element.tagName, ...[...classes].sort()].join('.'),
+      variables: this.cssParser!.getVariableReferences(element),
+      styles
+    };
+  }
+  
+  /**
+   * Assign local paint, text and effect styles to a node tree. Styles are
+   * named after the custom property the value came from, else the CSS class.
+   */
+  private async assignLocalStyles(node: FigmaNode, registry: LocalStyleRegistry): Promise<void> {
+    const source = node.styleSource;
+    
+    if (source) {
+      const isText = node.type === 'TEXT';
+      const colorVariable = isText
+        ? source.variables.color
+        : source.variables['background-color'] || source.variables.background;
+      
+      const fill = node.fills?.length === 1 ? node.fills[0] : undefined;
+      if (fill?.type === 'SOLID' && fill.color) {
+        const paint: SolidPaint = { type: 'SOLID', color: fill.color, opacity: fill.opacity ?? 1 };
+        node.fillStyleId = registry.paintStyleFor([paint], `Colors/${this.localStyleName(colorVariable, source.name)}`) || undefined;
+      }
+      
+      if (isText && node.fontName && node.fontSize) {
+        const fontSize = node.fontSize;
+        node.textStyleId = await registry.textStyleFor({
+          fontName: node.fontName,
+          fontSize,
+          lineHeight: this.toFigmaLineHeight(source.styles['line-height']),
+          letterSpacing: this.toFigmaLetterSpacing(source.styles['letter-spacing'])
+        }, `Text/${this.localStyleName(source.variables.font, source.name)}`) || undefined;
+      }
+      
+      const shadows = (node.effects || []).filter(effect => effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW');
+      if (shadows.length > 0 && shadows.length === node.effects!.length) {
+        const effects = shadows.map(shadow => ({
+          type: shadow.type,
+          color: { ...(shadow.color || { r: 0, g: 0, b: 0 }), a: shadow.opacity ?? 1 },
+          offset: shadow.offset || { x: 0, y: 0 },
+          radius: shadow.radius,
+          spread: shadow.spread || 0,
+          visible: true,
+          blendMode: 'NORMAL'
+        }) as DropShadowEffect | InnerShadowEffect);
+        node.effectStyleId = registry.effectStyleFor(effects, `Shadows/${this.localStyleName(source.variables['box-shadow'], source.name)}`) || undefined;
+      }
+    }
+    
+    for (const child of node.children || []) {
+      await this.assignLocalStyles(child, registry);
+    }
+  }
+  
+  private localStyleName(variable: string | undefined, className: string): string {
+    return variable ? variable.replace(/^--/, '') : className;
+  }
+  
+  private toFigmaLineHeight(value?: string): LineHeight {
+    const num = parseFloat(value || '');
+    if (!value || isNaN(num)) return { unit: 'AUTO' };
+    if (value.endsWith('px')) return { value: num, unit: 'PIXELS' };
+    if (value.endsWith('%')) return { value: num, unit: 'PERCENT' };
+    // Unitless and em line heights are multiples of the font size
+    return { value: num * 100, unit: 'PERCENT' };
+  }
+  
+  private toFigmaLetterSpacing(value?: string): LetterSpacing {
+    const num = parseFloat(value || '');
+    if (!value || isNaN(num)) return { value: 0, unit: 'PIXELS' };
+    if (value.endsWith('em') || value.endsWith('%')) {
+      return { value: value.endsWith('%') ? num : num * 100, unit: 'PERCENT' };
+    }
+    return { value: num, unit: 'PIXELS' };
+  }
+  
   private parseFlexSizing(styles: Record<string, string>, isMainFrame: boolean, layoutMode: string): { primary: string, counter: string, shouldFillParent: boolean } {
     const flexGrow = parseFloat(styles['flex-grow']) || 0;
     const flexShrink = parseFloat(styles['flex-shrink']) || 1;
@@ -2729,9 +2891,9 @@ export class HTMLToFigmaConverter {
     // EXACT box-shadow support
     const boxShadow = styles['box-shadow'];
     if (boxShadow && boxShadow !== 'none') {
-      const shadowEffect = this.parseBoxShadow(boxShadow);
-      if (shadowEffect) {
-        node.effects = [shadowEffect];
+      const shadowEffects = this.parseBoxShadows(boxShadow, styles['color']);
+      if (shadowEffects.length > 0) {
+        node.effects = shadowEffects;
         console.log('[FaithfulConverter] Applied exact box-shadow:', boxShadow);
       }
     }
@@ -2898,6 +3060,7 @@ export class HTMLToFigmaConverter {
     let family = 'Arial'; // Always default to Arial as requested
     const cssFontFamily = styles['font-family'];
     node.fontFamily = cssFontFamily; // Pass original CSS value
+    node.fontStyle = styles['font-style'];
     
     if (cssFontFamily) {
       const fonts = cssFontFamily.split(',').map(f => f.trim().replace(/['"]/g, ''));
@@ -3015,36 +3178,17 @@ export class HTMLToFigmaConverter {
     return match ? parseFloat(match[1]) : 0;
   }
 
-  private parseBoxShadow(boxShadow: string): FigmaEffect | null {
-    // Parse box-shadow: "0 4px 6px rgba(0, 0, 0, 0.1)"
-    const shadowMatch = boxShadow.match(/(-?\d+)px\s+(-?\d+)px\s+(\d+)px(?:\s+(-?\d+)px)?\s+rgba?\(([^)]+)\)/);
-    if (shadowMatch) {
-      const [, offsetX, offsetY, blur, spread, colorPart] = shadowMatch;
-      const color = this.parseRgbaColor(colorPart);
-      
-      return {
-        type: 'DROP_SHADOW',
-        color: { r: color.r, g: color.g, b: color.b },
-        offset: { x: parseInt(offsetX), y: parseInt(offsetY) },
-        radius: parseInt(blur),
-        spread: spread ? parseInt(spread) : 0,
-        opacity: color.a
-      };
-    }
-    return null;
-  }
-
-  private parseRgbaColor(rgbaString: string): { r: number; g: number; b: number; a: number } {
-    const match = rgbaString.match(/(\d+),\s*(\d+),\s*(\d+)(?:,\s*([\d.]+))?/);
-    if (match) {
-      return {
-        r: parseInt(match[1]) / 255,
-        g: parseInt(match[2]) / 255,
-        b: parseInt(match[3]) / 255,
-        a: match[4] ? parseFloat(match[4]) : 1
-      };
-    }
-    return { r: 0, g: 0, b: 0, a: 1 };
+  private parseBoxShadows(boxShadow: string, currentColor?: string): FigmaEffect[] {
+    // Parse every layer of box-shadow: "0 1px 2px rgb(0 0 0 / .05), inset 0 0 0 1px #e5e7eb"
+    // Figma stacks effects last on top, CSS lists the topmost shadow first
+    return EffectMapper.parseShadows(boxShadow, currentColor).reverse().map(layer => ({
+      type: layer.inset ? 'INNER_SHADOW' : 'DROP_SHADOW',
+      color: { r: layer.color.r, g: layer.color.g, b: layer.color.b },
+      offset: { x: layer.offsetX, y: layer.offsetY },
+      radius: layer.blur,
+      spread: layer.spread,
+      opacity: layer.color.a
+    }));
   }
 
   /**
@@ -3436,5 +3580,6 @@ export class HTMLToFigmaConverter {
 export {
   ColorUtils,
   FigmaNode,
+  ComponentOverride,
   ConversionOptions
 };
\ No newline at end of file
@@ -0,0 +1,323 @@
+/**
+ * CSS Math Function Evaluator
+ *
+ * Parses and evaluates calc(), min(), max() and clamp() (plus abs() and
+ * sign()) with CSS typed arithmetic. Expressions are tokenized with the CSS
+ * tokenizer and evaluated by a recursive-descent parser; nothing is ever
+ * executed as JavaScript.
+ */
+
+import { CSSToken, CSSTokenizer } from '../parsers/css-syntax-parser';
+
+export type CalcValueType = 'number' | 'length' | 'percentage' | 'angle' | 'time' | 'frequency' | 'resolution';
+
+/**
+ * A typed result in canonical units: px, deg, s, Hz, dppx; percentages in %
+ */
+export interface CalcResult {
+  value: number;
+  type: CalcValueType;
+}
+
+export interface CalcContext {
+  fontSize: number;
+  rootFontSize: number;
+  viewportWidth: number;
+  viewportHeight: number;
+  /** Length that percentages resolve against; when absent they stay percentages */
+  percentageBasis?: number;
+}
+
+const MATH_FUNCTIONS = new Set(['calc', '-webkit-calc', 'min', 'max', 'clamp', 'abs', 'sign']);
+
+const CANONICAL_UNITS: Record<CalcValueType, string> = {
+  number: '',
+  length: 'px',
+  percentage: '%',
+  angle: 'deg',
+  time: 's',
+  frequency: 'Hz',
+  resolution: 'dppx'
+};
+
+export class CalcEvaluator {
+
+  /**
+   * True when the value contains a math function anywhere
+   */
+  static containsMathFunction(value: string): boolean {
+    return /(^|[^\w-])(-webkit-calc|calc|min|max|clamp|abs|sign)\(/i.test(value);
+  }
+
+  /**
+   * Evaluate a value that consists of a single math function, e.g.
+   * `calc(100% - 2rem)` or `clamp(1rem, 2.5vw, 2rem)`. Returns null if the
+   * expression is malformed or its types don't combine.
+   */
+  static evaluate(value: string, context: CalcContext): CalcResult | null {
+    const tokens = this.significantTokens(value);
+    if (tokens.length === 0) return null;
+
+    try {
+      const parser = new CalcParser(tokens, context);
+      const result = parser.parseValue();
+      parser.expectEnd();
+      return isFinite(result.value) ? result : null;
+    } catch (error) {
+      console.warn(`⚠️ Invalid math expression "${value}": ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Replace every math function in a multi-part value (e.g. the padding
+   * shorthand `calc(1rem + 2px) 10px`) with its serialized result.
+   * Functions that cannot be evaluated are left untouched.
+   */
+  static substituteMathFunctions(value: string, context: CalcContext): string {
+    const tokenizer = new CSSTokenizer(value);
+    const source = tokenizer.source;
+    const tokens = tokenizer.tokenize();
+    let result = '';
+    let cursor = 0;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (token.type !== 'function' || !MATH_FUNCTIONS.has(token.value.toLowerCase())) continue;
+
+      // Find the matching close parenthesis
+      let depth = 0;
+      let end = i + 1;
+      for (; end < tokens.length; end++) {
+        const type = tokens[end].type;
+        if (type === '(' || type === 'function') depth++;
+        if (type === ')') {
+          if (depth === 0) break;
+          depth--;
+        }
+      }
+      if (end >= tokens.length) break;
+
+      const text = source.slice(token.start, tokens[end].end);
+      const evaluated = this.evaluate(text, context);
+      result += source.slice(cursor, token.start) + (evaluated ? this.serialize(evaluated) : text);
+      cursor = tokens[end].end;
+      i = end;
+    }
+
+    return result + source.slice(cursor);
+  }
+
+  /**
+   * Serialize a result in its canonical unit
+   */
+  static serialize(result: CalcResult): string {
+    const rounded = Math.round(result.value * 1e4) / 1e4;
+    return `${rounded}${CANONICAL_UNITS[result.type]}`;
+  }
+
+  private static significantTokens(value: string): CSSToken[] {
+    return new CSSTokenizer(value).tokenize()
+      .filter(token => token.type !== 'whitespace' && token.type !== 'EOF');
+  }
+}
+
+/**
+ * Recursive-descent parser/evaluator over significant tokens:
+ *   sum     := product (('+' | '-') product)*
+ *   product := value (('*' | '/') value)*
+ *   value   := number | dimension | percentage | constant | '(' sum ')' | math-function
+ */
+class CalcParser {
+  private index = 0;
+
+  constructor(private readonly tokens: CSSToken[], private readonly context: CalcContext) {}
+
+  parseValue(): CalcResult {
+    const token = this.next();
+    if (!token) throw new Error('unexpected end of expression');
+
+    switch (token.type) {
+      case 'number':
+        return { value: token.numeric!, type: 'number' };
+      case 'percentage':
+        return this.percentage(token.numeric!);
+      case 'dimension':
+        return this.dimension(token.numeric!, token.unit!.toLowerCase());
+      case '(': {
+        const result = this.parseSum();
+        this.expect(')');
+        return result;
+      }
+      case 'ident':
+        return this.constant(token.value.toLowerCase());
+      case 'function':
+        return this.parseFunction(token.value.toLowerCase());
+      default:
+        throw new Error(`unexpected "${token.value}"`);
+    }
+  }
+
+  expectEnd(): void {
+    if (this.index < this.tokens.length) {
+      throw new Error(`unexpected "${this.tokens[this.index].value}"`);
+    }
+  }
+
+  private parseSum(): CalcResult {
+    let result = this.parseProduct();
+
+    for (;;) {
+      const token = this.peek();
+      if (!token || token.type !== 'delim' || (token.value !== '+' && token.value !== '-')) break;
+      this.index++;
+      const right = this.parseProduct();
+      result = this.add(result, token.value === '+' ? right : { ...right, value: -right.value });
+    }
+
+    return result;
+  }
+
+  private parseProduct(): CalcResult {
+    let result = this.parseValue();
+
+    for (;;) {
+      const token = this.peek();
+      if (!token || token.type !== 'delim' || (token.value !== '*' && token.value !== '/')) break;
+      this.index++;
+      const right = this.parseValue();
+
+      if (token.value === '*') {
+        if (result.type === 'number') {
+          result = { value: result.value * right.value, type: right.type };
+        } else if (right.type === 'number') {
+          result = { value: result.value * right.value, type: result.type };
+        } else {
+          throw new Error(`cannot multiply ${result.type} by ${right.type}`);
+        }
+      } else {
+        if (right.type !== 'number') throw new Error(`cannot divide by ${right.type}`);
+        if (right.value === 0) throw new Error('division by zero');
+        result = { value: result.value / right.value, type: result.type };
+      }
+    }
+
+    return result;
+  }
+
+  private parseFunction(name: string): CalcResult {
+    if (!MATH_FUNCTIONS.has(name)) throw new Error(`unsupported function ${name}()`);
+
+    const args: CalcResult[] = [this.parseSum()];
+    while (this.peek()?.type === 'comma') {
+      this.index++;
+      args.push(this.parseSum());
+    }
+    this.expect(')');
+
+    switch (name) {
+      case 'calc':
+      case '-webkit-calc':
+      case 'abs':
+      case 'sign':
+        if (args.length !== 1) throw new Error(`${name}() takes one argument`);
+        if (name === 'abs') return { value: Math.abs(args[0].value), type: args[0].type };
+        if (name === 'sign') return { value: Math.sign(args[0].value), type: 'number' };
+        return args[0];
+      case 'min':
+      case 'max': {
+        const type = this.commonType(args);
+        const values = args.map(arg => arg.value);
+        return { value: name === 'min' ? Math.min(...values) : Math.max(...values), type };
+      }
+      case 'clamp': {
+        if (args.length !== 3) throw new Error('clamp() takes three arguments');
+        const type = this.commonType(args);
+        const [min, preferred, max] = args.map(arg => arg.value);
+        // The minimum wins when it exceeds the maximum
+        return { value: Math.max(min, Math.min(preferred, max)), type };
+      }
+      default:
+        throw new Error(`unsupported function ${name}()`);
+    }
+  }
+
+  private add(a: CalcResult, b: CalcResult): CalcResult {
+    if (a.type !== b.type) throw new Error(`cannot add ${a.type} and ${b.type}`);
+    return { value: a.value + b.value, type: a.type };
+  }
+
+  private commonType(args: CalcResult[]): CalcValueType {
+    const type = args[0].type;
+    if (args.some(arg => arg.type !== type)) throw new Error('arguments have mismatched types');
+    return type;
+  }
+
+  /**
+   * Percentages become lengths when the property gives them a basis
+   */
+  private percentage(value: number): CalcResult {
+    if (this.context.percentageBasis !== undefined) {
+      return { value: value / 100 * this.context.percentageBasis, type: 'length' };
+    }
+    return { value, type: 'percentage' };
+  }
+
+  private constant(name: string): CalcResult {
+    switch (name) {
+      case 'e': return { value: Math.E, type: 'number' };
+      case 'pi': return { value: Math.PI, type: 'number' };
+      default: throw new Error(`unknown keyword "${name}"`);
+    }
+  }
+
+  private dimension(value: number, unit: string): CalcResult {
+    const { fontSize, rootFontSize, viewportWidth, viewportHeight } = this.context;
+    const length = (px: number): CalcResult => ({ value: px, type: 'length' });
+
+    switch (unit) {
+      case 'px': return length(value);
+      case 'em': return length(value * fontSize);
+      case 'rem': return length(value * rootFontSize);
+      case 'ex':
+      case 'ch': return length(value * fontSize * 0.5);
+      case 'lh': return length(value * fontSize * 1.2);
+      case 'vw': case 'svw': case 'lvw': case 'dvw': return length(value * viewportWidth / 100);
+      case 'vh': case 'svh': case 'lvh': case 'dvh': return length(value * viewportHeight / 100);
+      case 'vmin': return length(value * Math.min(viewportWidth, viewportHeight) / 100);
+      case 'vmax': return length(value * Math.max(viewportWidth, viewportHeight) / 100);
+      case 'in': return length(value * 96);
+      case 'cm': return length(value * 96 / 2.54);
+      case 'mm': return length(value * 96 / 25.4);
+      case 'q': return length(value * 96 / 101.6);
+      case 'pt': return length(value * 96 / 72);
+      case 'pc': return length(value * 16);
+      case 'deg': return { value, type: 'angle' };
+      case 'rad': return { value: value * 180 / Math.PI, type: 'angle' };
+      case 'grad': return { value: value * 0.9, type: 'angle' };
+      case 'turn': return { value: value * 360, type: 'angle' };
+      case 's': return { value, type: 'time' };
+      case 'ms': return { value: value / 1000, type: 'time' };
+      case 'hz': return { value, type: 'frequency' };
+      case 'khz': return { value: value * 1000, type: 'frequency' };
+      case 'dppx':
+      case 'x': return { value, type: 'resolution' };
+      case 'dpi': return { value: value / 96, type: 'resolution' };
+      case 'dpcm': return { value: value * 2.54 / 96, type: 'resolution' };
+      default: throw new Error(`unknown unit "${unit}"`);
+    }
+  }
+
+  private peek(): CSSToken | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): CSSToken | undefined {
+    return this.tokens[this.index++];
+  }
+
+  private expect(type: string): void {
+    const token = this.next();
+    if (!token || token.type !== type) throw new Error(`expected "${type}"`);
+  }
+}
@@ -6,6 +6,8 @@
  */
 
 import { CSSRule } from './css-engine';
+import { SelectorEngine } from './selector-engine';
+import { CSSSyntaxParser, DeclarationNode } from '../parsers/css-syntax-parser';
 
 export interface ParsedSelector {
   selector: string;
@@ -14,79 +16,175 @@ export interface ParsedSelector {
   pseudoElement?: string;
 }
 
+/**
+ * Cascade origins, lowest precedence first for normal declarations.
+ * Inline `style` attributes are author-origin but rank above any selector.
+ */
+export type CascadeOrigin = 'user-agent' | 'author' | 'inline';
+
+export interface CascadedDeclaration {
+  property: string;
+  value: string;
+  important: boolean;
+  origin: CascadeOrigin;
+  specificity: number;
+  order: number;
+}
+
+/**
+ * Minimal rule shape the cascade needs; all three rule parsers produce it
+ */
+export interface CascadeRule {
+  declarations: Record<string, string>;
+  specificity: number;
+  importantProperties?: string[];
+  sourceOrder?: number;
+}
+
+/**
+ * Expands one declaration (`{ property: value }`) into the longhands it sets
+ */
+export type ShorthandExpander = (declaration: Record<string, string>) => Record<string, string>;
+
 export class CascadeResolver {
   
+  /**
+   * Precedence of an origin/importance pair (CSS Cascade 4 §6.2).
+   * Important declarations reverse the origin order.
+   */
+  static cascadeRank(origin: CascadeOrigin, important: boolean): number {
+    if (!important) {
+      return origin === 'user-agent' ? 0 : origin === 'author' ? 1 : 2;
+    }
+    return origin === 'author' ? 3 : origin === 'inline' ? 4 : 5;
+  }
+  
+  /**
+   * Compare two declarations by origin and importance, then specificity,
+   * then source order. Positive when `a` wins.
+   */
+  static compareDeclarations(a: CascadedDeclaration, b: CascadedDeclaration): number {
+    const rankDiff = this.cascadeRank(a.origin, a.important) - this.cascadeRank(b.origin, b.important);
+    if (rankDiff !== 0) return rankDiff;
+    
+    if (a.specificity !== b.specificity) {
+      return a.specificity - b.specificity;
+    }
+    
+    return a.order - b.order;
+  }
+  
+  /**
+   * Pick the winning value for every property
+   */
+  static cascade(declarations: CascadedDeclaration[]): Record<string, string> {
+    const winners = new Map<string, CascadedDeclaration>();
+    
+    declarations.forEach(declaration => {
+      const current = winners.get(declaration.property);
+      if (!current || this.compareDeclarations(declaration, current) >= 0) {
+        winners.set(declaration.property, declaration);
+      }
+    });
+    
+    const result: Record<string, string> = {};
+    winners.forEach((declaration, property) => {
+      result[property] = declaration.value;
+    });
+    return result;
+  }
+  
+  /**
+   * Cascade the author rules matching an element together with its inline style.
+   * Rules without an explicit `sourceOrder` use their index in `matchedRules`.
+   * An inline style given as text keeps its !important flags. With `expand`,
+   * inline shorthands are expanded like rule shorthands (see
+   * `expandRuleShorthands`), so their longhands compete with the rules' ones.
+   */
+  static resolveStyles(
+    matchedRules: CascadeRule[],
+    inlineStyle?: string | Record<string, string>,
+    expand?: ShorthandExpander
+  ): Record<string, string> {
+    const declarations: CascadedDeclaration[] = [];
+    
+    matchedRules.forEach((rule, index) => {
+      const important = new Set(rule.importantProperties || []);
+      const order = rule.sourceOrder !== undefined ? rule.sourceOrder : index;
+      
+      Object.entries(rule.declarations).forEach(([property, value]) => {
+        declarations.push({
+          property,
+          value,
+          important: important.has(property),
+          origin: 'author',
+          specificity: rule.specificity,
+          order
+        });
+      });
+    });
+    
+    const addInline = (property: string, value: string, important: boolean, order: number) => {
+      const longhands = expand ? expand({ [property]: value }) : { [property]: value };
+      Object.entries(longhands).forEach(([longhand, longhandValue]) => {
+        declarations.push({ property: longhand, value: longhandValue, important, origin: 'inline', specificity: 0, order });
+      });
+    };
+    
+    if (typeof inlineStyle === 'string') {
+      CSSSyntaxParser.parseDeclarationList(inlineStyle).forEach((declaration, order) => {
+        if (!declaration.value) return;
+        addInline(declaration.property, declaration.value, declaration.important, order);
+      });
+    } else if (inlineStyle) {
+      Object.entries(inlineStyle).forEach(([property, value], order) => addInline(property, value, false, order));
+    }
+    
+    return this.cascade(declarations);
+  }
+  
+  
   /**
    * Parse CSS text into rules with computed specificity
    */
   static parseCSSToRules(cssText: string): CSSRule[] {
     const rules: CSSRule[] = [];
+    const sheet = CSSSyntaxParser.parseStylesheet(cssText);
     
-    // Remove comments
-    const cleanCSS = cssText.replace(/\/\*[\s\S]*?\*\//g, '');
-    
-    // Split into rule blocks
-    const ruleMatches = cleanCSS.match(/[^{}]+\{[^{}]+\}/g);
-    if (!ruleMatches) return rules;
-    
-    ruleMatches.forEach(ruleText => {
-      const selectorMatch = ruleText.match(/^([^{]+)\{/);
-      const declarationsMatch = ruleText.match(/\{([^}]+)\}/);
+    CSSSyntaxParser.flattenStyleRules(sheet).forEach((rule, sourceOrder) => {
+      if (!rule.selector) return;
       
-      if (selectorMatch && declarationsMatch) {
-        const selectorsText = selectorMatch[1].trim();
-        const declarationsText = declarationsMatch[1].trim();
-        
-        // Handle multiple selectors (comma-separated)
-        const selectors = selectorsText.split(',').map(s => s.trim());
-        
-        selectors.forEach(selector => {
-          const declarations = this.parseDeclarations(declarationsText);
-          const specificity = this.calculateSpecificity(selector);
-          
-          rules.push({
-            selector,
-            specificity,
-            declarations
-          });
+      const declarations = this.parseDeclarations(rule.declarations);
+      const importantProperties = CSSSyntaxParser.importantProperties(rule.declarations);
+      
+      // Handle multiple selectors (comma-separated, ignoring commas inside :is() etc.)
+      SelectorEngine.splitSelectorList(rule.selector).forEach(selector => {
+        rules.push({
+          selector,
+          specificity: this.calculateSpecificity(selector),
+          declarations,
+          importantProperties,
+          sourceOrder,
+          media: rule.media
         });
-      }
+      });
     });
     
     return rules;
   }
   
   /**
-   * Parse CSS declarations block
+   * Convert parsed declarations into a property map
    */
-  private static parseDeclarations(declarationsText: string): Record<string, string> {
-    const declarations: Record<string, string> = {};
-    
-    // Split by semicolon but handle values that might contain semicolons
-    const parts = declarationsText.split(';').filter(p => p.trim());
+  private static parseDeclarations(declarationNodes: DeclarationNode[]): Record<string, string> {
+    const declarations = CSSSyntaxParser.declarationsToRecord(declarationNodes);
     
-    parts.forEach(part => {
-      const colonIndex = part.indexOf(':');
-      if (colonIndex > 0) {
-        const property = part.substring(0, colonIndex).trim();
-        let value = part.substring(colonIndex + 1).trim();
-        
-        // Clean value - remove quotes if they wrap the entire value
-        if ((value.startsWith('"') && value.endsWith('"')) ||
-            (value.startsWith("'") && value.endsWith("'"))) {
-          value = value.slice(1, -1);
-        }
-        
-        // Handle !important
-        const importantMatch = value.match(/^(.*?)\s*!important\s*$/);
-        if (importantMatch) {
-          value = importantMatch[1].trim();
-          // In a full implementation, we'd track importance
-        }
-        
-        if (property && value) {
-          declarations[property] = value;
-        }
+    // Clean value - remove quotes if they wrap the entire value
+    Object.keys(declarations).forEach(property => {
+      const value = declarations[property];
+      if ((value.startsWith('"') && value.endsWith('"')) ||
+          (value.startsWith("'") && value.endsWith("'"))) {
+        declarations[property] = value.slice(1, -1);
       }
     });
     
@@ -98,50 +196,7 @@ export class CascadeResolver {
    * Returns a single number for easy comparison
    */
   private static calculateSpecificity(selector: string): number {
-    let a = 0; // Inline styles (not handled here)
-    let b = 0; // IDs
-    let c = 0; // Classes, attributes, pseudo-classes
-    let d = 0; // Elements and pseudo-elements
-    
-    // Remove pseudo-elements for counting
-    const selectorWithoutPseudo = selector.replace(/::?[\w-]+/g, match => {
-      if (match.startsWith('::')) {
-        d++; // Pseudo-elements
-        return '';
-      } else if (match.startsWith(':')) {
-        c++; // Pseudo-classes
-        return '';
-      }
-      return match;
-    });
-    
-    // Count IDs
-    const idMatches = selectorWithoutPseudo.match(/#[\w-]+/g);
-    if (idMatches) b += idMatches.length;
-    
-    // Count classes
-    const classMatches = selectorWithoutPseudo.match(/\.[\w-]+/g);
-    if (classMatches) c += classMatches.length;
-    
-    // Count attribute selectors
-    const attrMatches = selectorWithoutPseudo.match(/\[[^\]]+\]/g);
-    if (attrMatches) c += attrMatches.length;
-    
-    // Count type selectors
-    const cleanedSelector = selectorWithoutPseudo
-      .replace(/#[\w-]+/g, '') // Remove IDs
-      .replace(/\.[\w-]+/g, '') // Remove classes
-      .replace(/\[[^\]]+\]/g, '') // Remove attributes
-      .trim();
-    
-    if (cleanedSelector) {
-      // Count element selectors
-      const elementMatches = cleanedSelector.match(/\b[a-zA-Z]+\b/g);
-      if (elementMatches) d += elementMatches.length;
-    }
-    
-    // Combine into single number (each component weighted by 1000)
-    return b * 1000000 + c * 1000 + d;
+    return SelectorEngine.calculateSpecificity(selector);
   }
   
   /**
@@ -174,6 +229,31 @@ export class CascadeResolver {
     return declarations[declarations.length - 1]?.value || '';
   }
   
+  /**
+   * Expand a rule's shorthands before the cascade so they compete with
+   * longhands from other rules; longhands of an !important shorthand stay
+   * important. Engines with their own shorthand support pass `expand`.
+   */
+  static expandRuleShorthands<T extends CascadeRule>(
+    rule: T,
+    expand: ShorthandExpander = declaration => this.expandShorthands(declaration)
+  ): T {
+    const important = new Set(rule.importantProperties || []);
+    const declarations: Record<string, string> = {};
+    const importantProperties: string[] = [];
+    
+    Object.entries(rule.declarations).forEach(([property, value]) => {
+      Object.entries(expand({ [property]: value })).forEach(([longhand, longhandValue]) => {
+        // A later normal declaration doesn't undo an earlier important one
+        if (importantProperties.includes(longhand) && !important.has(property)) return;
+        declarations[longhand] = longhandValue;
+        if (important.has(property)) importantProperties.push(longhand);
+      });
+    });
+    
+    return { ...rule, declarations, importantProperties };
+  }
+  
   /**
    * Expand shorthand properties to longhand
    */
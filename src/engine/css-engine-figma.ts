@@ -1,6 +1,13 @@
 // src/engine/css-engine-figma.ts
 // JSDOM-FREE version for Figma plugin environment
 
+import { SelectorEngine, MatchContext, ForcedState, InteractiveState } from './selector-engine';
+import { CascadeResolver, ShorthandExpander } from './cascade-resolver';
+import { ValueResolver, ResolverContext } from './value-resolver';
+import { MediaQueryEvaluator, MediaEnvironment } from './media-query-evaluator';
+import { CalcEvaluator } from './calc-evaluator';
+import { GeneratedContent } from './generated-content';
+
 export interface ComputedStyle {
   [property: string]: string | number;
 }
@@ -9,6 +16,9 @@ export interface CSSRule {
   selector: string;
   declarations: Record<string, string>;
   specificity: number;
+  importantProperties?: string[];
+  sourceOrder?: number;
+  media?: string[];
 }
 
 export interface LayoutBox {
@@ -30,17 +40,62 @@ export interface LayoutBox {
   borderLeftWidth: number;
 }
 
+export interface PseudoElementBox {
+  pseudoElement: 'before' | 'after';
+  computedStyle: ComputedStyle;
+  /** Text generated by `content` */
+  text: string;
+}
+
 /**
  * FIGMA-COMPATIBLE CSS ENGINE
  * No external dependencies, pure TypeScript
  */
+const SIDES = ['top', 'right', 'bottom', 'left'] as const;
+const CORNERS = ['top-left', 'top-right', 'bottom-right', 'bottom-left'] as const;
+
+const BORDER_STYLES = new Set([
+  'none', 'hidden', 'solid', 'dashed', 'dotted', 'double', 'groove', 'ridge', 'inset', 'outset', 'auto'
+]);
+
+/** Pixel widths of thin, medium and thick, as browsers draw them */
+const LINE_WIDTHS: Record<string, number> = { thin: 1, medium: 3, thick: 5 };
+
+/** Selectors that can only match with an interactive state forced on */
+const STATE_SELECTORS: Record<InteractiveState, RegExp> = {
+  hover: /:hover\b/i,
+  focus: /:focus(-visible|-within)?\b/i,
+  active: /:active\b/i,
+  disabled: /:disabled\b|\[\s*disabled\b/i
+};
+
+/** Background shorthand keywords that can't be the color */
+const BACKGROUND_KEYWORDS = new Set([
+  'none', 'repeat', 'repeat-x', 'repeat-y', 'no-repeat', 'space', 'round',
+  'scroll', 'fixed', 'local', 'center', 'top', 'bottom', 'left', 'right',
+  'auto', 'cover', 'contain', 'border-box', 'padding-box', 'content-box', 'text'
+]);
+
 export class FigmaCompatibleCSSEngine {
   private browserDefaults: Map<string, Record<string, string>>;
   private computedStyles: Map<any, ComputedStyle>;
+  private variableBindings: WeakMap<ComputedStyle, Record<string, string>>;
+  private contentWidths: WeakMap<ComputedStyle, number>;
+  private generatedContent: GeneratedContent;
+  
+  private readonly inheritedProperties = [
+    'color', 'font-family', 'font-size', 'font-weight', 'font-style',
+    'line-height', 'text-align', 'text-decoration', 'letter-spacing',
+    'word-spacing', 'text-transform', 'text-indent', 'visibility', 'text-shadow',
+    'white-space', 'font-variant-numeric'
+  ];
   
   constructor() {
     this.browserDefaults = this.initializeBrowserDefaults();
     this.computedStyles = new Map();
+    this.variableBindings = new WeakMap();
+    this.contentWidths = new WeakMap();
+    this.generatedContent = new GeneratedContent();
     console.log('🚀 FigmaCompatibleCSSEngine initialized');
   }
   
@@ -102,6 +157,29 @@ export class FigmaCompatibleCSSEngine {
       'margin-right': '0'
     });
     
+    // Inline formatting elements
+    ['strong', 'b'].forEach(tag => defaults.set(tag, { display: 'inline', 'font-weight': 'bold' }));
+    ['em', 'i', 'cite', 'var'].forEach(tag => defaults.set(tag, { display: 'inline', 'font-style': 'italic' }));
+    ['code', 'kbd', 'samp'].forEach(tag => defaults.set(tag, { display: 'inline', 'font-family': 'monospace' }));
+    ['u', 'ins'].forEach(tag => defaults.set(tag, { display: 'inline', 'text-decoration': 'underline' }));
+    ['s', 'del'].forEach(tag => defaults.set(tag, { display: 'inline', 'text-decoration': 'line-through' }));
+    
+    defaults.set('a', {
+      display: 'inline',
+      color: '#0000ee',
+      'text-decoration': 'underline'
+    });
+    
+    defaults.set('mark', {
+      display: 'inline',
+      'background-color': 'yellow',
+      color: '#000000'
+    });
+    
+    defaults.set('small', { display: 'inline', 'font-size': '0.83em' });
+    defaults.set('sub', { display: 'inline', 'font-size': '0.83em', 'vertical-align': 'sub' });
+    defaults.set('sup', { display: 'inline', 'font-size': '0.83em', 'vertical-align': 'super' });
+    
     return defaults;
   }
   
@@ -111,48 +189,247 @@ export class FigmaCompatibleCSSEngine {
   public computeStyles(
     element: any, 
     cssRules: CSSRule[], 
-    parentStyles?: ComputedStyle
+    parentStyles?: ComputedStyle,
+    viewport: MediaEnvironment = { width: 1920, height: 1080 }
   ): ComputedStyle {
     
     console.log('🎨 Computing styles for:', element.tagName || 'text');
     
-    // 1. Start with browser defaults
-    const tagName = element.tagName?.toLowerCase() || 'div';
-    const tagDefaults = this.browserDefaults.get(tagName) || this.browserDefaults.get('div')!;
-    let styles = { ...tagDefaults };
+    const tagName = element.tagName?.toLowerCase() || null;
+    const inlineStyle = element.attributes?.style || element.style;
+    const { computedStyles, cascaded } = this.cascadeStyles(
+      element, tagName, inlineStyle, cssRules, parentStyles, viewport
+    );
     
-    // 2. Apply inherited properties from parent
+    console.log('✅ Computed styles:', {
+      backgroundColor: computedStyles['background-color'],
+      borderWidth: computedStyles['border-top-width'],
+      display: computedStyles['display']
+    });
+    
+    this.computedStyles.set(element, computedStyles);
+    this.variableBindings.set(computedStyles, this.collectVariableBindings(cascaded, parentStyles));
+    
+    // Counters must be updated in document order, before ::before content reads them
+    if (element.tagName) {
+      this.generatedContent.applyCounters(element, computedStyles);
+    }
+    return computedStyles;
+  }
+  
+  /**
+   * Styles and generated text of an element's ::before or ::after. Call after
+   * computeStyles for the element (and, for ::after, its descendants).
+   * Returns null when the pseudo-element generates no box.
+   */
+  public computePseudoElementStyles(
+    element: any,
+    pseudoElement: 'before' | 'after',
+    cssRules: CSSRule[],
+    elementStyles: ComputedStyle,
+    viewport: MediaEnvironment = { width: 1920, height: 1080 }
+  ): PseudoElementBox | null {
+    
+    // Pseudo-elements inherit from their element and default to inline boxes
+    const { computedStyles, cascaded } = this.cascadeStyles(
+      element, 'span', undefined, cssRules, elementStyles, viewport, { pseudoElement }
+    );
+    if (computedStyles.display === 'none') return null;
+    
+    const text = this.generatedContent.evaluate(element, computedStyles);
+    if (text === null) return null;
+    
+    console.log(`✨ Generated ::${pseudoElement} for:`, element.tagName, JSON.stringify(text));
+    this.variableBindings.set(computedStyles, this.collectVariableBindings(cascaded, elementStyles));
+    return { pseudoElement, computedStyle: computedStyles, text };
+  }
+  
+  /**
+   * Interactive states with rules of their own for the element or its
+   * descendants (e.g. `.btn:hover .icon`), in variant order
+   */
+  public interactiveStates(element: any, cssRules: CSSRule[], viewport: MediaEnvironment): InteractiveState[] {
+    const subtree: any[] = [];
+    const collect = (node: any) => {
+      if (!node.tagName || node.pseudoElement) return;
+      subtree.push(node);
+      (node.children || []).forEach(collect);
+    };
+    collect(element);
+    
+    return (Object.keys(STATE_SELECTORS) as InteractiveState[]).filter(state => {
+      const forcedState: ForcedState = { element, state };
+      return cssRules.some(rule => {
+        if (!STATE_SELECTORS[state].test(rule.selector)) return false;
+        if (!MediaQueryEvaluator.matchesAll(rule.media, viewport)) return false;
+        
+        // Only rules that the state turns on count ([disabled] elements are already disabled)
+        return subtree.some(node => [undefined, 'before', 'after'].some(pseudoElement =>
+          this.selectorMatches(rule.selector, node, { pseudoElement, forcedState }) &&
+          !this.selectorMatches(rule.selector, node, { pseudoElement })
+        ));
+      });
+    });
+  }
+  
+  /**
+   * Styles of an element (or of its existing ::before/::after box) with an
+   * interactive state forced on. Counters and generated text are left as
+   * computed for the default state.
+   */
+  public computeStateStyles(
+    element: any,
+    cssRules: CSSRule[],
+    parentStyles: ComputedStyle | undefined,
+    forcedState: ForcedState,
+    viewport: MediaEnvironment = { width: 1920, height: 1080 },
+    pseudoElement?: 'before' | 'after'
+  ): ComputedStyle {
+    const tagName = pseudoElement ? 'span' : element.tagName?.toLowerCase() || null;
+    const inlineStyle = pseudoElement ? undefined : element.attributes?.style || element.style;
+    const { computedStyles, cascaded } = this.cascadeStyles(
+      element, tagName, inlineStyle, cssRules, parentStyles, viewport, { pseudoElement, forcedState }
+    );
+    
+    this.variableBindings.set(computedStyles, this.collectVariableBindings(cascaded, parentStyles));
+    return computedStyles;
+  }
+  
+  /**
+   * Defaults, inheritance, cascade and value resolution for one box
+   */
+  private cascadeStyles(
+    element: any,
+    tagName: string | null,
+    inlineStyle: string | Record<string, string> | undefined,
+    cssRules: CSSRule[],
+    parentStyles: ComputedStyle | undefined,
+    viewport: MediaEnvironment,
+    context: MatchContext = {}
+  ): { computedStyles: ComputedStyle; cascaded: Record<string, string> } {
+    
+    // 1. Start with browser defaults (as longhands, so author longhands override them).
+    //    Text nodes (no tag) have none, so they inherit everything from their element.
+    const tagDefaults = tagName === null
+      ? {}
+      : this.browserDefaults.get(tagName) || this.browserDefaults.get('div')!;
+    let styles = this.expandShorthands({ ...tagDefaults });
+    
+    // 2. Apply inherited properties from parent; without one, `unset`
+    //    inherited properties fall back to the defaults
+    const inheritFrom = parentStyles || this.browserDefaults.get('div')!;
     if (parentStyles) {
       styles = this.applyInheritance(styles, parentStyles);
     }
     
-    // 3. Apply CSS rules in specificity order
-    const applicableRules = this.getApplicableRules(element, cssRules);
-    applicableRules.sort((a, b) => a.specificity - b.specificity);
-    
-    applicableRules.forEach(rule => {
-      Object.assign(styles, rule.declarations);
+    // 3. Cascade matching CSS rules with the inline style as longhands
+    //    (origin and importance, then specificity, then source order)
+    const applicableRules = this.getApplicableRules(element, cssRules, viewport, context);
+    const cascaded = this.cascadeLonghands(applicableRules, inlineStyle, declaration => this.expandShorthands(declaration));
+    
+    // 4. Custom properties inherit from the parent. Declarations using var()
+    //    are substituted before their shorthands expand, so a value like
+    //    `margin: var(--m)` with `--m: 10px 20px` fills the right longhands;
+    //    the cascade is repeated with the substituted values. Declarations
+    //    that can't be substituted are `unset`: inherited properties take the
+    //    parent's value, the others their initial value.
+    const customProperties = ValueResolver.customPropertiesOf(cascaded, parentStyles);
+    const usesVars = [...applicableRules.map(rule => rule.declarations), inlineStyle]
+      .some(declarations => /var\(/i.test(typeof declarations === 'string' ? declarations : Object.values(declarations || {}).join(';')));
+    const substituted = usesVars
+      ? this.cascadeLonghands(applicableRules, inlineStyle, declaration => this.substituteAndExpand(declaration, customProperties))
+      : cascaded;
+    Object.entries(substituted).forEach(([property, value]) => {
+      if (property.startsWith('--')) return;
+      if (value !== 'unset') {
+        styles[property] = value;
+        return;
+      }
+      const inherited = this.inheritedProperties.includes(property)
+        ? this.inheritedValue(property, inheritFrom)
+        : undefined;
+      if (inherited === undefined) {
+        delete styles[property];
+      } else {
+        styles[property] = inherited;
+      }
     });
+    Object.assign(styles, customProperties);
     
-    // 4. Apply inline styles (highest priority)
-    if (element.style) {
-      Object.assign(styles, element.style);
+    // 5. Resolve computed values (em → px, % → px, etc.)
+    const computedStyles = this.resolveComputedValues(styles, parentStyles, viewport);
+    const contentWidth = this.contentWidth(computedStyles, parentStyles, viewport);
+    if (contentWidth !== undefined) {
+      this.contentWidths.set(computedStyles, contentWidth);
     }
     
-    // 5. Expand shorthand properties
-    styles = this.expandShorthands(styles);
+    return { computedStyles, cascaded };
+  }
+  
+  /**
+   * Width of a box's content area, which its children's percentages resolve
+   * against. Auto widths fill the containing block, as blocks do.
+   */
+  private contentWidth(
+    computed: ComputedStyle,
+    parentStyles: ComputedStyle | undefined,
+    viewport: MediaEnvironment
+  ): number | undefined {
+    const length = (property: string) => typeof computed[property] === 'number' ? computed[property] as number : 0;
+    const border = (side: string) => computed[`border-${side}-style`] && computed[`border-${side}-style`] !== 'none'
+      ? length(`border-${side}-width`)
+      : 0;
+    const insets = length('padding-left') + length('padding-right') + border('left') + border('right');
+    
+    if (typeof computed.width === 'number') {
+      return computed['box-sizing'] === 'border-box' ? Math.max(0, computed.width - insets) : computed.width;
+    }
     
-    // 6. Resolve computed values (em → px, % → px, etc.)
-    const computedStyles = this.resolveComputedValues(styles, parentStyles);
+    const available = this.containerWidth(parentStyles, viewport);
+    if (available === undefined) return undefined;
+    return Math.max(0, available - length('margin-left') - length('margin-right') - insets);
+  }
+  
+  /**
+   * Width percentages of a child of `parentStyles` refer to; the initial
+   * containing block is the viewport
+   */
+  private containerWidth(parentStyles: ComputedStyle | undefined, viewport: MediaEnvironment): number | undefined {
+    return parentStyles ? this.contentWidths.get(parentStyles) : viewport.width;
+  }
+  
+  /**
+   * Custom properties that computed values were taken from, keyed by
+   * longhand property, e.g. `{ 'background-color': '--brand-500' }`
+   */
+  public getVariableBindings(computedStyle: ComputedStyle): Record<string, string> {
+    return this.variableBindings.get(computedStyle) || {};
+  }
+  
+  /**
+   * Record which properties are a bare var() reference. Shorthands pass the
+   * reference on to their longhands; inherited properties keep the parent's.
+   */
+  private collectVariableBindings(
+    cascaded: Record<string, string>,
+    parentStyles?: ComputedStyle
+  ): Record<string, string> {
+    const bindings: Record<string, string> = {};
+    const parentBindings = parentStyles ? this.getVariableBindings(parentStyles) : {};
     
-    console.log('✅ Computed styles:', {
-      backgroundColor: computedStyles['background-color'],
-      borderWidth: computedStyles['border-top-width'],
-      display: computedStyles['display']
+    this.inheritedProperties.forEach(prop => {
+      if (!(prop in cascaded) && parentBindings[prop]) {
+        bindings[prop] = parentBindings[prop];
+      }
     });
     
-    this.computedStyles.set(element, computedStyles);
-    return computedStyles;
+    Object.entries(cascaded).forEach(([property, value]) => {
+      if (property.startsWith('--')) return;
+      const name = ValueResolver.referencedCustomProperty(value);
+      if (name) bindings[property] = name;
+    });
+    
+    return bindings;
   }
   
   /**
@@ -163,31 +440,44 @@ export class FigmaCompatibleCSSEngine {
     parentStyles: ComputedStyle
   ): Record<string, string> {
     
-    const inheritedProperties = [
-      'color', 'font-family', 'font-size', 'font-weight', 'font-style',
-      'line-height', 'text-align', 'text-decoration', 'letter-spacing',
-      'word-spacing', 'text-transform', 'text-indent', 'visibility'
-    ];
-    
     const result = { ...styles };
     
-    inheritedProperties.forEach(prop => {
-      if (!result[prop] && parentStyles[prop]) {
-        result[prop] = parentStyles[prop].toString();
+    this.inheritedProperties.forEach(prop => {
+      const inherited = result[prop] ? undefined : this.inheritedValue(prop, parentStyles);
+      if (inherited !== undefined) {
+        result[prop] = inherited;
       }
     });
     
     return result;
   }
   
+  /**
+   * A parent's computed value as a declared value for its child
+   */
+  private inheritedValue(property: string, parentStyles: ComputedStyle): string | undefined {
+    const value = parentStyles[property];
+    if (!value) return undefined;
+    // Resolved lengths are numbers of pixels; keep the unit so an
+    // inherited `line-height: 24px` doesn't read as a unitless 24
+    return typeof value === 'number' ? `${value}px` : value.toString();
+  }
+  
   /**
    * CSS Selector Matching
    */
-  private getApplicableRules(element: any, cssRules: CSSRule[]): CSSRule[] {
+  private getApplicableRules(
+    element: any,
+    cssRules: CSSRule[],
+    viewport: MediaEnvironment,
+    context: MatchContext = {}
+  ): CSSRule[] {
     const applicable: CSSRule[] = [];
     
     cssRules.forEach(rule => {
-      if (this.selectorMatches(rule.selector, element)) {
+      // Rules inside @media blocks only apply when their queries match the viewport
+      if (!MediaQueryEvaluator.matchesAll(rule.media, viewport)) return;
+      if (this.selectorMatches(rule.selector, element, context)) {
         applicable.push(rule);
       }
     });
@@ -195,33 +485,47 @@ export class FigmaCompatibleCSSEngine {
     return applicable;
   }
   
-  private selectorMatches(selector: string, element: any): boolean {
-    const trimmedSelector = selector.trim();
-    
-    // Class selector (.class-name)
-    if (trimmedSelector.startsWith('.')) {
-      const className = trimmedSelector.substring(1);
-      return element.classList?.includes(className) || 
-             element.className?.split(' ').includes(className);
-    }
-    
-    // ID selector (#id)
-    if (trimmedSelector.startsWith('#')) {
-      const id = trimmedSelector.substring(1);
-      return element.id === id;
-    }
-    
-    // Tag selector (div, p, h1, etc.)
-    if (/^[a-zA-Z][a-zA-Z0-9]*$/.test(trimmedSelector)) {
-      return element.tagName?.toLowerCase() === trimmedSelector.toLowerCase();
+  private selectorMatches(selector: string, element: any, context: MatchContext = {}): boolean {
+    return SelectorEngine.matches(selector, element, context);
+  }
+  
+  /**
+   * Cascade rules and an inline style after expanding each declaration
+   * into longhands with `expand`
+   */
+  private cascadeLonghands(
+    rules: CSSRule[],
+    inlineStyle: string | Record<string, string> | undefined,
+    expand: ShorthandExpander
+  ): Record<string, string> {
+    return CascadeResolver.resolveStyles(
+      rules.map(rule => CascadeResolver.expandRuleShorthands(rule, expand)),
+      inlineStyle,
+      expand
+    );
+  }
+  
+  /**
+   * Longhands of one declaration with its var() references substituted
+   */
+  private substituteAndExpand(
+    declaration: Record<string, string>,
+    customProperties: Record<string, string>
+  ): Record<string, string> {
+    const [property, value] = Object.entries(declaration)[0];
+    if (property.startsWith('--') || !/var\(/i.test(value)) {
+      return this.expandShorthands(declaration);
     }
     
-    // Universal selector (*)
-    if (trimmedSelector === '*') {
-      return true;
+    const substituted = ValueResolver.substituteVars(value, name => name in customProperties ? customProperties[name] : null);
+    if (substituted === null) {
+      // Invalid at computed-value time: the declaration still wins the cascade
+      console.warn(`⚠️ Could not resolve ${property}: ${value}`);
+      const unset: Record<string, string> = {};
+      Object.keys(this.expandShorthands(declaration)).forEach(longhand => unset[longhand] = 'unset');
+      return unset;
     }
-    
-    return false;
+    return this.expandShorthands({ [property]: substituted });
   }
   
   /**
@@ -253,26 +557,74 @@ export class FigmaCompatibleCSSEngine {
     // Expand border shorthand
     if (expanded.border) {
       const borderParts = this.parseBorder(expanded.border);
-      expanded['border-top-width'] = borderParts.width;
-      expanded['border-right-width'] = borderParts.width;
-      expanded['border-bottom-width'] = borderParts.width;
-      expanded['border-left-width'] = borderParts.width;
-      expanded['border-top-style'] = borderParts.style;
-      expanded['border-right-style'] = borderParts.style;
-      expanded['border-bottom-style'] = borderParts.style;
-      expanded['border-left-style'] = borderParts.style;
-      expanded['border-top-color'] = borderParts.color;
-      expanded['border-right-color'] = borderParts.color;
-      expanded['border-bottom-color'] = borderParts.color;
-      expanded['border-left-color'] = borderParts.color;
+      SIDES.forEach(side => {
+        expanded[`border-${side}-width`] = borderParts.width;
+        expanded[`border-${side}-style`] = borderParts.style;
+        expanded[`border-${side}-color`] = borderParts.color;
+      });
       delete expanded.border;
     }
     
+    // Expand per-side border shorthands (border-top: 1px solid red)
+    SIDES.forEach(side => {
+      const shorthand = `border-${side}`;
+      if (expanded[shorthand]) {
+        const borderParts = this.parseBorder(expanded[shorthand]);
+        expanded[`${shorthand}-width`] = borderParts.width;
+        expanded[`${shorthand}-style`] = borderParts.style;
+        expanded[`${shorthand}-color`] = borderParts.color;
+        delete expanded[shorthand];
+      }
+    });
+    
+    // Expand border-width, border-style and border-color (1-4 values)
+    (['width', 'style', 'color'] as const).forEach(part => {
+      const shorthand = `border-${part}`;
+      if (expanded[shorthand]) {
+        const values = this.parseSpaceValues(expanded[shorthand]);
+        SIDES.forEach((side, i) => expanded[`border-${side}-${part}`] = values[i]);
+        delete expanded[shorthand];
+      }
+    });
+    
+    // Expand border-radius (horizontal radii / vertical radii)
+    if (expanded['border-radius']) {
+      const [horizontal, vertical] = expanded['border-radius'].split('/').map(radii => radii.trim());
+      const horizontalRadii = this.parseSpaceValues(horizontal);
+      const verticalRadii = vertical ? this.parseSpaceValues(vertical) : horizontalRadii;
+      CORNERS.forEach((corner, i) => {
+        expanded[`border-${corner}-radius`] = horizontalRadii[i] === verticalRadii[i]
+          ? horizontalRadii[i]
+          : `${horizontalRadii[i]} ${verticalRadii[i]}`;
+      });
+      delete expanded['border-radius'];
+    }
+    
+    // Expand outline shorthand
+    if (expanded.outline) {
+      const outlineParts = this.parseBorder(expanded.outline);
+      expanded['outline-width'] = outlineParts.width;
+      expanded['outline-style'] = outlineParts.style;
+      expanded['outline-color'] = outlineParts.color;
+      delete expanded.outline;
+    }
+    
+    // Expand background shorthand (layers are comma-separated, color only in the last)
+    if (expanded.background) {
+      const backgroundParts = this.parseBackground(expanded.background);
+      expanded['background-color'] = backgroundParts.color;
+      expanded['background-image'] = backgroundParts.image;
+      expanded['background-position'] = backgroundParts.position;
+      expanded['background-size'] = backgroundParts.size;
+      expanded['background-repeat'] = backgroundParts.repeat;
+      delete expanded.background;
+    }
+    
     return expanded;
   }
   
   private parseSpaceValues(value: string): [string, string, string, string] {
-    const values = value.trim().split(/\s+/);
+    const values = ValueResolver.splitTopLevel(value.trim(), ' ');
     
     switch (values.length) {
       case 1:
@@ -288,13 +640,50 @@ export class FigmaCompatibleCSSEngine {
     }
   }
   
+  /**
+   * `<width> <style> <color>` in any order; omitted parts reset to their
+   * initial values (medium, none, currentcolor), so `border: 0` paints nothing
+   */
   private parseBorder(value: string): { width: string; style: string; color: string } {
-    const parts = value.trim().split(/\s+/);
+    const parts = ValueResolver.splitTopLevel(value.trim(), ' ');
+    const isWidth = (part: string) => /^(thin|medium|thick)$/i.test(part) || /^[-+]?[\d.]/.test(part) || /^calc\(/i.test(part);
+    const isStyle = (part: string) => BORDER_STYLES.has(part.toLowerCase());
+    
+    return {
+      width: parts.find(isWidth) || 'medium',
+      style: parts.find(isStyle)?.toLowerCase() || 'none',
+      color: parts.find(part => !isWidth(part) && !isStyle(part)) || 'currentcolor'
+    };
+  }
+  
+  private parseBackground(value: string): Record<'color' | 'image' | 'position' | 'size' | 'repeat', string> {
+    const layers = ValueResolver.splitTopLevel(value, ',').map(layer => {
+      const parts = ValueResolver.splitTopLevel(layer, ' ')
+        .flatMap(part => /\(/.test(part) ? [part] : part.split(/(\/)/).filter(Boolean));
+      const slash = parts.indexOf('/');
+      const isImage = (part: string) => /^((repeating-)?(linear|radial|conic)-gradient|url)\(/i.test(part);
+      const isPosition = (part: string) => /^(left|right|top|bottom|center)$/i.test(part) || /^-?[\d.]/.test(part);
+      
+      return {
+        image: parts.find(isImage) || 'none',
+        position: parts.filter((part, index) => (slash === -1 || index < slash) && isPosition(part)).join(' ') || '0% 0%',
+        size: slash === -1 ? 'auto' : parts.slice(slash + 1).filter(part => /^(cover|contain|auto)$/i.test(part) || /^[\d.]/.test(part)).join(' ') || 'auto',
+        repeat: parts.find(part => /^(repeat|repeat-x|repeat-y|no-repeat|space|round)$/i.test(part)) || 'repeat',
+        color: parts.find(part =>
+          /^(#|rgba?\(|hsla?\(|var\()/i.test(part) ||
+          (/^[a-z]+$/i.test(part) && !BACKGROUND_KEYWORDS.has(part.toLowerCase()))
+        )
+      };
+    });
     
+    // Only the final layer may carry the color
+    const finalLayer = layers[layers.length - 1];
     return {
-      width: parts.find(p => p.includes('px') || p.includes('em')) || '1px',
-      style: parts.find(p => ['solid', 'dashed', 'dotted', 'none'].includes(p)) || 'solid',
-      color: parts.find(p => p.includes('#') || p.includes('rgb') || p.includes('hsl')) || '#000000'
+      color: finalLayer?.color || 'transparent',
+      image: layers.map(layer => layer.image).join(', ') || 'none',
+      position: layers.map(layer => layer.position).join(', ') || '0% 0%',
+      size: layers.map(layer => layer.size).join(', ') || 'auto',
+      repeat: layers.map(layer => layer.repeat).join(', ') || 'repeat'
     };
   }
   
@@ -303,12 +692,19 @@ export class FigmaCompatibleCSSEngine {
    */
   private resolveComputedValues(
     styles: Record<string, string>, 
-    parentStyles?: ComputedStyle
+    parentStyles?: ComputedStyle,
+    viewport: MediaEnvironment = { width: 1920, height: 1080 }
   ): ComputedStyle {
     const computed: ComputedStyle = {};
     
     Object.entries(styles).forEach(([property, value]) => {
-      computed[property] = this.resolveValue(property, value, styles, parentStyles);
+      // Custom properties keep their specified value for var() substitution,
+      // and content is evaluated as generated text
+      if (property.startsWith('--') || property === 'content') {
+        computed[property] = value;
+        return;
+      }
+      computed[property] = this.resolveValue(property, value, styles, parentStyles, viewport);
     });
     
     return computed;
@@ -318,43 +714,107 @@ export class FigmaCompatibleCSSEngine {
     property: string, 
     value: string, 
     currentStyles: Record<string, string>,
-    parentStyles?: ComputedStyle
+    parentStyles?: ComputedStyle,
+    viewport: MediaEnvironment = { width: 1920, height: 1080 }
   ): string | number {
     
     if (!value || value === 'inherit') {
       return parentStyles?.[property] || value;
     }
     
-    // Handle em units
-    if (value.endsWith('em')) {
+    // Handle calc(), min(), max() and clamp()
+    if (CalcEvaluator.containsMathFunction(value)) {
+      const context = this.resolverContext(property, currentStyles, parentStyles, viewport);
+      const substituted = CalcEvaluator.substituteMathFunctions(value, {
+        ...context,
+        percentageBasis: this.percentageBasis(property, context)
+      });
+      if (CalcEvaluator.containsMathFunction(substituted)) return value;
+      return this.resolveValue(property, substituted, currentStyles, parentStyles, viewport);
+    }
+    
+    // Relative font weights compute against the parent's weight (kept as
+    // text, so inheriting it doesn't read as a length)
+    if (property === 'font-weight' && (value === 'bolder' || value === 'lighter')) {
+      return String(ValueResolver.fontWeight(value, ValueResolver.fontWeight(parentStyles?.['font-weight'])));
+    }
+    
+    // Handle em units (keywords like `item` end in "em" too, and lists such
+    // as `10px 20px` are left to the property's own parser)
+    const isNumeric = /^[-+]?[\d.]\S*$/.test(value);
+    if (isNumeric && property === 'letter-spacing' && /\dem$/.test(value)) {
+      // Kept relative, it maps to PERCENT letter spacing
+      return value;
+    }
+    if (isNumeric && value.endsWith('em')) {
       const emValue = parseFloat(value);
-      const fontSize = this.resolveFontSize(currentStyles, parentStyles);
+      const fontSize = value.endsWith('rem')
+        ? viewport.rootFontSize || 16
+        : property === 'font-size'
+          ? parentStyles?.['font-size'] as number || 16
+          : this.resolveFontSize(currentStyles, parentStyles, viewport);
       return emValue * fontSize;
     }
     
     // Handle pixel values
-    if (value.endsWith('px')) {
+    if (isNumeric && value.endsWith('px')) {
       return parseFloat(value);
     }
     
-    // Handle percentage for width/height
-    if (value.endsWith('%')) {
-      const percentage = parseFloat(value) / 100;
-      
-      if (['width', 'max-width', 'min-width'].includes(property) && parentStyles?.width) {
-        const parentWidth = typeof parentStyles.width === 'number' 
-          ? parentStyles.width 
-          : parseFloat(parentStyles.width.toString());
-        return percentage * parentWidth;
+    // Border and outline width keywords
+    if (/^(border-(top|right|bottom|left)|outline)-width$/.test(property) && LINE_WIDTHS[value] !== undefined) {
+      return LINE_WIDTHS[value];
+    }
+    
+    // Handle percentage widths against the same basis as calc(). Widths of
+    // children of auto-width parents stay relative, so `100%` maps to FILL.
+    if (isNumeric && value.endsWith('%')) {
+      if (['width', 'max-width', 'min-width'].includes(property) && typeof parentStyles?.width === 'number') {
+        const basis = this.percentageBasis(property, this.resolverContext(property, currentStyles, parentStyles, viewport));
+        if (basis !== undefined) {
+          return parseFloat(value) / 100 * basis;
+        }
       }
     }
     
     return value;
   }
   
+  /**
+   * Context for resolving a property's relative values; the container width
+   * is NaN while the containing block's width is unknown
+   */
+  private resolverContext(
+    property: string,
+    currentStyles: Record<string, string>,
+    parentStyles: ComputedStyle | undefined,
+    viewport: MediaEnvironment
+  ): ResolverContext {
+    const parentFontSize = parentStyles?.['font-size'] as number || 16;
+    const parentHeight = parentStyles ? parentStyles.height : viewport.height;
+    return {
+      fontSize: property === 'font-size' ? parentFontSize : this.resolveFontSize(currentStyles, parentStyles, viewport),
+      parentFontSize,
+      rootFontSize: viewport.rootFontSize || 16,
+      viewportWidth: viewport.width,
+      viewportHeight: viewport.height,
+      containerWidth: this.containerWidth(parentStyles, viewport) ?? NaN,
+      containerHeight: typeof parentHeight === 'number' ? parentHeight : 0
+    };
+  }
+  
+  /**
+   * What a property's percentages refer to, if it is known
+   */
+  private percentageBasis(property: string, context: ResolverContext): number | undefined {
+    const basis = ValueResolver.percentageBasis(property, context);
+    return basis !== undefined && !isNaN(basis) ? basis : undefined;
+  }
+  
   private resolveFontSize(
     currentStyles: Record<string, string>,
-    parentStyles?: ComputedStyle
+    parentStyles?: ComputedStyle,
+    viewport: MediaEnvironment = { width: 1920, height: 1080 }
   ): number {
     const fontSize = currentStyles['font-size'];
     
@@ -366,6 +826,12 @@ export class FigmaCompatibleCSSEngine {
       return parseFloat(fontSize);
     }
     
+    // Relative sizes (font-size: 0.83em) scale the parent's size
+    if (/^[\d.]+r?em$/.test(fontSize)) {
+      const base = fontSize.endsWith('rem') ? viewport.rootFontSize || 16 : parentStyles?.['font-size'] as number || 16;
+      return parseFloat(fontSize) * base;
+    }
+    
     return 16; // Default
   }
 }
\ No newline at end of file
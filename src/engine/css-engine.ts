@@ -6,6 +6,12 @@
  * to produce computed styles that match what browsers calculate.
  */
 
+import { SelectorEngine } from './selector-engine';
+import { CascadeResolver, ShorthandExpander } from './cascade-resolver';
+import { ValueResolver } from './value-resolver';
+import { MediaQueryEvaluator, MediaEnvironment } from './media-query-evaluator';
+import { CalcEvaluator } from './calc-evaluator';
+
 export interface ComputedStyle {
   // All CSS properties as computed values (px, not em/%)
   [property: string]: string | number;
@@ -34,6 +40,9 @@ export interface CSSRule {
   selector: string;
   specificity: number;
   declarations: Record<string, string>;
+  importantProperties?: string[];
+  sourceOrder?: number;
+  media?: string[];
 }
 
 export class BrowserGradeCSSEngine {
@@ -202,7 +211,7 @@ export class BrowserGradeCSSEngine {
     element: Element, 
     cssRules: CSSRule[], 
     parentStyles?: ComputedStyle,
-    viewport = { width: 1920, height: 1080 }
+    viewport: MediaEnvironment = { width: 1920, height: 1080 }
   ): ComputedStyle {
     
     // 1. Start with browser defaults for this element type
@@ -215,24 +224,36 @@ export class BrowserGradeCSSEngine {
       styles = this.applyInheritance(styles, parentStyles);
     }
     
-    // 3. Apply matching CSS rules in cascade order
-    const applicableRules = this.getApplicableRules(element, cssRules);
-    applicableRules.forEach(rule => {
-      Object.entries(rule.declarations).forEach(([property, value]) => {
-        // Remove quotes from values if present
-        const cleanValue = this.cleanCSSValue(value);
-        styles[property] = cleanValue;
-      });
-    });
-    
-    // 4. Apply inline styles (highest priority)
-    const inlineStyle = element.getAttribute('style');
-    if (inlineStyle) {
-      const inlineDeclarations = this.parseInlineStyle(inlineStyle);
-      Object.entries(inlineDeclarations).forEach(([property, value]) => {
+    // 3. Cascade matching CSS rules and the inline style attribute as longhands
+    //    (origin and importance, then specificity, then source order)
+    const applicableRules = this.getApplicableRules(element, cssRules, viewport);
+    const inlineStyle = element.getAttribute('style') || undefined;
+    const cascaded = this.cascadeLonghands(applicableRules, inlineStyle, declaration => CascadeResolver.expandShorthands(declaration));
+    
+    // 4. Resolve custom properties (inherited from the parent) and var() references.
+    //    Declarations using var() are substituted before their shorthands expand,
+    //    and the cascade is repeated with the substituted values. Quotes are
+    //    removed from values; `unset` inherits inherited properties and resets
+    //    the others to their initial value.
+    const customProperties = ValueResolver.customPropertiesOf(cascaded, parentStyles);
+    const usesVars = [...applicableRules.map(rule => Object.values(rule.declarations).join(';')), inlineStyle || '']
+      .some(declarations => /var\(/i.test(declarations));
+    const substituted = usesVars
+      ? this.cascadeLonghands(applicableRules, inlineStyle, declaration => this.substituteAndExpand(declaration, customProperties))
+      : cascaded;
+    Object.assign(styles, customProperties);
+    
+    Object.entries(substituted).forEach(([property, value]) => {
+      if (property.startsWith('--')) return;
+      
+      if (value !== 'unset') {
         styles[property] = this.cleanCSSValue(value);
-      });
-    }
+      } else if (BrowserGradeCSSEngine.INHERITED_PROPERTIES.has(property) && parentStyles?.[property] !== undefined) {
+        styles[property] = String(parentStyles[property]);
+      } else {
+        delete styles[property];
+      }
+    });
     
     // 5. Resolve computed values (em → px, % → px, etc.)
     const computedStyles = this.resolveComputedValues(styles, parentStyles, viewport);
@@ -271,68 +292,68 @@ export class BrowserGradeCSSEngine {
     return inherited;
   }
   
+  /**
+   * Cascade rules and an inline style after expanding each declaration
+   * into longhands with `expand`
+   */
+  private cascadeLonghands(
+    rules: CSSRule[],
+    inlineStyle: string | undefined,
+    expand: ShorthandExpander
+  ): Record<string, string> {
+    return CascadeResolver.resolveStyles(
+      rules.map(rule => CascadeResolver.expandRuleShorthands(rule, expand)),
+      inlineStyle,
+      expand
+    );
+  }
+  
+  /**
+   * Longhands of one declaration with its var() references substituted
+   */
+  private substituteAndExpand(
+    declaration: Record<string, string>,
+    customProperties: Record<string, string>
+  ): Record<string, string> {
+    const [property, value] = Object.entries(declaration)[0];
+    if (property.startsWith('--') || !/var\(/i.test(value)) {
+      return CascadeResolver.expandShorthands(declaration);
+    }
+    
+    const substituted = ValueResolver.substituteVars(value, name => name in customProperties ? customProperties[name] : null);
+    if (substituted === null) {
+      // Invalid at computed-value time: the declaration still wins the cascade
+      console.warn(`⚠️ Could not resolve ${property}: ${value}`);
+      const unset: Record<string, string> = {};
+      Object.keys(CascadeResolver.expandShorthands(declaration)).forEach(longhand => unset[longhand] = 'unset');
+      return unset;
+    }
+    return CascadeResolver.expandShorthands({ [property]: substituted });
+  }
+  
   /**
    * Find all CSS rules that apply to an element
+   * Rules inside @media blocks only apply when their queries match the viewport
    */
-  private getApplicableRules(element: Element, cssRules: CSSRule[]): CSSRule[] {
+  private getApplicableRules(element: Element, cssRules: CSSRule[], viewport: MediaEnvironment): CSSRule[] {
     const applicable: CSSRule[] = [];
     
     cssRules.forEach(rule => {
+      if (!MediaQueryEvaluator.matchesAll(rule.media, viewport)) return;
       if (this.selectorMatches(element, rule.selector)) {
         applicable.push(rule);
       }
     });
     
-    // Sort by specificity (lowest to highest so later rules override)
-    return applicable.sort((a, b) => a.specificity - b.specificity);
+    // Kept in source order; the cascade ranks them
+    return applicable;
   }
   
   /**
    * Check if a CSS selector matches an element
    */
   private selectorMatches(element: Element, selector: string): boolean {
-    // Clean selector
-    const cleanSelector = selector.trim();
-    
-    // Handle basic selectors
-    if (cleanSelector.startsWith('.')) {
-      // Class selector
-      const className = cleanSelector.substring(1);
-      const elementClasses = element.className.split(/\s+/);
-      return elementClasses.includes(className);
-    } else if (cleanSelector.startsWith('#')) {
-      // ID selector
-      const id = cleanSelector.substring(1);
-      return element.id === id;
-    } else if (cleanSelector.includes(' ')) {
-      // Descendant selector (simplified)
-      const parts = cleanSelector.split(/\s+/);
-      const lastPart = parts[parts.length - 1];
-      return this.selectorMatches(element, lastPart);
-    } else {
-      // Type selector
-      return element.tagName.toLowerCase() === cleanSelector.toLowerCase();
-    }
-  }
-  
-  /**
-   * Parse inline style attribute
-   */
-  private parseInlineStyle(styleStr: string): Record<string, string> {
-    const declarations: Record<string, string> = {};
-    
-    styleStr.split(';').forEach(decl => {
-      const colonIndex = decl.indexOf(':');
-      if (colonIndex > 0) {
-        const property = decl.substring(0, colonIndex).trim();
-        const value = decl.substring(colonIndex + 1).trim();
-        if (property && value) {
-          declarations[property] = value;
-        }
-      }
-    });
-    
-    return declarations;
+    return SelectorEngine.matches(selector, element);
   }
   
   /**
@@ -357,7 +378,7 @@ export class BrowserGradeCSSEngine {
   private resolveComputedValues(
     styles: Record<string, string>, 
     parentStyles?: ComputedStyle,
-    viewport = { width: 1920, height: 1080 }
+    viewport: MediaEnvironment = { width: 1920, height: 1080 }
   ): ComputedStyle {
     const computed: ComputedStyle = {};
     const fontSize = this.resolveFontSize(styles['font-size'], parentStyles);
@@ -369,6 +390,12 @@ export class BrowserGradeCSSEngine {
     Object.entries(styles).forEach(([property, value]) => {
       if (property === 'font-size') return; // Already resolved
       
+      // Custom properties keep their specified value for var() substitution
+      if (property.startsWith('--')) {
+        computed[property] = value;
+        return;
+      }
+      
       computed[property] = this.resolveValue(
         property, 
         value, 
@@ -440,9 +467,9 @@ export class BrowserGradeCSSEngine {
       return parentStyles[property];
     }
     
-    // Handle calc() expressions
-    if (value.includes('calc(')) {
-      return this.resolveCalc(value, fontSize, parentStyles, viewport);
+    // Handle calc(), min(), max() and clamp() expressions
+    if (CalcEvaluator.containsMathFunction(value)) {
+      return this.resolveCalc(property, value, fontSize, parentStyles, viewport);
     }
     
     // Handle units
@@ -500,74 +527,76 @@ export class BrowserGradeCSSEngine {
     viewport = { width: 1920, height: 1080 }
   ): number | string {
     const percentage = parseFloat(value) / 100;
+    const basis = this.percentageBasis(property, parentStyles, viewport);
+    
+    if (basis !== undefined) {
+      return percentage * basis;
+    }
+    
+    // If parent height is auto, percentage height doesn't apply
+    if (property === 'height' || property.includes('top') || property.includes('bottom')) {
+      return 'auto';
+    }
     
+    return value;
+  }
+  
+  /**
+   * The length a percentage of this property refers to, if it has one
+   */
+  private percentageBasis(
+    property: string,
+    parentStyles?: ComputedStyle,
+    viewport = { width: 1920, height: 1080 }
+  ): number | undefined {
     // Width percentages are relative to parent's width
     if (property === 'width' || property.includes('left') || property.includes('right')) {
-      const parentWidth = parentStyles?.width as number || viewport.width;
-      return percentage * parentWidth;
+      return parentStyles?.width as number || viewport.width;
     }
     
     // Height percentages need explicit parent height
     if (property === 'height' || property.includes('top') || property.includes('bottom')) {
       const parentHeight = parentStyles?.height;
-      if (typeof parentHeight === 'number') {
-        return percentage * parentHeight;
-      }
-      // If parent height is auto, percentage height doesn't apply
-      return 'auto';
+      return typeof parentHeight === 'number' ? parentHeight : undefined;
     }
     
     // Padding/margin percentages are relative to parent's width
     if (property.includes('padding') || property.includes('margin')) {
-      const parentWidth = parentStyles?.width as number || viewport.width;
-      return percentage * parentWidth;
+      return parentStyles?.width as number || viewport.width;
     }
     
     // Font-size percentage is relative to parent font-size
     if (property === 'font-size') {
-      const parentFontSize = parentStyles?.['font-size'] as number || 16;
-      return percentage * parentFontSize;
+      return parentStyles?.['font-size'] as number || 16;
     }
     
-    return value;
+    return undefined;
   }
   
   /**
-   * Simple calc() expression resolver
+   * Resolve calc()/min()/max()/clamp() with the property's percentage basis.
+   * Expressions that can't be evaluated fall back to the initial value.
    */
   private resolveCalc(
-    calcStr: string,
+    property: string,
+    value: string,
     fontSize: number,
     parentStyles?: ComputedStyle,
     viewport = { width: 1920, height: 1080 }
-  ): number {
-    // Extract expression from calc()
-    const match = calcStr.match(/calc\((.*)\)/);
-    if (!match) return 0;
-    
-    let expression = match[1];
-    
-    // Replace units with computed values
-    expression = expression.replace(/(\d+(?:\.\d+)?)(px|em|rem|%|vw|vh)/g, (match, num, unit) => {
-      const value = parseFloat(num);
-      switch (unit) {
-        case 'px': return String(value);
-        case 'em': return String(value * fontSize);
-        case 'rem': return String(value * 16);
-        case '%': return String((value / 100) * (parentStyles?.width as number || viewport.width));
-        case 'vw': return String((value / 100) * viewport.width);
-        case 'vh': return String((value / 100) * viewport.height);
-        default: return String(value);
-      }
+  ): string | number {
+    const substituted = CalcEvaluator.substituteMathFunctions(value, {
+      fontSize,
+      rootFontSize: 16,
+      viewportWidth: viewport.width,
+      viewportHeight: viewport.height,
+      percentageBasis: this.percentageBasis(property, parentStyles, viewport)
     });
     
-    // Safely evaluate the expression
-    try {
-      // This is a simplified calc evaluator - in production, use a proper expression parser
-      return Function('"use strict"; return (' + expression + ')')();
-    } catch {
-      return 0;
+    if (CalcEvaluator.containsMathFunction(substituted)) {
+      return this.getInitialValue(property);
     }
+    
+    return this.resolveValue(property, substituted, fontSize, parentStyles, viewport);
   }
   
   /**
@@ -684,23 +713,6 @@ export class BrowserGradeCSSEngine {
    * Calculate specificity of a CSS selector
    */
   public static calculateSpecificity(selector: string): number {
-    let specificity = 0;
-    
-    // Count IDs (weight: 100)
-    const idMatches = selector.match(/#[\w-]+/g);
-    if (idMatches) specificity += idMatches.length * 100;
-    
-    // Count classes and attributes (weight: 10)
-    const classMatches = selector.match(/\.[\w-]+/g);
-    if (classMatches) specificity += classMatches.length * 10;
-    
-    const attrMatches = selector.match(/\[[^\]]+\]/g);
-    if (attrMatches) specificity += attrMatches.length * 10;
-    
-    // Count type selectors (weight: 1)
-    const typeMatches = selector.match(/^[a-zA-Z]+|[\s>+~][a-zA-Z]+/g);
-    if (typeMatches) specificity += typeMatches.length;
-    
-    return specificity;
+    return SelectorEngine.calculateSpecificity(selector);
   }
 }
\ No newline at end of file
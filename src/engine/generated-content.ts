@@ -0,0 +1,243 @@
+/**
+ * Generated Content
+ *
+ * Evaluates the `content` property of ::before/::after (strings, attr(),
+ * counter()/counters() and quotes) and keeps CSS counters. Counters are
+ * scoped like CSS 2.1 counters: `counter-reset` creates an instance that is
+ * visible to the element, its descendants and its following siblings, and
+ * elements must be visited in document order for increments to add up.
+ */
+
+import { ComputedStyle } from './css-engine-figma';
+import { ValueResolver } from './value-resolver';
+
+interface CounterInstance {
+  value: number;
+}
+
+/** Counter name → instances in scope, innermost last */
+type CounterScope = Map<string, CounterInstance[]>;
+
+const QUOTES = { open: '“', close: '”' };
+
+export class GeneratedContent {
+  private scopes = new WeakMap<object, CounterScope>();
+
+  /**
+   * Apply an element's counter-reset, counter-set and counter-increment.
+   * Call in document order, before evaluating its pseudo-elements' content.
+   */
+  applyCounters(element: any, computedStyle: ComputedStyle): void {
+    const scope = this.inheritedScope(element);
+
+    this.parseCounterList(computedStyle['counter-reset'], 0).forEach(([name, value]) => {
+      scope.set(name, [...(scope.get(name) || []), { value }]);
+    });
+    this.parseCounterList(computedStyle['counter-set'], 0).forEach(([name, value]) => {
+      this.innermost(scope, name).value = value;
+    });
+    this.parseCounterList(computedStyle['counter-increment'], 1).forEach(([name, value]) => {
+      this.innermost(scope, name).value += value;
+    });
+
+    this.scopes.set(element, scope);
+  }
+
+  /**
+   * Text generated by a pseudo-element's `content`, or null when it
+   * generates no box (`none`/`normal` or no content at all)
+   */
+  evaluate(element: any, pseudoStyle: ComputedStyle): string | null {
+    const content = String(pseudoStyle.content ?? '').trim();
+    if (!content || content === 'none' || content === 'normal') return null;
+
+    // Pseudo-elements may count too (e.g. li::before { counter-increment: item })
+    const scope = this.scopes.get(element) || this.inheritedScope(element);
+    this.parseCounterList(pseudoStyle['counter-increment'], 1).forEach(([name, value]) => {
+      this.innermost(scope, name).value += value;
+    });
+    this.scopes.set(element, scope);
+
+    // Alternative text after a slash (content: "★" / "star") isn't rendered
+    const parts = this.tokenize(content);
+    const slash = parts.indexOf('/');
+    return (slash === -1 ? parts : parts.slice(0, slash))
+      .map(part => this.evaluatePart(part, element, scope))
+      .join('');
+  }
+
+  /**
+   * Counter scope in effect just before an element: its previous sibling's
+   * (sibling resets stay in scope), else its parent's
+   */
+  private inheritedScope(element: any): CounterScope {
+    const parent = element.parent || null;
+    const siblings: any[] = parent?.children || [];
+    const index = siblings.indexOf(element);
+
+    for (let i = index - 1; i >= 0; i--) {
+      const previous = this.scopes.get(siblings[i]);
+      if (previous) return new Map(previous);
+    }
+
+    const inherited = parent ? this.scopes.get(parent) : undefined;
+    return new Map(inherited || []);
+  }
+
+  private innermost(scope: CounterScope, name: string): CounterInstance {
+    const instances = scope.get(name);
+    if (instances && instances.length > 0) return instances[instances.length - 1];
+
+    // Using a counter that was never reset creates it
+    const instance = { value: 0 };
+    scope.set(name, [instance]);
+    return instance;
+  }
+
+  /**
+   * `name [integer]` pairs of counter-reset/-set/-increment
+   */
+  private parseCounterList(value: string | number | undefined, defaultValue: number): Array<[string, number]> {
+    const text = String(value ?? '').trim();
+    if (!text || text === 'none') return [];
+
+    const parts = text.split(/\s+/);
+    const pairs: Array<[string, number]> = [];
+    for (let i = 0; i < parts.length; i++) {
+      const next = parts[i + 1];
+      if (next !== undefined && /^[+-]?\d+$/.test(next)) {
+        pairs.push([parts[i], parseInt(next, 10)]);
+        i++;
+      } else {
+        pairs.push([parts[i], defaultValue]);
+      }
+    }
+    return pairs;
+  }
+
+  /**
+   * Split content into strings, functions and keywords
+   */
+  private tokenize(content: string): string[] {
+    const parts: string[] = [];
+    let i = 0;
+
+    while (i < content.length) {
+      const char = content[i];
+      if (/\s/.test(char)) {
+        i++;
+      } else if (char === '"' || char === "'") {
+        let end = i + 1;
+        while (end < content.length && content[end] !== char) {
+          if (content[end] === '\\') end++;
+          end++;
+        }
+        parts.push(content.slice(i, end + 1));
+        i = end + 1;
+      } else {
+        let end = i;
+        let depth = 0;
+        while (end < content.length && (depth > 0 || !/\s/.test(content[end]))) {
+          if (content[end] === '(') depth++;
+          if (content[end] === ')') depth--;
+          end++;
+        }
+        parts.push(content.slice(i, end));
+        i = end;
+      }
+    }
+
+    return parts;
+  }
+
+  private evaluatePart(part: string, element: any, scope: CounterScope): string {
+    if (part.startsWith('"') || part.startsWith("'")) {
+      return this.unescape(part.slice(1, part.endsWith(part[0]) && part.length > 1 ? -1 : undefined));
+    }
+
+    const fn = part.match(/^([a-z-]+)\(([\s\S]*)\)$/i);
+    if (fn) {
+      const args = ValueResolver.splitTopLevel(fn[2], ',');
+      switch (fn[1].toLowerCase()) {
+        case 'attr': {
+          const name = (args[0] || '').split(/\s+/)[0];
+          const value = element.attributes?.[name] ?? element.getAttribute?.(name);
+          return value ?? (args[1] ? this.evaluatePart(args[1], element, scope) : '');
+        }
+        case 'counter': {
+          const instances = scope.get(args[0]);
+          const value = instances && instances.length > 0 ? instances[instances.length - 1].value : 0;
+          return this.formatCounter(value, args[1]);
+        }
+        case 'counters': {
+          const instances = scope.get(args[0]) || [];
+          const separator = args[1] ? this.evaluatePart(args[1], element, scope) : '';
+          const values = instances.length > 0 ? instances.map(instance => instance.value) : [0];
+          return values.map(value => this.formatCounter(value, args[2])).join(separator);
+        }
+        default:
+          // url() images and unknown functions produce no text
+          return '';
+      }
+    }
+
+    switch (part.toLowerCase()) {
+      case 'open-quote': return QUOTES.open;
+      case 'close-quote': return QUOTES.close;
+      default: return '';
+    }
+  }
+
+  /**
+   * CSS string escapes: `\2022 ` (hex code point) and `\"`
+   */
+  private unescape(value: string): string {
+    return value.replace(/\\([0-9a-f]{1,6})\s?|\\([\s\S])/gi, (_, hex: string, char: string) => {
+      if (hex) return String.fromCodePoint(parseInt(hex, 16));
+      return char === '\n' ? '' : char;
+    });
+  }
+
+  private formatCounter(value: number, style = 'decimal'): string {
+    switch (style.trim().toLowerCase()) {
+      case 'none': return '';
+      case 'disc': return '•';
+      case 'circle': return '◦';
+      case 'square': return '▪';
+      case 'decimal-leading-zero': return (value < 0 ? '-' : '') + String(Math.abs(value)).padStart(2, '0');
+      case 'lower-alpha':
+      case 'lower-latin': return this.alphabetic(value).toLowerCase();
+      case 'upper-alpha':
+      case 'upper-latin': return this.alphabetic(value);
+      case 'lower-roman': return this.roman(value).toLowerCase();
+      case 'upper-roman': return this.roman(value);
+      default: return String(value);
+    }
+  }
+
+  private alphabetic(value: number): string {
+    if (value < 1) return String(value);
+    let result = '';
+    for (let n = value; n > 0; n = Math.floor((n - 1) / 26)) {
+      result = String.fromCharCode(65 + (n - 1) % 26) + result;
+    }
+    return result;
+  }
+
+  private roman(value: number): string {
+    if (value < 1 || value > 3999) return String(value);
+    const numerals: Array<[number, string]> = [
+      [1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'],
+      [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I']
+    ];
+    let result = '';
+    let remaining = value;
+    numerals.forEach(([amount, numeral]) => {
+      while (remaining >= amount) {
+        result += numeral;
+        remaining -= amount;
+      }
+    });
+    return result;
+  }
+}
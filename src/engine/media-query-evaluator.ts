@@ -0,0 +1,415 @@
+/**
+ * Media Query Evaluator
+ *
+ * Evaluates `@media` query lists (Media Queries Level 4 syntax, including
+ * range context such as `(400px <= width < 800px)`) against a fixed
+ * conversion environment instead of a live browser window.
+ */
+
+import { CSSToken, CSSTokenizer } from '../parsers/css-syntax-parser';
+
+export interface MediaEnvironment {
+  width: number;
+  height: number;
+  colorScheme?: 'light' | 'dark';
+  reducedMotion?: boolean;
+  mediaType?: 'screen' | 'print';
+  /** Font size `em`/`rem` resolve against in media queries (default 16) */
+  rootFontSize?: number;
+}
+
+/** Three-valued logic: `null` is "unknown" and counts as false at the top level */
+type Match = boolean | null;
+
+type FeatureValue = number | string;
+
+const RANGE_FEATURES = new Set(['width', 'height', 'aspect-ratio', 'resolution', 'color', 'monochrome', 'color-index']);
+
+const MEDIA_TYPES = new Set(['all', 'screen', 'print', 'speech']);
+
+export class MediaQueryEvaluator {
+  private static cache = new Map<string, boolean>();
+
+  /**
+   * Evaluate a comma-separated media query list. An empty list matches.
+   */
+  static matches(queryList: string, env: MediaEnvironment): boolean {
+    const key = [queryList, env.width, env.height, env.colorScheme, env.reducedMotion, env.mediaType, env.rootFontSize].join('|');
+    const cached = this.cache.get(key);
+    if (cached !== undefined) return cached;
+
+    const tokens = new CSSTokenizer(queryList).tokenize()
+      .filter(token => token.type !== 'whitespace' && token.type !== 'EOF');
+
+    const result = tokens.length === 0 || this.splitOnCommas(tokens).some(query => {
+      try {
+        return new MediaQueryParser(query, env).evaluateQuery() === true;
+      } catch (error) {
+        // Malformed queries evaluate to `not all`
+        return false;
+      }
+    });
+
+    this.cache.set(key, result);
+    return result;
+  }
+
+  /**
+   * True when every query list matches; used for rules nested in several @media blocks
+   */
+  static matchesAll(queryLists: string[] | undefined, env: MediaEnvironment): boolean {
+    return !queryLists || queryLists.every(queryList => this.matches(queryList, env));
+  }
+
+  private static splitOnCommas(tokens: CSSToken[]): CSSToken[][] {
+    const queries: CSSToken[][] = [[]];
+    let depth = 0;
+
+    tokens.forEach(token => {
+      if (token.type === '(' || token.type === 'function') depth++;
+      if (token.type === ')') depth--;
+      if (token.type === 'comma' && depth === 0) {
+        queries.push([]);
+      } else {
+        queries[queries.length - 1].push(token);
+      }
+    });
+
+    return queries;
+  }
+}
+
+/**
+ * Recursive-descent parser over the tokens of a single media query.
+ * Evaluates while parsing; throws on syntax errors.
+ */
+class MediaQueryParser {
+  private index = 0;
+
+  constructor(private readonly tokens: CSSToken[], private readonly env: MediaEnvironment) {}
+
+  evaluateQuery(): Match {
+    const first = this.peek();
+    if (!first) throw new Error('Empty media query');
+
+    if (first.type === 'ident') {
+      const keyword = first.value.toLowerCase();
+      const hasModifier = keyword === 'not' || keyword === 'only';
+      const typeToken = hasModifier ? this.tokens[this.index + 1] : first;
+
+      if (typeToken && typeToken.type === 'ident' && typeToken.value.toLowerCase() !== 'not') {
+        if (hasModifier) this.index++;
+        this.index++;
+        let result: Match = this.matchesMediaType(typeToken.value.toLowerCase());
+
+        if (this.peekKeyword('and')) {
+          this.index++;
+          result = this.and(result, this.parseConditionWithoutOr());
+        }
+        this.expectEnd();
+        return keyword === 'not' ? this.not(result) : result;
+      }
+    }
+
+    const result = this.parseCondition();
+    this.expectEnd();
+    return result;
+  }
+
+  private matchesMediaType(type: string): Match {
+    if (!MEDIA_TYPES.has(type)) return false;
+    if (type === 'all') return true;
+    return type === (this.env.mediaType || 'screen');
+  }
+
+  private parseCondition(): Match {
+    if (this.peekKeyword('not')) {
+      this.index++;
+      return this.not(this.parseInParens());
+    }
+
+    let result = this.parseInParens();
+    if (this.peekKeyword('and')) {
+      while (this.peekKeyword('and')) {
+        this.index++;
+        result = this.and(result, this.parseInParens());
+      }
+    } else if (this.peekKeyword('or')) {
+      while (this.peekKeyword('or')) {
+        this.index++;
+        result = this.or(result, this.parseInParens());
+      }
+    }
+    return result;
+  }
+
+  private parseConditionWithoutOr(): Match {
+    if (this.peekKeyword('not')) {
+      this.index++;
+      return this.not(this.parseInParens());
+    }
+
+    let result = this.parseInParens();
+    while (this.peekKeyword('and')) {
+      this.index++;
+      result = this.and(result, this.parseInParens());
+    }
+    return result;
+  }
+
+  private parseInParens(): Match {
+    const open = this.next();
+    if (!open || open.type !== '(') throw new Error('Expected (');
+
+    // Nested condition: `((a) or (b))` / `(not (a))`
+    const inner = this.peek();
+    if (inner && (inner.type === '(' || (inner.type === 'ident' && inner.value.toLowerCase() === 'not' && this.tokens[this.index + 1]?.type === '('))) {
+      const result = this.parseCondition();
+      this.expect(')');
+      return result;
+    }
+
+    // Media feature: collect tokens to the matching parenthesis
+    const feature: CSSToken[] = [];
+    let depth = 0;
+    for (;;) {
+      const token = this.next();
+      if (!token) throw new Error('Unclosed media feature');
+      if (token.type === '(' || token.type === 'function') depth++;
+      if (token.type === ')') {
+        if (depth === 0) break;
+        depth--;
+      }
+      feature.push(token);
+    }
+
+    return this.evaluateFeature(feature);
+  }
+
+  private evaluateFeature(tokens: CSSToken[]): Match {
+    if (tokens.length === 0) throw new Error('Empty media feature');
+
+    // Boolean context: `(color)`, `(hover)`
+    if (tokens.length === 1 && tokens[0].type === 'ident') {
+      const value = this.featureValue(tokens[0].value.toLowerCase());
+      if (value === undefined) return null;
+      return typeof value === 'number' ? value !== 0 : value !== 'none' && value !== 'no-preference';
+    }
+
+    // Plain context: `(min-width: 768px)`
+    if (tokens[0].type === 'ident' && tokens[1]?.type === 'colon') {
+      return this.evaluatePlain(tokens[0].value.toLowerCase(), tokens.slice(2));
+    }
+
+    return this.evaluateRange(tokens);
+  }
+
+  private evaluatePlain(name: string, valueTokens: CSSToken[]): Match {
+    let prefix = '';
+    let feature = name;
+    if (name.startsWith('min-') || name.startsWith('max-')) {
+      prefix = name.slice(0, 3);
+      feature = name.slice(4);
+      if (!RANGE_FEATURES.has(feature)) return null;
+    }
+
+    const actual = this.featureValue(feature);
+    if (actual === undefined) return null;
+
+    if (typeof actual === 'string') {
+      if (valueTokens.length !== 1 || valueTokens[0].type !== 'ident') return null;
+      return actual === valueTokens[0].value.toLowerCase();
+    }
+
+    const expected = this.numericValue(feature, valueTokens);
+    if (expected === null) return null;
+    if (prefix === 'min') return actual >= expected;
+    if (prefix === 'max') return actual <= expected;
+    return Math.abs(actual - expected) < 1e-6;
+  }
+
+  /**
+   * Range context: `(width >= 600px)`, `(600px <= width)`, `(400px < width <= 700px)`
+   */
+  private evaluateRange(tokens: CSSToken[]): Match {
+    const parts: CSSToken[][] = [[]];
+    const operators: string[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (token.type === 'delim' && (token.value === '<' || token.value === '>' || token.value === '=')) {
+        let operator = token.value;
+        const next = tokens[i + 1];
+        if (operator !== '=' && next && next.type === 'delim' && next.value === '=') {
+          operator += '=';
+          i++;
+        }
+        operators.push(operator);
+        parts.push([]);
+      } else {
+        parts[parts.length - 1].push(token);
+      }
+    }
+
+    const isName = (part: CSSToken[]) => part.length === 1 && part[0].type === 'ident';
+
+    if (parts.length === 2) {
+      const [left, right] = parts;
+      if (isName(left)) return this.compareFeature(left[0].value.toLowerCase(), operators[0], right, false);
+      if (isName(right)) return this.compareFeature(right[0].value.toLowerCase(), operators[0], left, true);
+      throw new Error('Range feature without a name');
+    }
+
+    if (parts.length === 3 && isName(parts[1])) {
+      const name = parts[1][0].value.toLowerCase();
+      const sameDirection = operators[0][0] === operators[1][0] && operators[0][0] !== '=';
+      if (!sameDirection) throw new Error('Mismatched range operators');
+      return this.and(
+        this.compareFeature(name, operators[0], parts[0], true),
+        this.compareFeature(name, operators[1], parts[2], false)
+      );
+    }
+
+    throw new Error('Invalid media feature');
+  }
+
+  /**
+   * Compare a range feature with a value. `valueFirst` flips the operator
+   * for `value op name` forms.
+   */
+  private compareFeature(name: string, operator: string, valueTokens: CSSToken[], valueFirst: boolean): Match {
+    if (!RANGE_FEATURES.has(name)) return null;
+    const actual = this.featureValue(name);
+    const expected = this.numericValue(name, valueTokens);
+    if (typeof actual !== 'number' || expected === null) return null;
+
+    const [left, right] = valueFirst ? [expected, actual] : [actual, expected];
+    switch (operator) {
+      case '<': return left < right;
+      case '<=': return left <= right;
+      case '>': return left > right;
+      case '>=': return left >= right;
+      case '=': return Math.abs(left - right) < 1e-6;
+      default: return null;
+    }
+  }
+
+  /**
+   * Value of a media feature in the conversion environment; `undefined` if unknown
+   */
+  private featureValue(feature: string): FeatureValue | undefined {
+    const env = this.env;
+    switch (feature) {
+      case 'width': return env.width;
+      case 'height': return env.height;
+      case 'aspect-ratio': return env.height > 0 ? env.width / env.height : 0;
+      case 'orientation': return env.height >= env.width ? 'portrait' : 'landscape';
+      case 'prefers-color-scheme': return env.colorScheme || 'light';
+      case 'prefers-reduced-motion': return env.reducedMotion ? 'reduce' : 'no-preference';
+      case 'prefers-contrast': return 'no-preference';
+      case 'forced-colors': return 'none';
+      case 'resolution': return 1;
+      case 'color': return 8;
+      case 'monochrome': return 0;
+      case 'color-index': return 0;
+      case 'hover':
+      case 'any-hover': return 'hover';
+      case 'pointer':
+      case 'any-pointer': return 'fine';
+      case 'scripting': return 'enabled';
+      case 'display-mode': return 'browser';
+      case 'update': return 'fast';
+      default: return undefined;
+    }
+  }
+
+  /**
+   * Parse a media feature value into the unit the feature is compared in
+   * (px for lengths, dppx for resolution, a plain ratio for aspect-ratio)
+   */
+  private numericValue(feature: string, tokens: CSSToken[]): number | null {
+    if (feature === 'aspect-ratio') {
+      if (tokens.length === 1 && tokens[0].type === 'number') return tokens[0].numeric!;
+      if (tokens.length === 3 && tokens[0].type === 'number' && tokens[1].type === 'delim' && tokens[1].value === '/' && tokens[2].type === 'number') {
+        return tokens[2].numeric! === 0 ? null : tokens[0].numeric! / tokens[2].numeric!;
+      }
+      return null;
+    }
+
+    if (tokens.length !== 1) return null;
+    const token = tokens[0];
+
+    if (feature === 'width' || feature === 'height') {
+      if (token.type === 'number' && token.numeric === 0) return 0;
+      if (token.type !== 'dimension') return null;
+      return this.lengthToPx(token.numeric!, token.unit!.toLowerCase());
+    }
+
+    if (feature === 'resolution') {
+      if (token.type !== 'dimension') return null;
+      switch (token.unit!.toLowerCase()) {
+        case 'dppx':
+        case 'x': return token.numeric!;
+        case 'dpi': return token.numeric! / 96;
+        case 'dpcm': return token.numeric! * 2.54 / 96;
+        default: return null;
+      }
+    }
+
+    return token.type === 'number' ? token.numeric! : null;
+  }
+
+  private lengthToPx(value: number, unit: string): number | null {
+    const fontSize = this.env.rootFontSize || 16;
+    switch (unit) {
+      case 'px': return value;
+      case 'em':
+      case 'rem': return value * fontSize;
+      case 'in': return value * 96;
+      case 'cm': return value * 96 / 2.54;
+      case 'mm': return value * 96 / 25.4;
+      case 'q': return value * 96 / 101.6;
+      case 'pt': return value * 96 / 72;
+      case 'pc': return value * 16;
+      default: return null;
+    }
+  }
+
+  private and(a: Match, b: Match): Match {
+    if (a === false || b === false) return false;
+    if (a === null || b === null) return null;
+    return true;
+  }
+
+  private or(a: Match, b: Match): Match {
+    if (a === true || b === true) return true;
+    if (a === null || b === null) return null;
+    return false;
+  }
+
+  private not(a: Match): Match {
+    return a === null ? null : !a;
+  }
+
+  private peek(): CSSToken | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): CSSToken | undefined {
+    return this.tokens[this.index++];
+  }
+
+  private peekKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return !!token && token.type === 'ident' && token.value.toLowerCase() === keyword;
+  }
+
+  private expect(type: string): void {
+    const token = this.next();
+    if (!token || token.type !== type) throw new Error(`Expected ${type}`);
+  }
+
+  private expectEnd(): void {
+    if (this.index < this.tokens.length) throw new Error('Unexpected tokens after media query');
+  }
+}
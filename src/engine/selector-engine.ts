@@ -0,0 +1,1061 @@
+/**
+ * CSS Selector Engine
+ *
+ * Parses and matches CSS selectors according to the Selectors Level 4
+ * specification. Every parser and CSS engine in the plugin shares this
+ * matcher so that all converters agree on which rules apply to an element.
+ *
+ * Elements are matched structurally: anything with a tagName plus the usual
+ * id/class/attribute/parent/children fields works, which covers the
+ * SimpleHTMLParser, DOMParser and legacy converter element shapes.
+ */
+
+export type Combinator = ' ' | '>' | '+' | '~';
+
+/**
+ * Specificity as [ids, classes/attributes/pseudo-classes, types/pseudo-elements]
+ */
+export type Specificity = [number, number, number];
+
+export interface AttributeSelector {
+  name: string;
+  operator?: '=' | '~=' | '|=' | '^=' | '$=' | '*=';
+  value?: string;
+  caseInsensitive?: boolean;
+  /** The `s` flag: compare case-sensitively even for HTML's case-insensitive attributes */
+  caseSensitive?: boolean;
+}
+
+export interface PseudoClassSelector {
+  name: string;
+  argument?: string;
+  selectors?: ComplexSelector[];
+  nth?: { a: number; b: number };
+}
+
+export interface CompoundSelector {
+  tagName?: string;
+  ids: string[];
+  classes: string[];
+  attributes: AttributeSelector[];
+  pseudoClasses: PseudoClassSelector[];
+  pseudoElement?: string;
+}
+
+export interface ComplexSelector {
+  text: string;
+  compounds: CompoundSelector[];
+  // combinators[i] joins compounds[i] and compounds[i + 1]
+  combinators: Combinator[];
+  // Only set for relative selectors inside :has()
+  leadingCombinator?: Combinator;
+  specificity: Specificity;
+}
+
+/**
+ * Element shape understood by the matcher
+ */
+export interface MatchableElement {
+  type?: string;
+  tagName?: string;
+  id?: string;
+  className?: string;
+  classList?: string[] | { contains(name: string): boolean };
+  attributes?: any;
+  children?: any;
+  textContent?: string | null;
+  content?: string;
+  parent?: MatchableElement;
+  parentElement?: MatchableElement | null;
+  getAttribute?: (name: string) => string | null;
+  // Set on generated ::before/::after boxes, which selectors never see
+  pseudoElement?: string;
+}
+
+export type InteractiveState = 'hover' | 'focus' | 'active' | 'disabled';
+
+export interface ForcedState {
+  element: MatchableElement;
+  state: InteractiveState;
+}
+
+export interface MatchContext {
+  // Pseudo-element the caller is computing styles for (e.g. 'before')
+  pseudoElement?: string;
+  // Interactive state to treat as on for one element (state variants)
+  forcedState?: ForcedState;
+}
+
+export class SelectorParseError extends Error {
+  constructor(message: string, public selector: string) {
+    super(`${message} in selector "${selector}"`);
+    this.name = 'SelectorParseError';
+  }
+}
+
+// Pseudo-elements that may also be written with a single colon
+const LEGACY_PSEUDO_ELEMENTS = new Set(['before', 'after', 'first-line', 'first-letter']);
+
+// Pseudo-classes that take a selector list argument
+const SELECTOR_LIST_PSEUDOS = new Set(['not', 'is', 'where', 'matches', '-webkit-any', '-moz-any', 'has']);
+
+// Pseudo-classes that take an An+B argument
+const NTH_PSEUDOS = new Set(['nth-child', 'nth-last-child', 'nth-of-type', 'nth-last-of-type']);
+
+const FORM_ELEMENTS = new Set(['button', 'input', 'select', 'textarea', 'optgroup', 'option', 'fieldset']);
+
+// HTML attributes whose values selectors compare ASCII case-insensitively
+const CASE_INSENSITIVE_ATTRIBUTES = new Set([
+  'accept', 'accept-charset', 'align', 'alink', 'axis', 'bgcolor', 'charset', 'checked', 'clear',
+  'codetype', 'color', 'compact', 'declare', 'defer', 'dir', 'direction', 'disabled', 'enctype',
+  'face', 'frame', 'hreflang', 'http-equiv', 'lang', 'language', 'link', 'media', 'method',
+  'multiple', 'nohref', 'noresize', 'noshade', 'nowrap', 'readonly', 'rel', 'rev', 'rules',
+  'scope', 'scrolling', 'selected', 'shape', 'target', 'text', 'type', 'valign', 'valuetype', 'vlink'
+]);
+
+export class SelectorEngine {
+  private static cache = new Map<string, ComplexSelector[]>();
+
+  /**
+   * Parse a selector list into complex selectors.
+   * Invalid selectors yield an empty list, matching nothing (as browsers
+   * drop the whole rule).
+   */
+  static parse(selectorText: string): ComplexSelector[] {
+    const key = selectorText.trim();
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+
+    let parsed: ComplexSelector[] = [];
+    try {
+      parsed = new SelectorParser(key).parseSelectorList(false);
+    } catch (error) {
+      console.warn('⚠️ Ignoring invalid selector:', error instanceof Error ? error.message : error);
+    }
+
+    this.cache.set(key, parsed);
+    return parsed;
+  }
+
+  /**
+   * Split a selector list on top-level commas
+   */
+  static splitSelectorList(selectorText: string): string[] {
+    return this.parse(selectorText).map(selector => selector.text);
+  }
+
+  /**
+   * Check if any selector in the list matches the element
+   */
+  static matches(selectorText: string, element: MatchableElement, context: MatchContext = {}): boolean {
+    return this.matchSpecificity(selectorText, element, context) !== null;
+  }
+
+  /**
+   * Specificity of the most specific selector in the list that matches
+   * the element, or null when none match
+   */
+  static matchSpecificity(
+    selectorText: string,
+    element: MatchableElement,
+    context: MatchContext = {}
+  ): Specificity | null {
+    if (!element || isTextNode(element)) return null;
+
+    let best: Specificity | null = null;
+    for (const selector of this.parse(selectorText)) {
+      if (!matchesComplex(element, selector, context)) continue;
+      if (!best || compareSpecificity(selector.specificity, best) > 0) {
+        best = selector.specificity;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Specificity of a selector (the highest one for selector lists)
+   */
+  static specificity(selectorText: string): Specificity {
+    let best: Specificity = [0, 0, 0];
+    for (const selector of this.parse(selectorText)) {
+      if (compareSpecificity(selector.specificity, best) > 0) {
+        best = selector.specificity;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Specificity encoded as a single number for easy comparison
+   */
+  static calculateSpecificity(selectorText: string): number {
+    return this.specificityToNumber(this.specificity(selectorText));
+  }
+
+  static specificityToNumber(specificity: Specificity): number {
+    return specificity[0] * 1000000 + specificity[1] * 1000 + specificity[2];
+  }
+
+  static compareSpecificity(a: Specificity, b: Specificity): number {
+    return compareSpecificity(a, b);
+  }
+
+  /**
+   * Pseudo-element targeted by a single complex selector, if any
+   */
+  static getPseudoElement(selector: ComplexSelector): string | undefined {
+    return selector.compounds[selector.compounds.length - 1]?.pseudoElement;
+  }
+}
+
+// ========================================
+// SELECTOR PARSER
+// ========================================
+
+class SelectorParser {
+  private pos = 0;
+
+  constructor(private text: string) {}
+
+  parseSelectorList(relative: boolean): ComplexSelector[] {
+    const selectors: ComplexSelector[] = [];
+
+    for (const part of splitTopLevel(this.text, ',')) {
+      const trimmed = part.trim();
+      if (!trimmed) {
+        throw new SelectorParseError('Empty selector', this.text);
+      }
+      selectors.push(new SelectorParser(trimmed).parseComplex(relative));
+    }
+
+    return selectors;
+  }
+
+  private parseComplex(relative: boolean): ComplexSelector {
+    const compounds: CompoundSelector[] = [];
+    const combinators: Combinator[] = [];
+    let leadingCombinator: Combinator | undefined;
+    let pending: Combinator | null = null;
+
+    this.skipWhitespace();
+
+    while (this.pos < this.text.length) {
+      const sawWhitespace = this.skipWhitespace();
+      if (this.pos >= this.text.length) break;
+
+      const char = this.text[this.pos];
+      if (char === '>' || char === '+' || char === '~') {
+        if (pending) {
+          throw new SelectorParseError('Consecutive combinators', this.text);
+        }
+        this.pos++;
+        pending = char;
+        continue;
+      }
+
+      if (sawWhitespace && compounds.length > 0 && !pending) {
+        pending = ' ';
+      }
+
+      if (pending) {
+        if (compounds.length === 0) {
+          if (!relative) throw new SelectorParseError('Selector starts with a combinator', this.text);
+          leadingCombinator = pending;
+        } else {
+          combinators.push(pending);
+        }
+        pending = null;
+      }
+
+      compounds.push(this.parseCompound());
+    }
+
+    if (pending) {
+      throw new SelectorParseError('Selector ends with a combinator', this.text);
+    }
+    if (compounds.length === 0) {
+      throw new SelectorParseError('Empty selector', this.text);
+    }
+
+    // Pseudo-elements are only valid on the last compound
+    for (let i = 0; i < compounds.length - 1; i++) {
+      if (compounds[i].pseudoElement) {
+        throw new SelectorParseError('Pseudo-element must be last', this.text);
+      }
+    }
+
+    if (relative && !leadingCombinator) {
+      leadingCombinator = ' ';
+    }
+
+    const selector: ComplexSelector = {
+      text: this.text,
+      compounds,
+      combinators,
+      leadingCombinator,
+      specificity: [0, 0, 0]
+    };
+    selector.specificity = computeSpecificity(selector);
+    return selector;
+  }
+
+  private parseCompound(): CompoundSelector {
+    const compound: CompoundSelector = {
+      ids: [],
+      classes: [],
+      attributes: [],
+      pseudoClasses: []
+    };
+    const start = this.pos;
+
+    // Type or universal selector (optionally namespaced)
+    if (this.text[this.pos] === '*' || this.isIdentStart(this.pos)) {
+      let name = this.text[this.pos] === '*' ? (this.pos++, '*') : this.readIdent();
+      if (this.text[this.pos] === '|' && this.text[this.pos + 1] !== '=') {
+        this.pos++;
+        name = this.text[this.pos] === '*' ? (this.pos++, '*') : this.readIdent();
+      }
+      compound.tagName = name.toLowerCase();
+    }
+
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos];
+
+      if (char === '#') {
+        this.pos++;
+        compound.ids.push(this.readIdent());
+      } else if (char === '.') {
+        this.pos++;
+        compound.classes.push(this.readIdent());
+      } else if (char === '[') {
+        compound.attributes.push(this.readAttribute());
+      } else if (char === ':') {
+        if (compound.pseudoElement) {
+          // Only user-action pseudo-classes may follow a pseudo-element
+          const next = this.readPseudo();
+          if (next.isElement) throw new SelectorParseError('Multiple pseudo-elements', this.text);
+          compound.pseudoClasses.push(next.pseudo);
+          continue;
+        }
+        const { pseudo, isElement } = this.readPseudo();
+        if (isElement) {
+          compound.pseudoElement = pseudo.name;
+        } else {
+          compound.pseudoClasses.push(pseudo);
+        }
+      } else {
+        break;
+      }
+    }
+
+    if (this.pos === start) {
+      throw new SelectorParseError(`Unexpected "${this.text[this.pos]}"`, this.text);
+    }
+
+    return compound;
+  }
+
+  private readAttribute(): AttributeSelector {
+    const close = findClosing(this.text, this.pos, '[', ']');
+    if (close === -1) throw new SelectorParseError('Unclosed attribute selector', this.text);
+
+    const inner = new SelectorParser(this.text.substring(this.pos + 1, close));
+    this.pos = close + 1;
+
+    inner.skipWhitespace();
+    let name = inner.readIdent();
+    if (inner.text[inner.pos] === '|' && inner.text[inner.pos + 1] !== '=') {
+      inner.pos++;
+      name = inner.readIdent();
+    }
+    inner.skipWhitespace();
+
+    const attribute: AttributeSelector = { name: name.toLowerCase() };
+    if (inner.pos >= inner.text.length) return attribute;
+
+    const operatorMatch = inner.text.substring(inner.pos).match(/^([~|^$*]?=)/);
+    if (!operatorMatch) throw new SelectorParseError('Invalid attribute operator', this.text);
+    attribute.operator = operatorMatch[1] as AttributeSelector['operator'];
+    inner.pos += operatorMatch[1].length;
+    inner.skipWhitespace();
+
+    const quote = inner.text[inner.pos];
+    if (quote === '"' || quote === "'") {
+      attribute.value = inner.readString();
+    } else {
+      attribute.value = inner.readIdent();
+    }
+    inner.skipWhitespace();
+
+    const flag = inner.text.substring(inner.pos).trim().toLowerCase();
+    if (flag === 'i') {
+      attribute.caseInsensitive = true;
+    } else if (flag === 's') {
+      attribute.caseSensitive = true;
+    } else if (flag) {
+      throw new SelectorParseError('Invalid attribute selector', this.text);
+    }
+
+    return attribute;
+  }
+
+  private readPseudo(): { pseudo: PseudoClassSelector; isElement: boolean } {
+    this.pos++; // Skip ':'
+    let isElement = false;
+    if (this.text[this.pos] === ':') {
+      isElement = true;
+      this.pos++;
+    }
+
+    const name = this.readIdent().toLowerCase();
+    if (!isElement && LEGACY_PSEUDO_ELEMENTS.has(name)) {
+      isElement = true;
+    }
+
+    const pseudo: PseudoClassSelector = { name };
+
+    if (this.text[this.pos] === '(') {
+      const close = findClosing(this.text, this.pos, '(', ')');
+      if (close === -1) throw new SelectorParseError('Unclosed pseudo-class argument', this.text);
+      pseudo.argument = this.text.substring(this.pos + 1, close).trim();
+      this.pos = close + 1;
+    }
+
+    if (!isElement) {
+      this.parsePseudoArgument(pseudo);
+    }
+
+    return { pseudo, isElement };
+  }
+
+  private parsePseudoArgument(pseudo: PseudoClassSelector): void {
+    if (SELECTOR_LIST_PSEUDOS.has(pseudo.name)) {
+      if (pseudo.argument === undefined) {
+        throw new SelectorParseError(`:${pseudo.name}() requires an argument`, this.text);
+      }
+      const relative = pseudo.name === 'has';
+      // :is() and :where() use forgiving selector lists
+      if (pseudo.name === 'is' || pseudo.name === 'where') {
+        pseudo.selectors = [];
+        for (const part of splitTopLevel(pseudo.argument, ',')) {
+          try {
+            pseudo.selectors.push(...new SelectorParser(part.trim()).parseSelectorList(false));
+          } catch {
+            // Forgiving: invalid entries are dropped
+          }
+        }
+      } else {
+        pseudo.selectors = new SelectorParser(pseudo.argument).parseSelectorList(relative);
+      }
+    } else if (NTH_PSEUDOS.has(pseudo.name)) {
+      if (pseudo.argument === undefined) {
+        throw new SelectorParseError(`:${pseudo.name}() requires an argument`, this.text);
+      }
+      const ofMatch = pseudo.argument.match(/^(.*?)\s+of\s+(.+)$/i);
+      const nthText = ofMatch ? ofMatch[1] : pseudo.argument;
+      const nth = parseNth(nthText);
+      if (!nth) throw new SelectorParseError(`Invalid An+B "${nthText}"`, this.text);
+      pseudo.nth = nth;
+      if (ofMatch && (pseudo.name === 'nth-child' || pseudo.name === 'nth-last-child')) {
+        pseudo.selectors = new SelectorParser(ofMatch[2]).parseSelectorList(false);
+      }
+    }
+  }
+
+  private readIdent(): string {
+    let result = '';
+
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos];
+
+      if (char === '\\') {
+        const escape = this.text.substring(this.pos + 1).match(/^([0-9a-fA-F]{1,6})\s?/);
+        if (escape) {
+          const codePoint = parseInt(escape[1], 16);
+          result += codePoint === 0 || codePoint > 0x10ffff ? '�' : String.fromCodePoint(codePoint);
+          this.pos += 1 + escape[0].length;
+        } else if (this.pos + 1 < this.text.length) {
+          result += this.text[this.pos + 1];
+          this.pos += 2;
+        } else {
+          this.pos++;
+        }
+      } else if (/[a-zA-Z0-9_-]/.test(char) || char.charCodeAt(0) >= 0x80) {
+        result += char;
+        this.pos++;
+      } else {
+        break;
+      }
+    }
+
+    if (!result) {
+      throw new SelectorParseError('Expected identifier', this.text);
+    }
+    return result;
+  }
+
+  private readString(): string {
+    const quote = this.text[this.pos];
+    let result = '';
+    this.pos++;
+
+    while (this.pos < this.text.length && this.text[this.pos] !== quote) {
+      if (this.text[this.pos] === '\\' && this.pos + 1 < this.text.length) {
+        result += this.text[this.pos + 1];
+        this.pos += 2;
+      } else {
+        result += this.text[this.pos];
+        this.pos++;
+      }
+    }
+
+    if (this.text[this.pos] !== quote) {
+      throw new SelectorParseError('Unclosed string', this.text);
+    }
+    this.pos++;
+    return result;
+  }
+
+  private isIdentStart(pos: number): boolean {
+    const char = this.text[pos];
+    if (!char) return false;
+    if (/[a-zA-Z_\\]/.test(char) || char.charCodeAt(0) >= 0x80) return true;
+    return char === '-' && /[a-zA-Z_\-\\]/.test(this.text[pos + 1] || '');
+  }
+
+  private skipWhitespace(): boolean {
+    const start = this.pos;
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) {
+      this.pos++;
+    }
+    return this.pos > start;
+  }
+}
+
+/**
+ * Split on a delimiter outside of brackets, parentheses and strings
+ */
+function splitTopLevel(text: string, delimiter: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote = '';
+  let current = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === '\\' && i + 1 < text.length) {
+      current += char + text[i + 1];
+      i++;
+      continue;
+    }
+
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(' || char === '[') {
+      depth++;
+    } else if (char === ')' || char === ']') {
+      depth--;
+    } else if (char === delimiter && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+
+    current += char;
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Find the index of the bracket closing the one at `start`
+ */
+function findClosing(text: string, start: number, open: string, close: string): number {
+  let depth = 0;
+  let quote = '';
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === '\\') {
+      i++;
+      continue;
+    }
+
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === open) {
+      depth++;
+    } else if (char === close) {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Parse An+B microsyntax (odd, even, 3, 2n+1, -n+3, ...)
+ */
+function parseNth(text: string): { a: number; b: number } | null {
+  const value = text.replace(/\s+/g, '').toLowerCase();
+
+  if (value === 'odd') return { a: 2, b: 1 };
+  if (value === 'even') return { a: 2, b: 0 };
+
+  if (/^[+-]?\d+$/.test(value)) {
+    return { a: 0, b: parseInt(value, 10) };
+  }
+
+  const match = value.match(/^([+-]?\d*)n([+-]\d+)?$/);
+  if (!match) return null;
+
+  let a: number;
+  if (match[1] === '' || match[1] === '+') a = 1;
+  else if (match[1] === '-') a = -1;
+  else a = parseInt(match[1], 10);
+
+  return { a, b: match[2] ? parseInt(match[2], 10) : 0 };
+}
+
+// ========================================
+// SPECIFICITY
+// ========================================
+
+function compareSpecificity(a: Specificity, b: Specificity): number {
+  for (let i = 0; i < 3; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+}
+
+function maxSpecificity(selectors: ComplexSelector[] | undefined): Specificity {
+  let best: Specificity = [0, 0, 0];
+  (selectors || []).forEach(selector => {
+    if (compareSpecificity(selector.specificity, best) > 0) {
+      best = selector.specificity;
+    }
+  });
+  return best;
+}
+
+function computeSpecificity(selector: ComplexSelector): Specificity {
+  const result: Specificity = [0, 0, 0];
+
+  const add = (value: Specificity) => {
+    result[0] += value[0];
+    result[1] += value[1];
+    result[2] += value[2];
+  };
+
+  selector.compounds.forEach(compound => {
+    result[0] += compound.ids.length;
+    result[1] += compound.classes.length + compound.attributes.length;
+
+    if (compound.tagName && compound.tagName !== '*') result[2]++;
+    if (compound.pseudoElement) result[2]++;
+
+    compound.pseudoClasses.forEach(pseudo => {
+      switch (pseudo.name) {
+        case 'where':
+          break;
+        case 'is':
+        case 'matches':
+        case '-webkit-any':
+        case '-moz-any':
+        case 'not':
+        case 'has':
+          add(maxSpecificity(pseudo.selectors));
+          break;
+        case 'nth-child':
+        case 'nth-last-child':
+          result[1]++;
+          add(maxSpecificity(pseudo.selectors));
+          break;
+        default:
+          result[1]++;
+      }
+    });
+  });
+
+  return result;
+}
+
+// ========================================
+// MATCHING
+// ========================================
+
+function isTextNode(element: MatchableElement): boolean {
+  return element.type === 'text' || !element.tagName;
+}
+
+function getParent(element: MatchableElement): MatchableElement | null {
+  return element.parent || element.parentElement || null;
+}
+
+function getElementChildren(element: MatchableElement): MatchableElement[] {
+  const children = element.children ? Array.from(element.children as ArrayLike<MatchableElement>) : [];
+  return children.filter(child => child && !isTextNode(child) && !child.pseudoElement);
+}
+
+function getSiblings(element: MatchableElement): MatchableElement[] {
+  const parent = getParent(element);
+  return parent ? getElementChildren(parent) : [element];
+}
+
+function getTagName(element: MatchableElement): string {
+  return (element.tagName || '').toLowerCase();
+}
+
+function getAttribute(element: MatchableElement, name: string): string | null {
+  if (typeof element.getAttribute === 'function') {
+    return element.getAttribute(name);
+  }
+
+  const attributes = element.attributes || {};
+  if (attributes[name] !== undefined) return String(attributes[name]);
+
+  // HTML attribute names are case-insensitive
+  for (const key of Object.keys(attributes)) {
+    if (key.toLowerCase() === name) return String(attributes[key]);
+  }
+
+  if (name === 'id' && element.id) return element.id;
+  if (name === 'class' && element.className) return element.className;
+  return null;
+}
+
+function getClasses(element: MatchableElement): string[] {
+  if (Array.isArray(element.classList)) return element.classList;
+  const className = typeof element.className === 'string' ? element.className : getAttribute(element, 'class');
+  return className ? className.split(/\s+/).filter(c => c) : [];
+}
+
+function getId(element: MatchableElement): string {
+  return element.id || getAttribute(element, 'id') || '';
+}
+
+function matchesComplex(
+  element: MatchableElement,
+  selector: ComplexSelector,
+  context: MatchContext,
+  anchor?: MatchableElement
+): boolean {
+  const last = selector.compounds.length - 1;
+  const pseudoElement = selector.compounds[last].pseudoElement;
+
+  // A selector for ::before only applies when computing ::before styles
+  if ((pseudoElement || undefined) !== (context.pseudoElement || undefined)) {
+    return false;
+  }
+
+  return matchFrom(element, selector, last, context, anchor);
+}
+
+/**
+ * Match compounds right-to-left with backtracking over ancestors/siblings
+ */
+function matchFrom(
+  element: MatchableElement,
+  selector: ComplexSelector,
+  index: number,
+  context: MatchContext,
+  anchor?: MatchableElement
+): boolean {
+  if (!matchesCompound(element, selector.compounds[index], context)) {
+    return false;
+  }
+
+  if (index === 0) {
+    return anchor ? isRelatedTo(element, anchor, selector.leadingCombinator || ' ') : true;
+  }
+
+  const combinator = selector.combinators[index - 1];
+
+  switch (combinator) {
+    case '>': {
+      const parent = getParent(element);
+      return !!parent && matchFrom(parent, selector, index - 1, context, anchor);
+    }
+    case ' ': {
+      let ancestor = getParent(element);
+      while (ancestor) {
+        if (matchFrom(ancestor, selector, index - 1, context, anchor)) return true;
+        ancestor = getParent(ancestor);
+      }
+      return false;
+    }
+    case '+': {
+      const siblings = getSiblings(element);
+      const position = siblings.indexOf(element);
+      return position > 0 && matchFrom(siblings[position - 1], selector, index - 1, context, anchor);
+    }
+    case '~': {
+      const siblings = getSiblings(element);
+      const position = siblings.indexOf(element);
+      for (let i = position - 1; i >= 0; i--) {
+        if (matchFrom(siblings[i], selector, index - 1, context, anchor)) return true;
+      }
+      return false;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Check how the leftmost compound of a relative selector relates to
+ * the :has() subject
+ */
+function isRelatedTo(element: MatchableElement, anchor: MatchableElement, combinator: Combinator): boolean {
+  switch (combinator) {
+    case '>':
+      return getParent(element) === anchor;
+    case ' ': {
+      let ancestor = getParent(element);
+      while (ancestor) {
+        if (ancestor === anchor) return true;
+        ancestor = getParent(ancestor);
+      }
+      return false;
+    }
+    case '+': {
+      const siblings = getSiblings(element);
+      const position = siblings.indexOf(element);
+      return position > 0 && siblings[position - 1] === anchor;
+    }
+    case '~': {
+      const siblings = getSiblings(element);
+      const position = siblings.indexOf(element);
+      const anchorPosition = siblings.indexOf(anchor);
+      return anchorPosition !== -1 && anchorPosition < position;
+    }
+  }
+  return false;
+}
+
+function matchesCompound(element: MatchableElement, compound: CompoundSelector, context: MatchContext): boolean {
+  if (isTextNode(element)) return false;
+
+  if (compound.tagName && compound.tagName !== '*' && getTagName(element) !== compound.tagName) {
+    return false;
+  }
+
+  if (compound.ids.length > 0) {
+    const id = getId(element);
+    if (!compound.ids.every(expected => expected === id)) return false;
+  }
+
+  if (compound.classes.length > 0) {
+    const classes = getClasses(element);
+    if (!compound.classes.every(name => classes.includes(name))) return false;
+  }
+
+  if (!compound.attributes.every(attribute => matchesAttribute(element, attribute, context))) {
+    return false;
+  }
+
+  return compound.pseudoClasses.every(pseudo => matchesPseudoClass(element, pseudo, context));
+}
+
+function matchesAttribute(element: MatchableElement, attribute: AttributeSelector, context: MatchContext): boolean {
+  // A forced :disabled state also sets the attribute, for [disabled] selectors
+  const actual = attribute.name === 'disabled' && isForced(element, 'disabled', context)
+    ? getAttribute(element, 'disabled') ?? ''
+    : getAttribute(element, attribute.name);
+  if (actual === null || actual === undefined) return false;
+  if (!attribute.operator) return true;
+
+  let value = attribute.value || '';
+  let subject = actual;
+  const caseInsensitive = attribute.caseInsensitive ||
+    (!attribute.caseSensitive && CASE_INSENSITIVE_ATTRIBUTES.has(attribute.name));
+  if (caseInsensitive) {
+    value = value.toLowerCase();
+    subject = subject.toLowerCase();
+  }
+
+  switch (attribute.operator) {
+    case '=':
+      return subject === value;
+    case '~=':
+      return value !== '' && !/\s/.test(value) && subject.split(/\s+/).includes(value);
+    case '|=':
+      return subject === value || subject.startsWith(value + '-');
+    case '^=':
+      return value !== '' && subject.startsWith(value);
+    case '$=':
+      return value !== '' && subject.endsWith(value);
+    case '*=':
+      return value !== '' && subject.includes(value);
+  }
+  return false;
+}
+
+function matchesNth(position: number, nth: { a: number; b: number }): boolean {
+  const { a, b } = nth;
+  if (a === 0) return position === b;
+  const n = (position - b) / a;
+  return Number.isInteger(n) && n >= 0;
+}
+
+function matchesAny(element: MatchableElement, selectors: ComplexSelector[] | undefined, context: MatchContext): boolean {
+  // Nested selectors always describe elements, never pseudo-elements
+  const nestedContext = { ...context, pseudoElement: undefined };
+  return (selectors || []).some(selector => matchesComplex(element, selector, nestedContext));
+}
+
+function matchesHas(element: MatchableElement, selectors: ComplexSelector[] | undefined, context: MatchContext): boolean {
+  const nestedContext = { ...context, pseudoElement: undefined };
+
+  return (selectors || []).some(selector => {
+    const usesSiblings = selector.leadingCombinator === '+' || selector.leadingCombinator === '~' ||
+      selector.combinators.some(c => c === '+' || c === '~');
+
+    const candidates: MatchableElement[] = [];
+    const collectDescendants = (root: MatchableElement) => {
+      getElementChildren(root).forEach(child => {
+        candidates.push(child);
+        collectDescendants(child);
+      });
+    };
+
+    if (usesSiblings) {
+      const siblings = getSiblings(element);
+      siblings.slice(siblings.indexOf(element) + 1).forEach(sibling => {
+        candidates.push(sibling);
+        collectDescendants(sibling);
+      });
+    } else {
+      collectDescendants(element);
+    }
+
+    return candidates.some(candidate => matchesComplex(candidate, selector, nestedContext, element));
+  });
+}
+
+function matchesPseudoClass(element: MatchableElement, pseudo: PseudoClassSelector, context: MatchContext): boolean {
+  const tagName = getTagName(element);
+
+  switch (pseudo.name) {
+    case 'not':
+      return !matchesAny(element, pseudo.selectors, context);
+    case 'is':
+    case 'where':
+    case 'matches':
+    case '-webkit-any':
+    case '-moz-any':
+      return matchesAny(element, pseudo.selectors, context);
+    case 'has':
+      return matchesHas(element, pseudo.selectors, context);
+
+    case 'root':
+      return !getParent(element) || tagName === 'html';
+    case 'scope':
+      return !getParent(element);
+    case 'empty': {
+      const children = element.children ? Array.from(element.children as ArrayLike<MatchableElement>) : [];
+      const hasText = children.some(child => isTextNode(child) && (child.content || child.textContent || '') !== '');
+      return getElementChildren(element).length === 0 && !hasText && !element.textContent;
+    }
+
+    case 'first-child':
+      return getSiblings(element).indexOf(element) === 0;
+    case 'last-child': {
+      const siblings = getSiblings(element);
+      return siblings.indexOf(element) === siblings.length - 1;
+    }
+    case 'only-child':
+      return getSiblings(element).length === 1;
+    case 'nth-child':
+    case 'nth-last-child': {
+      let siblings = getSiblings(element);
+      if (pseudo.selectors) {
+        if (!matchesAny(element, pseudo.selectors, context)) return false;
+        siblings = siblings.filter(sibling => matchesAny(sibling, pseudo.selectors, context));
+      }
+      const index = siblings.indexOf(element);
+      const position = pseudo.name === 'nth-child' ? index + 1 : siblings.length - index;
+      return matchesNth(position, pseudo.nth!);
+    }
+
+    case 'first-of-type':
+    case 'last-of-type':
+    case 'only-of-type':
+    case 'nth-of-type':
+    case 'nth-last-of-type': {
+      const sameType = getSiblings(element).filter(sibling => getTagName(sibling) === tagName);
+      const index = sameType.indexOf(element);
+      if (pseudo.name === 'first-of-type') return index === 0;
+      if (pseudo.name === 'last-of-type') return index === sameType.length - 1;
+      if (pseudo.name === 'only-of-type') return sameType.length === 1;
+      const position = pseudo.name === 'nth-of-type' ? index + 1 : sameType.length - index;
+      return matchesNth(position, pseudo.nth!);
+    }
+
+    case 'link':
+    case 'any-link':
+      return (tagName === 'a' || tagName === 'area') && getAttribute(element, 'href') !== null;
+    case 'checked':
+      return getAttribute(element, 'checked') !== null || (tagName === 'option' && getAttribute(element, 'selected') !== null);
+    case 'disabled':
+      return FORM_ELEMENTS.has(tagName) &&
+        (getAttribute(element, 'disabled') !== null || isForced(element, 'disabled', context));
+    case 'enabled':
+      return FORM_ELEMENTS.has(tagName) &&
+        getAttribute(element, 'disabled') === null && !isForced(element, 'disabled', context);
+    case 'required':
+      return getAttribute(element, 'required') !== null;
+    case 'optional':
+      return ['input', 'select', 'textarea'].includes(tagName) && getAttribute(element, 'required') === null;
+    case 'read-only':
+      return !['input', 'textarea'].includes(tagName) || getAttribute(element, 'readonly') !== null;
+    case 'read-write':
+      return ['input', 'textarea'].includes(tagName) && getAttribute(element, 'readonly') === null;
+    case 'placeholder-shown':
+      return getAttribute(element, 'placeholder') !== null && !getAttribute(element, 'value');
+    case 'lang': {
+      const expected = (pseudo.argument || '').replace(/["']/g, '').toLowerCase();
+      let current: MatchableElement | null = element;
+      while (current) {
+        const lang = getAttribute(current, 'lang');
+        if (lang !== null) {
+          const value = lang.toLowerCase();
+          return value === expected || value.startsWith(expected + '-');
+        }
+        current = getParent(current);
+      }
+      return false;
+    }
+
+    case 'hover':
+    case 'active':
+      return isForced(element, pseudo.name as InteractiveState, context);
+    case 'focus':
+    case 'focus-visible':
+      return isForced(element, 'focus', context);
+    case 'focus-within': {
+      const forced = context.forcedState;
+      if (!forced || forced.state !== 'focus') return false;
+      for (let current: MatchableElement | null = forced.element; current; current = getParent(current)) {
+        if (current === element) return true;
+      }
+      return false;
+    }
+  }
+
+  // User-action states never apply to a static document unless forced,
+  // and unknown pseudo-classes never match
+  return false;
+}
+
+function isForced(element: MatchableElement, state: InteractiveState, context: MatchContext): boolean {
+  return context.forcedState?.element === element && context.forcedState.state === state;
+}
@@ -5,6 +5,8 @@
  * Handles units, keywords, and complex value types.
  */
 
+import { CalcContext, CalcEvaluator } from './calc-evaluator';
+
 export interface ResolverContext {
   fontSize: number;
   parentFontSize: number;
@@ -13,6 +15,8 @@ export interface ResolverContext {
   viewportHeight: number;
   containerWidth: number;
   containerHeight: number;
+  /** Computed custom properties in scope for the element (`--name` → value) */
+  customProperties?: Record<string, string>;
 }
 
 export class ValueResolver {
@@ -39,14 +43,14 @@ export class ValueResolver {
       return this.resolveKeyword(property, cleanValue, context);
     }
     
-    // Handle calc()
-    if (cleanValue.includes('calc(')) {
-      return this.resolveCalc(cleanValue, context);
+    // Handle var() custom properties first so calc() sees substituted values
+    if (/var\(/i.test(cleanValue)) {
+      return this.resolve(property, this.resolveVar(cleanValue, context), context);
     }
     
-    // Handle var() custom properties
-    if (cleanValue.includes('var(')) {
-      return this.resolveVar(cleanValue, context);
+    // Handle calc(), min(), max() and clamp()
+    if (CalcEvaluator.containsMathFunction(cleanValue)) {
+      return this.resolveCalc(cleanValue, property, context);
     }
     
     // Handle units
@@ -211,7 +215,26 @@ export class ValueResolver {
     context: ResolverContext
   ): number | string {
     
-    const factor = percentage / 100;
+    const basis = this.percentageBasis(property, context);
+    if (basis !== undefined) {
+      return percentage / 100 * basis;
+    }
+    
+    // Height percentages only work if container has explicit height
+    if (this.isHeightProperty(property)) {
+      return 'auto'; // Fallback to auto
+    }
+    
+    return percentage + '%'; // Return as-is for other properties
+  }
+  
+  /**
+   * The length a percentage of this property refers to, if it has one
+   */
+  static percentageBasis(
+    property: string,
+    context: ResolverContext
+  ): number | undefined {
     
     // Width percentages
     if (property === 'width' || 
@@ -219,101 +242,366 @@ export class ValueResolver {
         property === 'min-width' ||
         property === 'left' || 
         property === 'right') {
-      return factor * context.containerWidth;
+      return context.containerWidth;
     }
     
     // Height percentages
-    if (property === 'height' || 
-        property === 'max-height' || 
-        property === 'min-height' ||
-        property === 'top' || 
-        property === 'bottom') {
-      // Height percentages only work if container has explicit height
-      if (context.containerHeight > 0) {
-        return factor * context.containerHeight;
-      }
-      return 'auto'; // Fallback to auto
+    if (this.isHeightProperty(property)) {
+      return context.containerHeight > 0 ? context.containerHeight : undefined;
     }
     
     // Padding/margin percentages (always relative to width)
     if (property.includes('padding') || property.includes('margin')) {
-      return factor * context.containerWidth;
+      return context.containerWidth;
     }
     
     // Font-size percentage
     if (property === 'font-size') {
-      return factor * context.parentFontSize;
+      return context.parentFontSize;
     }
     
     // Line-height percentage
     if (property === 'line-height') {
-      return factor * context.fontSize;
+      return context.fontSize;
     }
     
-    return percentage + '%'; // Return as-is for other properties
+    return undefined;
+  }
+  
+  private static isHeightProperty(property: string): boolean {
+    return property === 'height' || 
+      property === 'max-height' || 
+      property === 'min-height' ||
+      property === 'top' || 
+      property === 'bottom';
   }
   
   /**
-   * Resolve calc() expressions
+   * Resolve calc(), min(), max() and clamp() expressions. Percentages use
+   * the property's basis; an expression that can't be evaluated makes the
+   * value invalid at computed-value time, so it behaves as `unset`.
    */
   private static resolveCalc(
-    calcStr: string,
+    value: string,
+    property: string,
     context: ResolverContext
-  ): number {
+  ): string | number {
     
-    // Extract expression from calc()
-    const match = calcStr.match(/calc\((.*)\)/);
-    if (!match) return 0;
+    const calcContext: CalcContext = {
+      fontSize: context.fontSize,
+      rootFontSize: context.rootFontSize,
+      viewportWidth: context.viewportWidth,
+      viewportHeight: context.viewportHeight,
+      percentageBasis: this.percentageBasis(property, context)
+    };
     
-    let expression = match[1].trim();
+    const substituted = CalcEvaluator.substituteMathFunctions(value, calcContext);
+    if (CalcEvaluator.containsMathFunction(substituted)) {
+      return 'unset';
+    }
     
-    // Replace CSS values with computed values
-    expression = expression.replace(
-      /(-?\d*\.?\d+)(px|em|rem|%|vw|vh|vmin|vmax)?/g,
-      (match, num, unit) => {
-        const value = parseFloat(num);
-        
-        if (!unit || unit === 'px') {
-          return String(value);
+    return this.resolveUnits(substituted, property, context);
+  }
+  
+  /**
+   * Resolve var() references against the context's custom properties.
+   * Unresolvable references make the value invalid at computed-value time,
+   * so it behaves as `unset`.
+   */
+  private static resolveVar(varStr: string, context: ResolverContext): string {
+    const scope = context.customProperties || {};
+    const substituted = this.substituteVars(varStr, name => name in scope ? scope[name] : null);
+    return substituted === null ? 'unset' : substituted;
+  }
+  
+  /**
+   * Replace every var() reference in a value. `lookup` returns the computed
+   * value of a custom property or null when it is missing or invalid; the
+   * fallback (which may itself contain var()) is used in that case.
+   * Returns null if a reference cannot be resolved.
+   */
+  static substituteVars(value: string, lookup: (name: string) => string | null): string | null {
+    let result = '';
+    let index = 0;
+    
+    while (index < value.length) {
+      const start = this.findVarReference(value, index);
+      if (start === -1) {
+        result += value.slice(index);
+        break;
+      }
+      
+      const end = this.findClosingParen(value, start + 4);
+      if (end === -1) return null;
+      
+      const args = value.slice(start + 4, end);
+      const comma = this.findTopLevelComma(args);
+      const name = (comma === -1 ? args : args.slice(0, comma)).trim();
+      const fallback = comma === -1 ? undefined : args.slice(comma + 1).trim();
+      
+      let replacement = name.startsWith('--') ? lookup(name) : null;
+      if (replacement === null && fallback !== undefined) {
+        replacement = this.substituteVars(fallback, lookup);
+      }
+      if (replacement === null) return null;
+      
+      result += value.slice(index, start) + replacement;
+      index = end + 1;
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Compute an element's custom properties. Declared `--*` values override
+   * the inherited ones and may reference each other; properties that take
+   * part in a reference cycle, or reference missing properties without a
+   * fallback, become invalid and are dropped (so var() falls back).
+   */
+  static computeCustomProperties(
+    declared: Record<string, string>,
+    inherited: Record<string, string> = {}
+  ): Record<string, string> {
+    const computed: Record<string, string> = { ...inherited };
+    const status = new Map<string, 'resolving' | 'resolved' | 'invalid'>();
+    const cyclic = new Set<string>();
+    const stack: string[] = [];
+    
+    const compute = (name: string): string | null => {
+      if (!(name in declared)) {
+        return name in computed ? computed[name] : null;
+      }
+      
+      const state = status.get(name);
+      if (state === 'resolved') return computed[name];
+      if (state === 'invalid') return null;
+      if (state === 'resolving') {
+        // Every property from the first occurrence onwards is in the cycle
+        stack.slice(stack.indexOf(name)).forEach(member => cyclic.add(member));
+        return null;
+      }
+      
+      const raw = declared[name].trim();
+      let value: string | null;
+      if (raw === 'inherit' || raw === 'unset') {
+        value = name in inherited ? inherited[name] : null;
+      } else if (raw === 'initial' || raw === '') {
+        value = null;
+      } else {
+        status.set(name, 'resolving');
+        stack.push(name);
+        value = this.substituteVars(raw, compute);
+        stack.pop();
+      }
+      
+      if (value === null || cyclic.has(name)) {
+        if (cyclic.has(name)) {
+          console.warn(`⚠️ Custom property ${name} is part of a var() cycle`);
         }
-        
-        const resolved = this.resolveUnits(
-          value + unit,
-          'width', // Default context
-          context
-        );
-        
-        return String(typeof resolved === 'number' ? resolved : 0);
+        status.set(name, 'invalid');
+        delete computed[name];
+        return null;
       }
-    );
-    
-    // Evaluate the expression safely
-    try {
-      // Create a safe evaluation function
-      const func = new Function('return ' + expression);
-      const result = func();
-      return isNaN(result) ? 0 : result;
-    } catch (e) {
-      console.warn('Failed to evaluate calc expression:', expression);
-      return 0;
+      
+      status.set(name, 'resolved');
+      computed[name] = value;
+      return value;
+    };
+    
+    Object.keys(declared).forEach(name => compute(name));
+    return computed;
+  }
+  
+  /**
+   * Every custom property in scope for an element: the cascaded `--*`
+   * declarations computed on top of the ones inherited from the parent
+   */
+  static customPropertiesOf(
+    cascaded: Record<string, string>,
+    parentStyles?: Record<string, string | number>
+  ): Record<string, string> {
+    const declaredCustom: Record<string, string> = {};
+    const inheritedCustom: Record<string, string> = {};
+    
+    Object.entries(cascaded).forEach(([property, value]) => {
+      if (property.startsWith('--')) declaredCustom[property] = value;
+    });
+    if (parentStyles) {
+      Object.entries(parentStyles).forEach(([property, value]) => {
+        if (property.startsWith('--')) inheritedCustom[property] = String(value);
+      });
     }
+    
+    return this.computeCustomProperties(declaredCustom, inheritedCustom);
   }
   
   /**
-   * Resolve CSS custom properties (var())
+   * Resolve custom properties and var() references in cascaded declarations.
+   * Returns every custom property in scope plus the other declarations with
+   * var() substituted; declarations that cannot be resolved are invalid at
+   * computed-value time and become `unset`.
    */
-  private static resolveVar(
-    varStr: string,
-    context: ResolverContext
-  ): string {
-    // For now, return the fallback value if provided
-    const match = varStr.match(/var\([^,]+,\s*([^)]+)\)/);
-    if (match) {
-      return match[1].trim();
+  static resolveCascadedValues(
+    cascaded: Record<string, string>,
+    parentStyles?: Record<string, string | number>
+  ): Record<string, string> {
+    const customProperties = this.customPropertiesOf(cascaded, parentStyles);
+    const resolved: Record<string, string> = { ...customProperties };
+    
+    Object.entries(cascaded).forEach(([property, value]) => {
+      if (property.startsWith('--')) return;
+      
+      if (!/var\(/i.test(value)) {
+        resolved[property] = value;
+        return;
+      }
+      
+      const substituted = this.substituteVars(value, name => name in customProperties ? customProperties[name] : null);
+      if (substituted !== null) {
+        resolved[property] = substituted;
+      } else {
+        console.warn(`⚠️ Could not resolve ${property}: ${value}`);
+        resolved[property] = 'unset';
+      }
+    });
+    
+    return resolved;
+  }
+  
+  /**
+   * Numeric `font-weight`. `bolder` and `lighter` are relative to the
+   * parent's weight, following the CSS Fonts table (bolder than 400 is
+   * 700, lighter than 700 is 400, and so on).
+   */
+  static fontWeight(value: string | number | undefined, parentWeight = 400): number {
+    const text = String(value ?? '').trim().toLowerCase();
+    switch (text) {
+      case '':
+      case 'normal': return 400;
+      case 'bold': return 700;
+      case 'bolder':
+        if (parentWeight < 350) return 400;
+        if (parentWeight < 550) return 700;
+        return Math.max(900, parentWeight);
+      case 'lighter':
+        if (parentWeight < 100) return parentWeight;
+        if (parentWeight < 550) return 100;
+        if (parentWeight < 750) return 400;
+        return 700;
+    }
+    const num = parseFloat(text);
+    return isNaN(num) ? 400 : Math.min(1000, Math.max(1, num));
+  }
+  
+  /**
+   * The custom property a value is exactly a reference to (`var(--name)` or
+   * `var(--name, fallback)`), or null when the value is anything else
+   */
+  static referencedCustomProperty(value: string): string | null {
+    const trimmed = value.trim();
+    if (this.findVarReference(trimmed, 0) !== 0) return null;
+    if (this.findClosingParen(trimmed, 4) !== trimmed.length - 1) return null;
+    
+    const match = trimmed.slice(4, -1).match(/^\s*(--[^\s,)]+)/);
+    return match ? match[1] : null;
+  }
+  
+  /**
+   * Find the next `var(` outside strings, starting at `from`
+   */
+  private static findVarReference(value: string, from: number): number {
+    let quote = '';
+    for (let i = from; i < value.length; i++) {
+      const char = value[i];
+      if (quote) {
+        if (char === '\\') i++;
+        else if (char === quote) quote = '';
+        continue;
+      }
+      if (char === '"' || char === "'") {
+        quote = char;
+        continue;
+      }
+      if (
+        (char === 'v' || char === 'V') &&
+        value.substr(i, 4).toLowerCase() === 'var(' &&
+        (i === 0 || !/[\w-]/.test(value[i - 1]))
+      ) {
+        return i;
+      }
+    }
+    return -1;
+  }
+  
+  /**
+   * Index of the parenthesis closing the group opened just before `from`
+   */
+  private static findClosingParen(value: string, from: number): number {
+    let depth = 0;
+    let quote = '';
+    for (let i = from; i < value.length; i++) {
+      const char = value[i];
+      if (quote) {
+        if (char === '\\') i++;
+        else if (char === quote) quote = '';
+        continue;
+      }
+      if (char === '"' || char === "'") quote = char;
+      else if (char === '(') depth++;
+      else if (char === ')') {
+        if (depth === 0) return i;
+        depth--;
+      }
+    }
+    return -1;
+  }
+  
+  private static findTopLevelComma(value: string): number {
+    let depth = 0;
+    let quote = '';
+    for (let i = 0; i < value.length; i++) {
+      const char = value[i];
+      if (quote) {
+        if (char === '\\') i++;
+        else if (char === quote) quote = '';
+        continue;
+      }
+      if (char === '"' || char === "'") quote = char;
+      else if (char === '(') depth++;
+      else if (char === ')') depth--;
+      else if (char === ',' && depth === 0) return i;
+    }
+    return -1;
+  }
+  
+  /**
+   * Split a value on commas (or whitespace, with ' ') outside parentheses
+   * and strings, e.g. background layers or the parts of a color stop
+   */
+  static splitTopLevel(value: string, separator: ',' | ' '): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let quote = '';
+    let start = 0;
+    
+    for (let i = 0; i < value.length; i++) {
+      const char = value[i];
+      if (quote) {
+        if (char === '\\') i++;
+        else if (char === quote) quote = '';
+        continue;
+      }
+      if (char === '"' || char === "'") quote = char;
+      else if (char === '(') depth++;
+      else if (char === ')') depth--;
+      else if (depth === 0 && (separator === ' ' ? /\s/.test(char) : char === separator)) {
+        parts.push(value.slice(start, i).trim());
+        start = i + 1;
+      }
     }
+    parts.push(value.slice(start).trim());
     
-    // No fallback - return a default
-    return 'initial';
+    return parts.filter(part => part.length > 0);
   }
   
   /**
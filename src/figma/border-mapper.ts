@@ -0,0 +1,280 @@
+/**
+ * Border Mapper
+ *
+ * Maps per-side borders, per-corner radii and outlines onto Figma. Figma has
+ * one stroke paint per node but individual stroke weights, so the sides that
+ * share the most common color become the node's INSIDE stroke and sides of
+ * any other color are drawn as edge rectangles inside the frame. Elliptical
+ * radii have no Figma equivalent and are approximated by the mean of their
+ * two radii. Outlines become an OUTSIDE stroke, or an outline layer when the
+ * node's stroke is taken or the outline is offset.
+ */
+
+import { ComputedStyle } from '../engine/css-engine-figma';
+import { ValueResolver } from '../engine/value-resolver';
+import { ColorParser, RGBA } from '../utils/color-parser-enhanced';
+
+export type BorderSideName = 'top' | 'right' | 'bottom' | 'left';
+
+export interface BorderSide {
+  width: number;
+  style: string;
+  color: RGBA;
+}
+
+interface Radii {
+  topLeft: number;
+  topRight: number;
+  bottomRight: number;
+  bottomLeft: number;
+}
+
+const SIDES: BorderSideName[] = ['top', 'right', 'bottom', 'left'];
+const SOLID_APPROXIMATIONS = new Set(['double', 'groove', 'ridge', 'inset', 'outset']);
+
+export class BorderMapper {
+
+  /**
+   * Used widths, styles and colors of the four sides. Sides with style
+   * none/hidden or a transparent color have width 0.
+   */
+  static sides(computedStyle: ComputedStyle): Record<BorderSideName, BorderSide> {
+    const sides = {} as Record<BorderSideName, BorderSide>;
+    SIDES.forEach(side => {
+      const style = String(computedStyle[`border-${side}-style`] || 'none').toLowerCase();
+      const color = this.color(computedStyle[`border-${side}-color`], computedStyle);
+      const width = style === 'none' || style === 'hidden' || color.a === 0
+        ? 0
+        : this.pixels(computedStyle[`border-${side}-width`]);
+      sides[side] = { width, style, color };
+    });
+    return sides;
+  }
+
+  /**
+   * Stroke the node with the borders of its most common color; sides of
+   * other colors are left to `addEdges`
+   */
+  static applyStrokes(node: FrameNode | RectangleNode, computedStyle: ComputedStyle): void {
+    const sides = this.sides(computedStyle);
+    const stroked = this.strokedSides(sides);
+    if (stroked.length === 0) return;
+    const primary = stroked[0];
+
+    node.strokes = [this.paint(sides[primary].color)];
+    node.strokeAlign = 'INSIDE';
+
+    const weights = SIDES.map(side => stroked.includes(side) ? sides[side].width : 0);
+    if (weights.every(weight => weight === weights[0])) {
+      node.strokeWeight = weights[0];
+    } else {
+      [node.strokeTopWeight, node.strokeRightWeight, node.strokeBottomWeight, node.strokeLeftWeight] = weights;
+    }
+
+    const dashPattern = this.dashPattern(sides[primary]);
+    if (dashPattern.length > 0) {
+      node.dashPattern = dashPattern;
+    }
+
+    console.log('✅ Applied border:', stroked.map(side => `${side} ${sides[side].width}px`).join(', '));
+  }
+
+  /**
+   * Corner radii against the node's current size. Percentages refer to the
+   * width (horizontal radius) and height (vertical radius), and radii that
+   * don't fit are scaled down together, as in CSS.
+   */
+  static applyCornerRadii(node: FrameNode | RectangleNode, computedStyle: ComputedStyle): void {
+    const radii = this.cornerRadii(computedStyle, { width: node.width, height: node.height });
+    const values = [radii.topLeft, radii.topRight, radii.bottomRight, radii.bottomLeft];
+    if (values.every(value => value === 0)) return;
+
+    if (values.every(value => value === values[0])) {
+      node.cornerRadius = values[0];
+    } else {
+      node.topLeftRadius = radii.topLeft;
+      node.topRightRadius = radii.topRight;
+      node.bottomRightRadius = radii.bottomRight;
+      node.bottomLeftRadius = radii.bottomLeft;
+    }
+    console.log('✅ Applied border radius:', values.join(' '));
+  }
+
+  static cornerRadii(computedStyle: ComputedStyle, box: { width: number; height: number }): Radii {
+    const corners = ['top-left', 'top-right', 'bottom-right', 'bottom-left'].map(corner => {
+      const parts = ValueResolver.splitTopLevel(String(computedStyle[`border-${corner}-radius`] ?? '0'), ' ');
+      return {
+        horizontal: Math.max(0, this.pixels(parts[0], box.width)),
+        vertical: Math.max(0, this.pixels(parts[1] ?? parts[0], box.height))
+      };
+    });
+    const [topLeft, topRight, bottomRight, bottomLeft] = corners;
+
+    // Adjacent radii may add up to at most the side they share
+    const fit = (size: number, sum: number) => sum > size ? size / sum : 1;
+    const scale = Math.min(
+      fit(box.width, topLeft.horizontal + topRight.horizontal),
+      fit(box.width, bottomLeft.horizontal + bottomRight.horizontal),
+      fit(box.height, topLeft.vertical + bottomLeft.vertical),
+      fit(box.height, topRight.vertical + bottomRight.vertical)
+    );
+
+    if (corners.some(corner => corner.horizontal !== corner.vertical)) {
+      console.warn('⚠️ Elliptical corners approximated as circular ones');
+    }
+    const radius = (corner: typeof topLeft) => (corner.horizontal + corner.vertical) / 2 * scale;
+    return {
+      topLeft: radius(topLeft),
+      topRight: radius(topRight),
+      bottomRight: radius(bottomRight),
+      bottomLeft: radius(bottomLeft)
+    };
+  }
+
+  /**
+   * Rectangles along the inner edges of a sized frame for border sides
+   * whose color differs from the frame's stroke
+   */
+  static addEdges(frame: FrameNode, computedStyle: ComputedStyle): void {
+    const sides = this.sides(computedStyle);
+    const stroked = this.strokedSides(sides);
+    const edges = SIDES.filter(side => sides[side].width > 0 && !stroked.includes(side));
+    if (edges.length === 0) return;
+
+    edges.forEach(side => {
+      const { width, color, style } = sides[side];
+      const vertical = side === 'left' || side === 'right';
+      if (style === 'dashed' || style === 'dotted') {
+        console.warn(`⚠️ ${style} border-${side} of "${frame.name}" drawn solid`);
+      }
+
+      const edge = figma.createRectangle();
+      edge.name = `border-${side}`;
+      edge.resize(vertical ? width : Math.max(0.01, frame.width), vertical ? Math.max(0.01, frame.height) : width);
+      edge.fills = [this.paint(color)];
+
+      // Borders paint below the content
+      frame.insertChild(0, edge);
+      if (frame.layoutMode !== 'NONE') {
+        edge.layoutPositioning = 'ABSOLUTE';
+      }
+      edge.x = side === 'right' ? frame.width - width : 0;
+      edge.y = side === 'bottom' ? frame.height - width : 0;
+      edge.constraints = vertical
+        ? { horizontal: side === 'left' ? 'MIN' : 'MAX', vertical: 'STRETCH' }
+        : { horizontal: 'STRETCH', vertical: side === 'top' ? 'MIN' : 'MAX' };
+    });
+    console.log(`✅ Added ${edges.length} border edge(s) in other colors`);
+  }
+
+  /**
+   * `outline` as an OUTSIDE stroke when the node has no stroke and the
+   * outline isn't offset, else as an "outline" layer around a frame
+   */
+  static applyOutline(node: FrameNode | RectangleNode, computedStyle: ComputedStyle): void {
+    let style = String(computedStyle['outline-style'] || 'none').toLowerCase();
+    if (style === 'none' || style === 'hidden') return;
+    if (style === 'auto') style = 'solid';
+
+    const width = this.pixels(computedStyle['outline-width'] ?? 3);
+    const color = this.color(computedStyle['outline-color'] === 'invert' ? undefined : computedStyle['outline-color'], computedStyle);
+    if (width <= 0 || color.a === 0) return;
+
+    const offset = this.pixels(computedStyle['outline-offset']);
+    const stroke = (target: FrameNode | RectangleNode) => {
+      target.strokes = [this.paint(color)];
+      target.strokeAlign = 'OUTSIDE';
+      target.strokeWeight = width;
+      const dashPattern = this.dashPattern({ width, style, color });
+      if (dashPattern.length > 0) target.dashPattern = dashPattern;
+    };
+
+    const hasStroke = node.strokes.length > 0;
+    if (!hasStroke && offset === 0) {
+      stroke(node);
+      console.log('✅ Applied outline:', width, style);
+      return;
+    }
+
+    if (node.type !== 'FRAME') {
+      console.warn(`⚠️ Outline of "${node.name}" can't be combined with its border or offset`);
+      return;
+    }
+
+    const outline = figma.createRectangle();
+    outline.name = 'outline';
+    outline.resize(Math.max(0.01, node.width + offset * 2), Math.max(0.01, node.height + offset * 2));
+    outline.fills = [];
+    stroke(outline);
+
+    // The outline follows the border's rounded corners, grown by the offset
+    const radii = this.cornerRadii(computedStyle, { width: node.width, height: node.height });
+    const grow = (radius: number) => radius > 0 ? Math.max(0, radius + offset) : 0;
+    outline.topLeftRadius = grow(radii.topLeft);
+    outline.topRightRadius = grow(radii.topRight);
+    outline.bottomRightRadius = grow(radii.bottomRight);
+    outline.bottomLeftRadius = grow(radii.bottomLeft);
+
+    node.appendChild(outline);
+    if (node.layoutMode !== 'NONE') {
+      outline.layoutPositioning = 'ABSOLUTE';
+    }
+    outline.x = -offset;
+    outline.y = -offset;
+    outline.constraints = { horizontal: 'STRETCH', vertical: 'STRETCH' };
+
+    if (node.clipsContent && offset >= 0) {
+      console.warn(`⚠️ Outline of "${node.name}" is clipped by its overflow`);
+    }
+    console.log('✅ Added outline layer:', width, style, `offset ${offset}`);
+  }
+
+  /**
+   * Visible sides of the most common color (ties go to the earlier side)
+   */
+  private static strokedSides(sides: Record<BorderSideName, BorderSide>): BorderSideName[] {
+    const visible = SIDES.filter(side => sides[side].width > 0);
+    if (visible.length === 0) return [];
+
+    const key = (side: BorderSideName) => JSON.stringify(sides[side].color);
+    const count = (side: BorderSideName) => visible.filter(other => key(other) === key(side)).length;
+    const primary = visible.reduce((best, side) => count(side) > count(best) ? side : best);
+    return visible.filter(side => key(side) === key(primary));
+  }
+
+  private static dashPattern(side: BorderSide): number[] {
+    switch (side.style) {
+      case 'dashed': return [side.width * 3, side.width * 3];
+      case 'dotted': return [side.width, side.width];
+      default:
+        if (SOLID_APPROXIMATIONS.has(side.style)) {
+          console.warn(`⚠️ ${side.style} border approximated as solid`);
+        }
+        return [];
+    }
+  }
+
+  private static paint(color: RGBA): SolidPaint {
+    return { type: 'SOLID', color: { r: color.r, g: color.g, b: color.b }, opacity: color.a };
+  }
+
+  /**
+   * A border or outline color; `currentcolor` (the initial value) is the text color
+   */
+  private static color(value: string | number | undefined, computedStyle: ComputedStyle): RGBA {
+    const text = String(value ?? '').trim();
+    const current = ColorParser.parseColorWithAlpha(String(computedStyle.color || '#000000')) || { r: 0, g: 0, b: 0, a: 1 };
+    if (!text || /^currentcolor$/i.test(text)) return current;
+    return ColorParser.parseColorWithAlpha(text) || current;
+  }
+
+  /**
+   * Pixels; percentages refer to `basis`
+   */
+  private static pixels(value: string | number | undefined, basis = 0): number {
+    if (typeof value === 'number') return value;
+    const num = parseFloat(value || '');
+    if (isNaN(num)) return 0;
+    return value!.trim().endsWith('%') ? num / 100 * basis : num;
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Effect Mapper
+ *
+ * Maps `box-shadow` and `text-shadow` layers to Figma drop and inner shadows,
+ * and `filter: blur()` / `backdrop-filter: blur()` to layer and background
+ * blurs. A CSS shadow's blur radius is what Figma calls the shadow radius,
+ * while blur() takes a standard deviation, which Figma's blur radius doubles.
+ */
+
+import { ValueResolver } from '../engine/value-resolver';
+import { ColorParser, RGBA } from '../utils/color-parser-enhanced';
+
+export interface ShadowLayer {
+  inset: boolean;
+  offsetX: number;
+  offsetY: number;
+  blur: number;
+  spread: number;
+  color: RGBA;
+}
+
+const LENGTH = /^[-+]?(\d+\.?\d*|\.\d+)(px|em|rem)?$/i;
+
+export class EffectMapper {
+
+  /**
+   * Comma-separated shadow layers, first (topmost) layer first. Layers
+   * without a color use `currentColor`; invalid layers are skipped.
+   */
+  static parseShadows(value: string | number | undefined, currentColor?: string, fontSize = 16): ShadowLayer[] {
+    const text = String(value ?? '').trim();
+    if (!text || text === 'none') return [];
+
+    const fallbackColor = ColorParser.parseColorWithAlpha(currentColor || '') || { r: 0, g: 0, b: 0, a: 1 };
+    const layers: ShadowLayer[] = [];
+
+    ValueResolver.splitTopLevel(text, ',').forEach(layer => {
+      const lengths: number[] = [];
+      let inset = false;
+      let color: RGBA | null = null;
+
+      for (const token of ValueResolver.splitTopLevel(layer, ' ')) {
+        if (token.toLowerCase() === 'inset') {
+          inset = true;
+        } else if (LENGTH.test(token)) {
+          lengths.push(this.pixels(token, fontSize));
+        } else if (/^currentcolor$/i.test(token)) {
+          color = fallbackColor;
+        } else {
+          color = ColorParser.parseColorWithAlpha(token);
+          if (!color) {
+            console.warn(`⚠️ Ignoring shadow with unknown color: ${layer}`);
+            return;
+          }
+        }
+      }
+
+      if (lengths.length < 2 || lengths.length > 4) {
+        console.warn(`⚠️ Ignoring invalid shadow: ${layer}`);
+        return;
+      }
+
+      layers.push({
+        inset,
+        offsetX: lengths[0],
+        offsetY: lengths[1],
+        blur: Math.max(0, lengths[2] || 0),
+        spread: lengths[3] || 0,
+        color: color || fallbackColor
+      });
+    });
+
+    return layers;
+  }
+
+  /**
+   * Drop and inner shadows for `box-shadow`
+   */
+  static boxShadowEffects(value: string | number | undefined, currentColor?: string, fontSize?: number): Effect[] {
+    return this.toEffects(this.parseShadows(value, currentColor, fontSize), true);
+  }
+
+  /**
+   * Drop shadows for `text-shadow` (which has neither spread nor inset)
+   */
+  static textShadowEffects(value: string | number | undefined, currentColor?: string, fontSize?: number): Effect[] {
+    const layers = this.parseShadows(value, currentColor, fontSize).filter(layer => !layer.inset);
+    return this.toEffects(layers, false);
+  }
+
+  /**
+   * Layer blur from `filter` and background blur from `backdrop-filter`
+   */
+  static blurEffects(filter: string | number | undefined, backdropFilter: string | number | undefined): Effect[] {
+    const effects: Effect[] = [];
+
+    const layerBlur = this.blurRadius(filter);
+    if (layerBlur > 0) {
+      effects.push({ type: 'LAYER_BLUR', blurType: 'NORMAL', radius: layerBlur, visible: true });
+    }
+    const backgroundBlur = this.blurRadius(backdropFilter);
+    if (backgroundBlur > 0) {
+      effects.push({ type: 'BACKGROUND_BLUR', blurType: 'NORMAL', radius: backgroundBlur, visible: true });
+    }
+
+    return effects;
+  }
+
+  /**
+   * Figma stacks effects like fills, last on top, so the CSS order is reversed
+   */
+  private static toEffects(layers: ShadowLayer[], withSpread: boolean): Effect[] {
+    return layers.slice().reverse()
+      .filter(layer => layer.color.a > 0)
+      .map(layer => {
+        const shadow = {
+          color: layer.color,
+          offset: { x: layer.offsetX, y: layer.offsetY },
+          radius: layer.blur,
+          visible: true,
+          blendMode: 'NORMAL' as BlendMode,
+          ...(withSpread && layer.spread !== 0 ? { spread: layer.spread } : {})
+        };
+        return layer.inset
+          ? { type: 'INNER_SHADOW', ...shadow } as InnerShadowEffect
+          : { type: 'DROP_SHADOW', ...shadow } as DropShadowEffect;
+      });
+  }
+
+  /**
+   * Figma blur radius of the blur() functions in a filter list
+   */
+  private static blurRadius(value: string | number | undefined): number {
+    const text = String(value ?? '');
+
+    // Chained blurs combine like variances
+    let variance = 0;
+    const pattern = /blur\(\s*([^)]*)\)/gi;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      const token = match[1].trim();
+      if (LENGTH.test(token)) variance += this.pixels(token, 16) ** 2;
+    }
+
+    const others = text.replace(/blur\([^)]*\)/gi, '').trim();
+    if (others && others !== 'none') {
+      console.warn(`⚠️ Only blur() filters are supported, ignoring: ${others}`);
+    }
+    return Math.sqrt(variance) * 2;
+  }
+
+  private static pixels(token: string, fontSize: number): number {
+    const num = parseFloat(token);
+    if (isNaN(num)) return 0;
+    return /r?em$/i.test(token) ? num * (/rem$/i.test(token) ? 16 : fontSize) : num;
+  }
+}
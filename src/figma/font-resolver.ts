@@ -0,0 +1,295 @@
+/**
+ * Font Resolver
+ *
+ * Resolves a CSS `font-family` stack, `font-weight` and `font-style` to a
+ * font that is actually available in Figma. Each family in the stack is
+ * checked against `figma.listAvailableFontsAsync()`, and the face is chosen
+ * by the CSS font matching rules (italic before oblique before normal, then
+ * the nearest weight in the direction the spec prescribes, so 600 falls back
+ * to 700 before 500). Generic families only apply once every named family
+ * is missing. Every family that differs from the request, and every face
+ * that isn't one of the standard weights nearest the requested one, is
+ * recorded as a substitution, together with the elements that use it.
+ *
+ * Fallback modes: `auto` substitutes and reports, `strict` also substitutes
+ * but lets the caller refuse the result (see FontFallbackError), and
+ * `ignore` silently falls back to Inter without consulting generic families.
+ */
+
+import { ValueResolver } from '../engine/value-resolver';
+
+export type FontFallbackMode = 'auto' | 'strict' | 'ignore';
+
+export interface FontSubstitution {
+  /** The CSS family stack, weight and style that were asked for */
+  requested: string;
+  /** The family and style that wasn't available, e.g. "Georgia Semi Bold" */
+  missing: string;
+  resolved: FontName;
+  /** Descriptions of the elements whose text uses the request */
+  elements: string[];
+}
+
+export interface ResolvedFont {
+  fontName: FontName;
+  /** Set when the font differs from the one requested */
+  substitution: FontSubstitution | null;
+}
+
+/**
+ * Thrown in strict mode when fonts are missing, listing all of them
+ */
+export class FontFallbackError extends Error {
+  constructor(public substitutions: FontSubstitution[]) {
+    super(`Missing fonts:\n${substitutions
+      .map(({ missing, elements }) => `• ${missing} (used by ${elements.join(', ')})`)
+      .join('\n')}`);
+    this.name = 'FontFallbackError';
+  }
+}
+
+interface FaceTraits {
+  weight: number;
+  italic: boolean;
+  /** Condensed, expanded and similar widths */
+  stretched: boolean;
+}
+
+/** Figma font for each generic family */
+const GENERIC_DEFAULTS: Record<string, string> = {
+  'serif': 'Noto Serif',
+  'sans-serif': 'Inter',
+  'monospace': 'Roboto Mono',
+  'cursive': 'Inter',
+  'fantasy': 'Inter'
+};
+
+/** System and UI font keywords, as their generic family */
+const GENERIC_ALIASES: Record<string, string> = {
+  'system-ui': 'sans-serif',
+  '-apple-system': 'sans-serif',
+  'blinkmacsystemfont': 'sans-serif',
+  'ui-sans-serif': 'sans-serif',
+  'ui-rounded': 'sans-serif',
+  'ui-serif': 'serif',
+  'ui-monospace': 'monospace',
+  'emoji': 'sans-serif',
+  'math': 'serif'
+};
+
+/** Style names by weight, most common spelling first */
+const WEIGHT_NAMES: Array<[number, RegExp, string]> = [
+  [100, /thin|hairline/, 'Thin'],
+  [200, /(extra|ultra)light/, 'Extra Light'],
+  [300, /light/, 'Light'],
+  [500, /medium/, 'Medium'],
+  [600, /(semi|demi)bold/, 'Semi Bold'],
+  [800, /(extra|ultra)bold/, 'Extra Bold'],
+  [700, /bold/, 'Bold'],
+  [900, /black|heavy/, 'Black'],
+  [400, /regular|normal|book|roman|plain/, 'Regular']
+];
+
+const FALLBACK_FONT: FontName = { family: 'Inter', style: 'Regular' };
+
+export class FontResolver {
+  private available: Promise<Map<string, FontName[]>> | null = null;
+  private loaded = new Set<string>();
+  private resolved = new Map<string, Promise<FontName>>();
+  private substitutionLog = new Map<string, FontSubstitution>();
+
+  constructor(private readonly mode: FontFallbackMode = 'auto') {}
+
+  /**
+   * The loaded font for a text's computed font properties. `usedBy`
+   * describes the element for the substitution report.
+   */
+  async resolve(
+    fontFamily: string | number | undefined,
+    fontWeight?: string | number,
+    fontStyle?: string | number,
+    usedBy?: string
+  ): Promise<ResolvedFont> {
+    const families = FontResolver.parseFamilies(String(fontFamily ?? ''));
+    const weight = FontResolver.parseWeight(fontWeight);
+    const italic = /^(italic|oblique)/i.test(String(fontStyle ?? '').trim());
+
+    const requested = `${families.join(', ') || 'default'} ${weight}${italic ? ' italic' : ''}`;
+    let font = this.resolved.get(requested);
+    if (!font) {
+      font = this.resolveFont(requested, families, weight, italic);
+      this.resolved.set(requested, font);
+    }
+    const fontName = await font;
+
+    const substitution = this.substitutionLog.get(requested) || null;
+    if (substitution && usedBy && !substitution.elements.includes(usedBy)) {
+      substitution.elements.push(usedBy);
+    }
+    return { fontName, substitution };
+  }
+
+  /**
+   * Substitutions made so far, one per distinct request
+   */
+  substitutions(): FontSubstitution[] {
+    return Array.from(this.substitutionLog.values());
+  }
+
+  /**
+   * Family names of a `font-family` list, unquoted
+   */
+  static parseFamilies(value: string): string[] {
+    return ValueResolver.splitTopLevel(value, ',')
+      .map(family => family.trim().replace(/^(['"])([\s\S]*)\1$/, '$2').trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * Numeric `font-weight`. The style engine computes `bolder` and `lighter`
+   * against the parent's weight; a keyword left in a value is taken against
+   * `parentWeight`.
+   */
+  static parseWeight(value: string | number | undefined, parentWeight = 400): number {
+    return ValueResolver.fontWeight(value, parentWeight);
+  }
+
+  /**
+   * Weight, italic and width of a Figma style name like "Semi Bold Italic"
+   */
+  static describeStyle(style: string): FaceTraits {
+    const compact = style.toLowerCase().replace(/[\s_-]+/g, '');
+    const weight = WEIGHT_NAMES.find(([, pattern]) => pattern.test(compact));
+    return {
+      weight: weight ? weight[0] : 400,
+      italic: /italic|oblique|slanted/.test(compact),
+      stretched: /condensed|compressed|narrow|expanded|extended|wide/.test(compact)
+    };
+  }
+
+  /**
+   * The face of a family CSS font matching would pick
+   */
+  static matchFace(faces: FontName[], weight: number, italic: boolean): FontName | null {
+    if (faces.length === 0) return null;
+
+    const described = faces.map(face => ({ face, traits: this.describeStyle(face.style) }));
+    const slanted = described.filter(entry => entry.traits.italic === italic);
+    let candidates = slanted.length > 0 ? slanted : described;
+    const normalWidth = candidates.filter(entry => !entry.traits.stretched);
+    if (normalWidth.length > 0) candidates = normalWidth;
+
+    candidates.sort((a, b) => this.weightDistance(a.traits.weight, weight) - this.weightDistance(b.traits.weight, weight));
+    return candidates[0].face;
+  }
+
+  /**
+   * Order in which CSS font matching tries a face's weight: for 400–500 the
+   * heavier weights up to 500 first, then lighter, then heavier; below 400
+   * lighter first; above 500 heavier first
+   */
+  private static weightDistance(faceWeight: number, desired: number): number {
+    const below = desired - faceWeight;
+    const above = faceWeight - desired;
+    if (faceWeight === desired) return 0;
+
+    if (desired >= 400 && desired <= 500) {
+      if (faceWeight > desired && faceWeight <= 500) return above;
+      if (faceWeight < desired) return 1000 + below;
+      return 2000 + above;
+    }
+    if (desired < 400) {
+      return faceWeight < desired ? below : 1000 + above;
+    }
+    return faceWeight > desired ? above : 1000 + below;
+  }
+
+  private static styleName(weight: number, italic: boolean): string {
+    const rounded = Math.min(900, Math.max(100, Math.round(weight / 100) * 100));
+    const name = WEIGHT_NAMES.find(([value]) => value === rounded)![2];
+    if (!italic) return name;
+    return name === 'Regular' ? 'Italic' : `${name} Italic`;
+  }
+
+  private async resolveFont(requested: string, families: string[], weight: number, italic: boolean): Promise<FontName> {
+    const available = await this.availableFonts();
+    const named = families.filter(family => !this.genericFamily(family));
+    const generic = families.map(family => this.genericFamily(family)).find(Boolean) || 'sans-serif';
+
+    const candidates = this.mode === 'ignore'
+      ? [...named, FALLBACK_FONT.family]
+      : [...named, GENERIC_DEFAULTS[generic], FALLBACK_FONT.family];
+    for (const family of candidates) {
+      const faces = available.get(family.toLowerCase());
+
+      // Without a font list, try the conventional style name directly
+      const face = available.size > 0
+        ? FontResolver.matchFace(faces || [], weight, italic)
+        : { family, style: FontResolver.styleName(weight, italic) };
+      if (face && await this.load(face)) {
+        this.recordSubstitution(requested, named[0], weight, italic, face);
+        return face;
+      }
+    }
+
+    await this.load(FALLBACK_FONT);
+    this.recordSubstitution(requested, named[0], weight, italic, FALLBACK_FONT);
+    return FALLBACK_FONT;
+  }
+
+  /**
+   * The generic family a keyword stands for, or null for a named family
+   */
+  private genericFamily(family: string): string | null {
+    const lower = family.toLowerCase();
+    if (GENERIC_DEFAULTS[lower]) return lower;
+    return GENERIC_ALIASES[lower] || null;
+  }
+
+  private recordSubstitution(requested: string, wanted: string | undefined, weight: number, italic: boolean, font: FontName): void {
+    if (this.mode === 'ignore') return;
+
+    // A face of one of the standard weights nearest the request (Regular for
+    // 450, Semi Bold for 550) is what font matching picks, not a missing font
+    const traits = FontResolver.describeStyle(font.style);
+    const familyMatches = !wanted || wanted.toLowerCase() === font.family.toLowerCase();
+    if (familyMatches && Math.abs(traits.weight - weight) < 100 && traits.italic === italic) return;
+
+    const missing = `${wanted || font.family} ${FontResolver.styleName(weight, italic)}`;
+    this.substitutionLog.set(requested, { requested, missing, resolved: font, elements: [] });
+    console.warn(`⚠️ Font substituted: ${requested} → ${font.family} ${font.style}`);
+  }
+
+  private availableFonts(): Promise<Map<string, FontName[]>> {
+    if (!this.available) {
+      this.available = figma.listAvailableFontsAsync()
+        .then(fonts => {
+          const byFamily = new Map<string, FontName[]>();
+          fonts.forEach(({ fontName }) => {
+            const key = fontName.family.toLowerCase();
+            byFamily.set(key, [...(byFamily.get(key) || []), fontName]);
+          });
+          return byFamily;
+        })
+        .catch(error => {
+          console.warn('⚠️ Could not list available fonts:', error);
+          return new Map<string, FontName[]>();
+        });
+    }
+    return this.available;
+  }
+
+  private async load(font: FontName): Promise<boolean> {
+    const key = `${font.family}|${font.style}`;
+    if (this.loaded.has(key)) return true;
+
+    try {
+      await figma.loadFontAsync(font);
+      this.loaded.add(key);
+      return true;
+    } catch (error) {
+      console.warn(`⚠️ Could not load font ${font.family} ${font.style}`);
+      return false;
+    }
+  }
+}
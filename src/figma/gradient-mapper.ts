@@ -0,0 +1,400 @@
+/**
+ * Gradient Mapper
+ *
+ * Converts CSS background layers — linear-gradient(), radial-gradient(),
+ * conic-gradient() and their repeating- variants — into Figma gradient
+ * paints. Figma positions gradients with a transform from the node's
+ * normalized (0–1) space into gradient space, so every gradient is built as
+ * a gradient-space → pixel-space matrix and then inverted.
+ */
+
+import { ValueResolver } from '../engine/value-resolver';
+import { ColorParser } from '../utils/color-parser-enhanced';
+
+type Matrix = [[number, number, number], [number, number, number], [number, number, number]];
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface ParsedStop {
+  color: RGBA;
+  /** Position as a fraction of the gradient ray, if specified */
+  position?: number;
+}
+
+const GRADIENT_FUNCTION = /^(repeating-)?(linear|radial|conic)-gradient\(([\s\S]*)\)$/i;
+const MAX_REPEATED_STOPS = 64;
+const NON_COLOR_KEYWORDS = /^(none|center|top|bottom|left|right|cover|contain|repeat|space|round|fixed|scroll|local|auto)$/i;
+
+export class GradientMapper {
+
+  /**
+   * True when a background value (or layer) contains a gradient
+   */
+  static hasGradient(value: string): boolean {
+    return /(^|[\s,(])(repeating-)?(linear|radial|conic)-gradient\(/i.test(value || '');
+  }
+
+  /**
+   * Convert a single gradient function into a Figma gradient paint
+   */
+  static parseGradient(value: string | null, width: number, height: number): GradientPaint | null {
+    const match = value?.trim().match(GRADIENT_FUNCTION);
+    if (!match) return null;
+
+    const repeating = !!match[1];
+    const kind = match[2].toLowerCase();
+    const args = ValueResolver.splitTopLevel(match[3], ',');
+    const w = width > 0 ? width : 1;
+    const h = height > 0 ? height : 1;
+
+    switch (kind) {
+      case 'linear': return this.linearGradient(args, repeating, w, h);
+      case 'radial': return this.radialGradient(args, repeating, w, h);
+      case 'conic': return this.conicGradient(args, repeating, w, h);
+      default: return null;
+    }
+  }
+
+  private static linearGradient(args: string[], repeating: boolean, width: number, height: number): GradientPaint | null {
+    let angle = 180; // to bottom
+    if (args.length > 0 && this.isLinearDirection(args[0])) {
+      angle = this.parseLinearDirection(args.shift()!, width, height);
+    }
+
+    const radians = angle * Math.PI / 180;
+    // Length of the gradient line so the corners get the first/last colors
+    const length = Math.abs(width * Math.sin(radians)) + Math.abs(height * Math.cos(radians));
+
+    const stops = this.parseStops(args, value => this.lengthFraction(value, length));
+    if (!stops) return null;
+
+    return {
+      type: 'GRADIENT_LINEAR',
+      gradientTransform: this.toGradientTransform(
+        { x: width / 2, y: height / 2 }, radians - Math.PI / 2, length, length, width, height
+      ),
+      gradientStops: this.finalizeStops(stops, repeating)
+    };
+  }
+
+  private static radialGradient(args: string[], repeating: boolean, width: number, height: number): GradientPaint | null {
+    let config = '';
+    if (args.length > 0 && /^(circle|ellipse|closest-|farthest-|at\s|-?[\d.]+(px|%|em|rem)\b)/i.test(args[0].trim())) {
+      config = args.shift()!.trim();
+    }
+
+    const [shapeAndSize, positionPart] = config.split(/\bat\b/i).map(part => part.trim());
+    const center = this.parsePosition(positionPart || '', width, height);
+    const words = (shapeAndSize || '').split(/\s+/).filter(Boolean);
+    const lengths = words.filter(word => /^-?[\d.]+(px|%|em|rem)?$/i.test(word));
+    const circle = words.includes('circle') || (lengths.length === 1 && !words.includes('ellipse'));
+    const sizeKeyword = words.find(word => /^(closest|farthest)-(side|corner)$/i.test(word)) || 'farthest-corner';
+
+    let radiusX: number;
+    let radiusY: number;
+    if (lengths.length > 0) {
+      radiusX = this.parseLength(lengths[0], width);
+      radiusY = circle ? radiusX : this.parseLength(lengths[1] || lengths[0], height);
+    } else {
+      [radiusX, radiusY] = this.radialExtent(sizeKeyword.toLowerCase(), circle, center, width, height);
+    }
+    if (!(radiusX > 0) || !(radiusY > 0)) return null;
+
+    const stops = this.parseStops(args, value => this.lengthFraction(value, radiusX));
+    if (!stops) return null;
+
+    return {
+      type: 'GRADIENT_RADIAL',
+      gradientTransform: this.toGradientTransform(center, 0, radiusX * 2, radiusY * 2, width, height),
+      gradientStops: this.finalizeStops(stops, repeating)
+    };
+  }
+
+  private static conicGradient(args: string[], repeating: boolean, width: number, height: number): GradientPaint | null {
+    let from = 0;
+    let center: Point = { x: width / 2, y: height / 2 };
+
+    if (args.length > 0 && /^(from|at)\s/i.test(args[0].trim())) {
+      const config = args.shift()!.trim();
+      const fromMatch = config.match(/from\s+(-?[\d.]+[a-z]*)/i);
+      if (fromMatch) from = this.parseAngle(fromMatch[1]) ?? 0;
+      const atMatch = config.match(/\bat\s+(.+)$/i);
+      if (atMatch) center = this.parsePosition(atMatch[1], width, height);
+    }
+
+    const stops = this.parseStops(args, value => {
+      const angle = this.parseAngle(value);
+      if (angle !== null) return angle / 360;
+      return /%$/.test(value) ? parseFloat(value) / 100 : null;
+    });
+    if (!stops) return null;
+
+    // Figma's angular gradient starts at 3 o'clock, CSS's conic at 12 o'clock
+    const size = Math.max(width, height) * 2;
+    return {
+      type: 'GRADIENT_ANGULAR',
+      gradientTransform: this.toGradientTransform(center, (from - 90) * Math.PI / 180, size, size, width, height),
+      gradientStops: this.finalizeStops(stops, repeating)
+    };
+  }
+
+  /**
+   * Radii for the radial size keywords, per CSS Images 3
+   */
+  private static radialExtent(
+    keyword: string,
+    circle: boolean,
+    center: Point,
+    width: number,
+    height: number
+  ): [number, number] {
+    const sidesX = [Math.abs(center.x), Math.abs(width - center.x)];
+    const sidesY = [Math.abs(center.y), Math.abs(height - center.y)];
+    const closest = keyword.startsWith('closest');
+    const pick = (values: number[]) => closest ? Math.min(...values) : Math.max(...values);
+
+    if (keyword.endsWith('side')) {
+      if (circle) {
+        const radius = pick([...sidesX, ...sidesY]);
+        return [radius, radius];
+      }
+      return [pick(sidesX), pick(sidesY)];
+    }
+
+    // Corners
+    const dx = pick(sidesX);
+    const dy = pick(sidesY);
+    if (circle) {
+      const radius = Math.hypot(dx, dy);
+      return [radius, radius];
+    }
+    // An ellipse with the side ratio that passes through the corner
+    return [dx * Math.SQRT2, dy * Math.SQRT2];
+  }
+
+  /**
+   * Build the gradient-space → normalized-space matrix
+   *   scale(1/w, 1/h) · translate(center) · rotate(angle) · scale(sx, sy) · translate(-½, -½)
+   * and invert it into Figma's gradientTransform.
+   */
+  private static toGradientTransform(
+    center: Point,
+    angle: number,
+    scaleX: number,
+    scaleY: number,
+    width: number,
+    height: number
+  ): Transform {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+
+    let matrix: Matrix = [[1, 0, -0.5], [0, 1, -0.5], [0, 0, 1]];
+    matrix = this.multiply([[scaleX, 0, 0], [0, scaleY, 0], [0, 0, 1]], matrix);
+    matrix = this.multiply([[cos, -sin, 0], [sin, cos, 0], [0, 0, 1]], matrix);
+    matrix = this.multiply([[1, 0, center.x], [0, 1, center.y], [0, 0, 1]], matrix);
+    matrix = this.multiply([[1 / width, 0, 0], [0, 1 / height, 0], [0, 0, 1]], matrix);
+
+    const inverse = this.invert(matrix);
+    return [
+      [inverse[0][0], inverse[0][1], inverse[0][2]],
+      [inverse[1][0], inverse[1][1], inverse[1][2]]
+    ];
+  }
+
+  private static multiply(a: Matrix, b: Matrix): Matrix {
+    const result: Matrix = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+    for (let row = 0; row < 3; row++) {
+      for (let col = 0; col < 3; col++) {
+        result[row][col] = a[row][0] * b[0][col] + a[row][1] * b[1][col] + a[row][2] * b[2][col];
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Invert an affine matrix (last row 0 0 1)
+   */
+  private static invert(m: Matrix): Matrix {
+    const det = m[0][0] * m[1][1] - m[0][1] * m[1][0];
+    const a = m[1][1] / det;
+    const b = -m[0][1] / det;
+    const c = -m[1][0] / det;
+    const d = m[0][0] / det;
+    return [
+      [a, b, -(a * m[0][2] + b * m[1][2])],
+      [c, d, -(c * m[0][2] + d * m[1][2])],
+      [0, 0, 1]
+    ];
+  }
+
+  /**
+   * Parse color stops; `toFraction` converts a stop position to a fraction
+   * of the gradient ray. Color hints (a lone position) are ignored.
+   */
+  private static parseStops(args: string[], toFraction: (value: string) => number | null): ParsedStop[] | null {
+    const stops: ParsedStop[] = [];
+
+    for (const arg of args) {
+      const parts = ValueResolver.splitTopLevel(arg.trim(), ' ');
+      const colorIndex = parts.findIndex(part => this.parseColor(part) !== null);
+      if (colorIndex === -1) continue;
+
+      const color = this.parseColor(parts[colorIndex])!;
+      const positions = parts
+        .filter((_, index) => index !== colorIndex)
+        .map(part => toFraction(part))
+        .filter((position): position is number => position !== null);
+
+      // "red 10% 20%" is two stops of the same color
+      if (positions.length === 0) stops.push({ color });
+      positions.slice(0, 2).forEach(position => stops.push({ color, position }));
+    }
+
+    return stops.length > 0 ? stops : null;
+  }
+
+  /**
+   * Fill in missing positions, keep them ascending, repeat for repeating-*
+   * gradients and clamp to Figma's 0–1 range
+   */
+  private static finalizeStops(stops: ParsedStop[], repeating: boolean): ColorStop[] {
+    const positions = stops.map(stop => stop.position);
+    if (positions[0] === undefined) positions[0] = 0;
+    if (positions[positions.length - 1] === undefined) positions[positions.length - 1] = stops.length > 1 ? 1 : 0;
+
+    // Positions can't go backwards
+    for (let i = 1; i < positions.length; i++) {
+      if (positions[i] !== undefined) positions[i] = Math.max(positions[i]!, this.previousDefined(positions, i));
+    }
+
+    // Evenly distribute runs of unpositioned stops
+    for (let i = 1; i < positions.length; i++) {
+      if (positions[i] !== undefined) continue;
+      let end = i;
+      while (positions[end] === undefined) end++;
+      const start = positions[i - 1]!;
+      const step = (positions[end]! - start) / (end - i + 1);
+      for (let j = i; j < end; j++) positions[j] = start + step * (j - i + 1);
+    }
+
+    let result: ColorStop[] = stops.map((stop, index) => ({ color: stop.color, position: positions[index]! }));
+
+    if (repeating) {
+      const first = result[0].position;
+      const period = result[result.length - 1].position - first;
+      if (period > 0) {
+        const cycle = result;
+        result = [];
+        for (let i = 0; first + i * period < 1 - 1e-6 && result.length < MAX_REPEATED_STOPS; i++) {
+          cycle.forEach(stop => result.push({ color: stop.color, position: stop.position + i * period }));
+        }
+      }
+    }
+
+    return result.map(stop => ({ color: stop.color, position: Math.min(1, Math.max(0, stop.position)) }));
+  }
+
+  private static previousDefined(positions: Array<number | undefined>, index: number): number {
+    for (let i = index - 1; i >= 0; i--) {
+      if (positions[i] !== undefined) return positions[i]!;
+    }
+    return 0;
+  }
+
+  private static isLinearDirection(value: string): boolean {
+    const trimmed = value.trim();
+    return /^to\s/i.test(trimmed) || this.parseAngle(trimmed) !== null;
+  }
+
+  /**
+   * CSS angle for a linear direction; corner keywords depend on the box's
+   * aspect ratio so the 50% line runs through the other two corners
+   */
+  private static parseLinearDirection(value: string, width: number, height: number): number {
+    const trimmed = value.trim().toLowerCase();
+    const angle = this.parseAngle(trimmed);
+    if (angle !== null) return angle;
+
+    const words = trimmed.replace(/^to\s+/, '').split(/\s+/);
+    const dx = words.includes('left') ? -1 : words.includes('right') ? 1 : 0;
+    const dy = words.includes('top') ? -1 : words.includes('bottom') ? 1 : 0;
+
+    if (dx !== 0 && dy !== 0) {
+      return Math.atan2(dx * height, -dy * width) * 180 / Math.PI;
+    }
+    if (dx !== 0) return dx > 0 ? 90 : 270;
+    return dy < 0 ? 0 : 180;
+  }
+
+  private static parseAngle(value: string): number | null {
+    const match = value.trim().match(/^(-?[\d.]+)(deg|rad|grad|turn)$/i);
+    if (!match) return value.trim() === '0' ? 0 : null;
+
+    const num = parseFloat(match[1]);
+    switch (match[2].toLowerCase()) {
+      case 'rad': return num * 180 / Math.PI;
+      case 'grad': return num * 0.9;
+      case 'turn': return num * 360;
+      default: return num;
+    }
+  }
+
+  /**
+   * `at <position>` for radial and conic gradients, in pixels
+   */
+  private static parsePosition(value: string, width: number, height: number): Point {
+    const parts = value.trim().toLowerCase().split(/\s+/).filter(Boolean);
+    const position: Point = { x: width / 2, y: height / 2 };
+    if (parts.length === 0) return position;
+
+    // Vertical keywords first ("top left") are swapped into x/y order
+    if (parts[0] === 'top' || parts[0] === 'bottom' || (parts.length > 1 && (parts[1] === 'left' || parts[1] === 'right'))) {
+      parts.reverse();
+    }
+
+    const axis = (part: string | undefined, size: number): number => {
+      switch (part) {
+        case undefined:
+        case 'center': return size / 2;
+        case 'left':
+        case 'top': return 0;
+        case 'right':
+        case 'bottom': return size;
+        default: return this.parseLength(part, size);
+      }
+    };
+
+    position.x = axis(parts[0], width);
+    position.y = axis(parts[1], height);
+    return position;
+  }
+
+  private static parseLength(value: string, percentageBasis: number): number {
+    const num = parseFloat(value);
+    if (isNaN(num)) return 0;
+    if (value.endsWith('%')) return num / 100 * percentageBasis;
+    if (/r?em$/.test(value)) return num * 16;
+    return num;
+  }
+
+  private static lengthFraction(value: string, rayLength: number): number | null {
+    if (/%$/.test(value)) return parseFloat(value) / 100;
+    if (/^-?[\d.]+(px|r?em)?$/.test(value)) {
+      return rayLength > 0 ? this.parseLength(value, rayLength) / rayLength : 0;
+    }
+    return null;
+  }
+
+  /**
+   * Parse a color, skipping tokens that can't be one (positions, keywords)
+   */
+  private static parseColor(value: string): RGBA | null {
+    if (!/^(#[0-9a-f]+|(rgba?|hsla?)\(.*\)|[a-z]+)$/i.test(value) || NON_COLOR_KEYWORDS.test(value)) {
+      return null;
+    }
+    return ColorParser.parseColorWithAlpha(value);
+  }
+}
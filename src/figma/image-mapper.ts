@@ -0,0 +1,222 @@
+/**
+ * Image Mapper
+ *
+ * Turns `<img>` sources and `background-image: url()` layers into Figma image
+ * paints. The plugin sandbox has no network access, so image bytes are
+ * resolved by the UI (data: URIs and pasted blobs) and handed over keyed by
+ * their source string. `object-fit`/`object-position` and the
+ * `background-size`/`-position`/`-repeat` longhands decide the scale mode.
+ */
+
+import { ValueResolver } from '../engine/value-resolver';
+
+export type ImageSources = Record<string, Uint8Array>;
+
+export interface ImageFit {
+  /** object-fit keyword, or 'size' for an explicit background-size */
+  fit: 'fill' | 'contain' | 'cover' | 'none' | 'scale-down' | 'size';
+  /** Explicit background-size components (`auto` when one is missing) */
+  size?: [string, string];
+  /** Horizontal and vertical position, e.g. `['50%', '50%']` */
+  position: [string, string];
+  /** Tile the image (background-repeat other than no-repeat) */
+  repeat: boolean;
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+const PLACEHOLDER_COLOR: RGB = { r: 0.85, g: 0.85, b: 0.85 };
+
+export class ImageMapper {
+  private images = new Map<string, { image: Image; size: Size } | null>();
+
+  constructor(private readonly sources: ImageSources) {}
+
+  /**
+   * The source in a `url(...)` layer, without quotes
+   */
+  static extractUrl(layer: string): string | null {
+    const match = layer.trim().match(/^url\(\s*(['"]?)([\s\S]*?)\1\s*\)$/i);
+    return match ? match[2].trim() : null;
+  }
+
+  /**
+   * Fit for an `<img>`, from object-fit and object-position
+   */
+  static objectFit(objectFit: string | number | undefined, objectPosition: string | number | undefined): ImageFit {
+    const fit = String(objectFit || 'fill').trim().toLowerCase();
+    return {
+      fit: ['fill', 'contain', 'cover', 'none', 'scale-down'].includes(fit) ? fit as ImageFit['fit'] : 'fill',
+      position: this.parsePosition(String(objectPosition ?? '50% 50%')),
+      repeat: false
+    };
+  }
+
+  /**
+   * Fit for one background layer, from its background-size, -position and
+   * -repeat entries
+   */
+  static backgroundFit(size: string, position: string, repeat: string): ImageFit {
+    const sizeValue = (size || 'auto').trim().toLowerCase();
+    const parts = sizeValue.split(/\s+/);
+    const fit: ImageFit = {
+      fit: sizeValue === 'cover' || sizeValue === 'contain' ? sizeValue : 'size',
+      position: this.parsePosition(position || '0% 0%'),
+      repeat: !/^no-repeat$/i.test((repeat || 'repeat').trim())
+    };
+    if (fit.fit === 'size') fit.size = [parts[0], parts[1] || 'auto'];
+    return fit;
+  }
+
+  /**
+   * Intrinsic size of a source, or null when its bytes aren't available
+   */
+  async naturalSize(src: string): Promise<Size | null> {
+    const loaded = await this.load(src);
+    return loaded ? loaded.size : null;
+  }
+
+  /**
+   * Image paint for a source drawn into a box of the given size, or null
+   * when the source couldn't be resolved
+   */
+  async imagePaint(src: string, box: Size, fit: ImageFit): Promise<ImagePaint | null> {
+    const loaded = await this.load(src);
+    if (!loaded) return null;
+
+    const { image, size } = loaded;
+    const rendered = this.renderedSize(size, box, fit);
+    const centered = fit.position.every(value => value === '50%' || value === 'center');
+
+    // Tiles always start at the top left in Figma
+    if (fit.repeat && fit.fit !== 'cover') {
+      return { type: 'IMAGE', imageHash: image.hash, scaleMode: 'TILE', scalingFactor: rendered.width / size.width };
+    }
+    if (fit.fit === 'cover' && centered) {
+      return { type: 'IMAGE', imageHash: image.hash, scaleMode: 'FILL' };
+    }
+    if (fit.fit === 'contain' && centered) {
+      return { type: 'IMAGE', imageHash: image.hash, scaleMode: 'FIT' };
+    }
+
+    // Everything else is the image's rendered rectangle expressed as a crop
+    const x = this.resolvePosition(fit.position[0], box.width - rendered.width);
+    const y = this.resolvePosition(fit.position[1], box.height - rendered.height);
+    return {
+      type: 'IMAGE',
+      imageHash: image.hash,
+      scaleMode: 'CROP',
+      imageTransform: [
+        [box.width / rendered.width, 0, -x / rendered.width],
+        [0, box.height / rendered.height, -y / rendered.height]
+      ]
+    };
+  }
+
+  /**
+   * Stand-in for an image whose bytes aren't available offline
+   */
+  static createPlaceholder(src: string, width: number, height: number): RectangleNode {
+    const placeholder = figma.createRectangle();
+    placeholder.name = `Image placeholder: ${this.describeSource(src)}`;
+    placeholder.resize(Math.max(1, Math.round(width)), Math.max(1, Math.round(height)));
+    placeholder.fills = [{ type: 'SOLID', color: PLACEHOLDER_COLOR }];
+    placeholder.strokes = [{ type: 'SOLID', color: { r: 0.6, g: 0.6, b: 0.6 } }];
+    placeholder.dashPattern = [4, 4];
+    return placeholder;
+  }
+
+  private async load(src: string): Promise<{ image: Image; size: Size } | null> {
+    if (this.images.has(src)) return this.images.get(src)!;
+
+    let loaded: { image: Image; size: Size } | null = null;
+    const bytes = this.sources[src];
+    if (bytes) {
+      try {
+        const image = figma.createImage(bytes);
+        loaded = { image, size: await image.getSizeAsync() };
+      } catch (error) {
+        console.warn(`⚠️ Could not decode image ${ImageMapper.describeSource(src)}:`, error);
+      }
+    } else {
+      console.warn(`⚠️ Image not available offline: ${ImageMapper.describeSource(src)}`);
+    }
+
+    this.images.set(src, loaded);
+    return loaded;
+  }
+
+  /**
+   * Size the image is drawn at, per object-fit / background-size
+   */
+  private renderedSize(natural: Size, box: Size, fit: ImageFit): Size {
+    const scaled = (scale: number): Size => ({ width: natural.width * scale, height: natural.height * scale });
+    const contain = Math.min(box.width / natural.width, box.height / natural.height);
+
+    switch (fit.fit) {
+      case 'fill': return { ...box };
+      case 'contain': return scaled(contain);
+      case 'cover': return scaled(Math.max(box.width / natural.width, box.height / natural.height));
+      case 'none': return { ...natural };
+      case 'scale-down': return scaled(Math.min(1, contain));
+      case 'size': {
+        const [widthValue, heightValue] = fit.size || ['auto', 'auto'];
+        const width = widthValue === 'auto' ? null : this.resolveLength(widthValue, box.width);
+        const height = heightValue === 'auto' ? null : this.resolveLength(heightValue, box.height);
+        // A missing dimension keeps the aspect ratio
+        if (width !== null && height !== null) return { width, height };
+        if (width !== null) return { width, height: width * natural.height / natural.width };
+        if (height !== null) return { width: height * natural.width / natural.height, height };
+        return { ...natural };
+      }
+    }
+  }
+
+  /**
+   * Offset for a position component; percentages align the same point of
+   * the image and the box, as in CSS
+   */
+  private resolvePosition(value: string, freeSpace: number): number {
+    switch (value) {
+      case 'left':
+      case 'top': return 0;
+      case 'center': return freeSpace / 2;
+      case 'right':
+      case 'bottom': return freeSpace;
+      default: return this.resolveLength(value, freeSpace);
+    }
+  }
+
+  private resolveLength(value: string, percentageBasis: number): number {
+    const num = parseFloat(value);
+    if (isNaN(num)) return 0;
+    return value.trim().endsWith('%') ? num / 100 * percentageBasis : num;
+  }
+
+  /**
+   * Normalize a position to `[x, y]`, swapping vertical-first keyword pairs
+   */
+  private static parsePosition(value: string): [string, string] {
+    const parts = ValueResolver.splitTopLevel(value.trim().toLowerCase(), ' ');
+    if (parts.length === 0) return ['50%', '50%'];
+    if (parts.length === 1) {
+      return parts[0] === 'top' || parts[0] === 'bottom' ? ['center', parts[0]] : [parts[0], 'center'];
+    }
+    if (parts[0] === 'top' || parts[0] === 'bottom' || parts[1] === 'left' || parts[1] === 'right') {
+      return [parts[1], parts[0]];
+    }
+    return [parts[0], parts[1]];
+  }
+
+  /**
+   * Short label for logs and placeholder names (data: URIs can be huge)
+   */
+  private static describeSource(src: string): string {
+    if (/^data:/i.test(src)) return src.slice(0, src.indexOf(',') === -1 ? 32 : Math.min(src.indexOf(','), 32));
+    const file = src.split(/[?#]/)[0].split('/').pop();
+    return file || src;
+  }
+}
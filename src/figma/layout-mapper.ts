@@ -6,6 +6,7 @@
  */
 
 import { ComputedStyle, LayoutBox } from '../engine/css-engine';
+import { TextMapper } from './text-mapper';
 
 export interface FigmaNodeConfig {
   // Dimensions
@@ -44,6 +45,12 @@ export interface FigmaNodeConfig {
   textAlignVertical?: 'TOP' | 'CENTER' | 'BOTTOM';
   textCase?: 'ORIGINAL' | 'UPPER' | 'LOWER' | 'TITLE';
   textDecoration?: 'NONE' | 'UNDERLINE' | 'STRIKETHROUGH';
+  textAutoResize?: 'NONE' | 'WIDTH_AND_HEIGHT' | 'HEIGHT';
+  textTruncation?: 'DISABLED' | 'ENDING';
+  maxLines?: number | null;
+  paragraphIndent?: number;
+  /** Feature tags to enable by hand; plugins can't set them */
+  openTypeFeatures?: Record<string, boolean>;
 }
 
 export class AccurateFigmaMapper {
@@ -314,8 +321,9 @@ export class AccurateFigmaMapper {
     computedStyles: ComputedStyle
   ): void {
     
-    // Text content
-    config.characters = element.textContent || '';
+    // Text content, with whitespace processed as `white-space` prescribes
+    const whiteSpace = TextMapper.whiteSpace(computedStyles);
+    config.characters = TextMapper.collapseWhitespace(element.textContent || '', whiteSpace).trim();
     
     // Font size
     const fontSize = this.resolveNumber(computedStyles['font-size']);
@@ -337,27 +345,36 @@ export class AccurateFigmaMapper {
       config.fontWeight = this.normalizeFontWeight(fontWeight);
     }
     
-    // Line height
-    const lineHeight = computedStyles['line-height'];
-    if (lineHeight && lineHeight !== 'normal') {
-      if (typeof lineHeight === 'number') {
-        config.lineHeight = {
-          value: lineHeight,
-          unit: 'PIXELS'
-        };
-      }
+    // Line height (unitless and percentages are relative to the font size)
+    const lineHeight = TextMapper.lineHeight(computedStyles);
+    if (lineHeight.unit !== 'AUTO') {
+      config.lineHeight = lineHeight;
     }
     
-    // Letter spacing
-    const letterSpacing = computedStyles['letter-spacing'];
-    if (letterSpacing && letterSpacing !== 'normal') {
-      const value = this.resolveNumber(letterSpacing);
-      if (value) {
-        config.letterSpacing = {
-          value: value,
-          unit: 'PIXELS'
-        };
-      }
+    // Letter spacing (em becomes PERCENT)
+    const letterSpacing = TextMapper.letterSpacing(computedStyles);
+    if (letterSpacing.value !== 0) {
+      config.letterSpacing = letterSpacing;
+    }
+    
+    // Wrapping and truncation against the laid-out width
+    const truncation = TextMapper.truncation(computedStyles);
+    config.textAutoResize = whiteSpace.wrap || truncation.maxLines !== null ? 'HEIGHT' : 'WIDTH_AND_HEIGHT';
+    if (truncation.maxLines !== null) {
+      config.textTruncation = truncation.textTruncation;
+      config.maxLines = truncation.maxLines;
+    }
+    
+    // First-line indent
+    const indent = TextMapper.textIndent(computedStyles, config.width);
+    if (indent > 0) {
+      config.paragraphIndent = indent;
+    }
+    
+    // font-variant-numeric
+    const features = TextMapper.openTypeFeatures(computedStyles);
+    if (Object.keys(features).length > 0) {
+      config.openTypeFeatures = features;
     }
     
     // Text alignment
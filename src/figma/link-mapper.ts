@@ -0,0 +1,143 @@
+/**
+ * Link Mapper
+ *
+ * Maps `<a href>` onto Figma. Inline anchors become hyperlinked text ranges:
+ * URLs stay URL hyperlinks, and in-page `#fragment` links become NODE
+ * hyperlinks to the layer converted from the element with that id. Anchors
+ * that get a frame of their own (cards, buttons) keep their URL in plugin
+ * data and open it from an ON_CLICK prototype reaction. Fragment targets may
+ * be converted after the link, so links are collected during conversion and
+ * applied once the design is complete.
+ */
+
+import { ParsedElement } from '../parsers/simple-html-parser';
+
+interface TextLink {
+  node: TextNode;
+  start: number;
+  end: number;
+  href: string;
+}
+
+interface BlockLink {
+  node: FrameNode;
+  href: string;
+}
+
+export class LinkMapper {
+  private textLinks: TextLink[] = [];
+  private blockLinks: BlockLink[] = [];
+
+  /**
+   * The link target of an anchor, or null for other elements, anchors
+   * without a target and `javascript:` pseudo-links
+   */
+  static hrefOf(element: Pick<ParsedElement, 'tagName' | 'attributes'> | undefined): string | null {
+    if (element?.tagName !== 'a') return null;
+    const href = String(element.attributes?.href ?? '').trim();
+    if (!href || /^javascript:/i.test(href)) return null;
+    return href;
+  }
+
+  addTextLink(node: TextNode, start: number, end: number, href: string): void {
+    this.textLinks.push({ node, start, end, href });
+  }
+
+  addBlockLink(node: FrameNode, href: string): void {
+    node.setPluginData('href', href);
+    this.blockLinks.push({ node, href });
+  }
+
+  /**
+   * Apply the links collected so far. `elementNodes` maps parsed elements
+   * to their layers; `#` and `#top` without a matching id lead to `rootFrame`.
+   */
+  async apply(elementNodes: Map<ParsedElement, SceneNode>, rootFrame: FrameNode): Promise<void> {
+    const textLinks = this.textLinks;
+    const blockLinks = this.blockLinks;
+    this.textLinks = [];
+    this.blockLinks = [];
+    if (textLinks.length === 0 && blockLinks.length === 0) return;
+
+    // Ids of every parsed element, including ones flattened into text ranges
+    const roots = new Set<ParsedElement>();
+    elementNodes.forEach((_, element) => {
+      let root = element;
+      while (root.parent) root = root.parent;
+      roots.add(root);
+    });
+    const ids = new Map<string, ParsedElement>();
+    roots.forEach(root => this.indexIds(root, ids));
+
+    textLinks.forEach(({ node, start, end, href }) => {
+      const target = this.target(href, ids, elementNodes, rootFrame);
+      if (!target) return;
+      try {
+        node.setRangeHyperlink(start, end, target);
+      } catch (error) {
+        console.warn(`⚠️ Could not link "${node.characters.slice(start, end)}" to ${href}:`, error);
+      }
+    });
+
+    for (const { node, href } of blockLinks) {
+      if (href.startsWith('#')) {
+        // Prototype navigation needs a top-level frame, which the target rarely is
+        console.warn(`⚠️ In-page link of "${node.name}" to ${href} kept in plugin data only`);
+        continue;
+      }
+      try {
+        await node.setReactionsAsync([
+          ...node.reactions,
+          { trigger: { type: 'ON_CLICK' }, actions: [{ type: 'URL', url: href }] }
+        ]);
+      } catch (error) {
+        console.warn(`⚠️ Could not add an open-URL reaction to "${node.name}":`, error);
+      }
+    }
+
+    console.log(`✅ Applied ${textLinks.length} text link(s) and ${blockLinks.length} block link(s)`);
+  }
+
+  /**
+   * The hyperlink for an href; fragments resolve to the layer of the element
+   * with that id, or of its nearest ancestor that has one
+   */
+  private target(
+    href: string,
+    ids: Map<string, ParsedElement>,
+    elementNodes: Map<ParsedElement, SceneNode>,
+    rootFrame: FrameNode
+  ): HyperlinkTarget | null {
+    if (!href.startsWith('#')) {
+      return { type: 'URL', value: href };
+    }
+
+    let id = href.slice(1);
+    try {
+      id = decodeURIComponent(id);
+    } catch (error) {
+      // Keep malformed escapes as written
+    }
+
+    for (let element: ParsedElement | undefined = ids.get(id); element; element = element.parent) {
+      const node = elementNodes.get(element);
+      if (node && !node.removed) {
+        return { type: 'NODE', value: node.id };
+      }
+    }
+    if (id === '' || id.toLowerCase() === 'top') {
+      return { type: 'NODE', value: rootFrame.id };
+    }
+
+    console.warn(`⚠️ No element with id "${id}" for link ${href}`);
+    return null;
+  }
+
+  private indexIds(element: ParsedElement, ids: Map<string, ParsedElement>): void {
+    const id = element.id || element.attributes?.id;
+    if (id && !ids.has(id)) {
+      ids.set(id, element);
+    }
+    (element.children || []).forEach(child => this.indexIds(child, ids));
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Local Style Registry
+ *
+ * Deduplicates colors, text styles and shadows into named local paint, text
+ * and effect styles. Styles are keyed by value, so every node with the same
+ * color/typography/shadow references one style. Existing local styles can be
+ * indexed first so matching values reuse them instead of creating new ones.
+ */
+
+export interface TextStyleSpec {
+  fontName: FontName;
+  fontSize: number;
+  lineHeight: LineHeight;
+  letterSpacing: LetterSpacing;
+}
+
+export interface LocalStyleOptions {
+  /** Create styles for values no existing style matches */
+  createLocalStyles: boolean;
+  /** Match against the file's local styles before creating new ones */
+  useExistingStyles: boolean;
+}
+
+export class LocalStyleRegistry {
+  private paintStyles = new Map<string, string>();
+  private textStyles = new Map<string, string>();
+  private effectStyles = new Map<string, string>();
+  private usedNames = new Set<string>();
+  private createdCount = 0;
+  private reusedCount = 0;
+
+  constructor(private readonly options: LocalStyleOptions) {}
+
+  /**
+   * Index the file's existing local styles (only with `useExistingStyles`)
+   */
+  async load(): Promise<void> {
+    if (!this.options.useExistingStyles) return;
+
+    const [paints, texts, effects] = await Promise.all([
+      figma.getLocalPaintStylesAsync(),
+      figma.getLocalTextStylesAsync(),
+      figma.getLocalEffectStylesAsync()
+    ]);
+
+    paints.forEach(style => {
+      const key = this.paintKey(style.paints);
+      if (key && !this.paintStyles.has(key)) this.paintStyles.set(key, style.id);
+    });
+    texts.forEach(style => {
+      const key = this.textKey(style);
+      if (!this.textStyles.has(key)) this.textStyles.set(key, style.id);
+    });
+    effects.forEach(style => {
+      const key = this.effectKey(style.effects);
+      if (key && !this.effectStyles.has(key)) this.effectStyles.set(key, style.id);
+    });
+    [...paints, ...texts, ...effects].forEach(style => this.usedNames.add(style.name));
+
+    console.log(`🎨 Indexed ${paints.length} paint, ${texts.length} text and ${effects.length} effect styles`);
+  }
+
+  /**
+   * Id of the paint style for a solid color, creating it if needed
+   */
+  paintStyleFor(paints: ReadonlyArray<Paint>, name: string): string | null {
+    const key = this.paintKey(paints);
+    if (!key) return null;
+
+    return this.lookup(this.paintStyles, key, () => {
+      const style = figma.createPaintStyle();
+      style.name = this.uniqueName(name);
+      style.paints = paints;
+      return style.id;
+    });
+  }
+
+  /**
+   * Id of the text style for a typography spec, creating it if needed.
+   * The font has to be loaded before a text style can use it.
+   */
+  async textStyleFor(spec: TextStyleSpec, name: string): Promise<string | null> {
+    const key = this.textKey(spec);
+    if (!this.textStyles.has(key) && this.options.createLocalStyles) {
+      try {
+        await figma.loadFontAsync(spec.fontName);
+      } catch (error) {
+        console.warn(`⚠️ Skipping text style "${name}": font ${spec.fontName.family} ${spec.fontName.style} unavailable`);
+        return null;
+      }
+    }
+
+    return this.lookup(this.textStyles, key, () => {
+      const style = figma.createTextStyle();
+      style.name = this.uniqueName(name);
+      style.fontName = spec.fontName;
+      style.fontSize = spec.fontSize;
+      style.lineHeight = spec.lineHeight;
+      style.letterSpacing = spec.letterSpacing;
+      return style.id;
+    });
+  }
+
+  /**
+   * Id of the effect style for a set of shadows, creating it if needed
+   */
+  effectStyleFor(effects: ReadonlyArray<Effect>, name: string): string | null {
+    const key = this.effectKey(effects);
+    if (!key) return null;
+
+    return this.lookup(this.effectStyles, key, () => {
+      const style = figma.createEffectStyle();
+      style.name = this.uniqueName(name);
+      style.effects = effects;
+      return style.id;
+    });
+  }
+
+  get summary(): string {
+    return `${this.createdCount} created, ${this.reusedCount} reused`;
+  }
+
+  private lookup(index: Map<string, string>, key: string, create: () => string | null): string | null {
+    const existing = index.get(key);
+    if (existing) {
+      this.reusedCount++;
+      return existing;
+    }
+    if (!this.options.createLocalStyles) return null;
+
+    const id = create();
+    if (id) {
+      index.set(key, id);
+      this.createdCount++;
+    }
+    return id;
+  }
+
+  /**
+   * Different values that want the same name get a numeric suffix
+   */
+  private uniqueName(name: string): string {
+    let candidate = name;
+    for (let i = 2; this.usedNames.has(candidate); i++) {
+      candidate = `${name} ${i}`;
+    }
+    this.usedNames.add(candidate);
+    return candidate;
+  }
+
+  private paintKey(paints: ReadonlyArray<Paint>): string | null {
+    if (paints.length !== 1 || paints[0].type !== 'SOLID') return null;
+
+    const { color, opacity } = paints[0];
+    return 'solid:' + [color.r, color.g, color.b, opacity ?? 1].map(v => this.round(v)).join(':');
+  }
+
+  private textKey(spec: TextStyleSpec): string {
+    const lineHeight = spec.lineHeight.unit === 'AUTO'
+      ? 'auto'
+      : `${this.round(spec.lineHeight.value)}${spec.lineHeight.unit}`;
+    return [
+      spec.fontName.family,
+      spec.fontName.style,
+      this.round(spec.fontSize),
+      lineHeight,
+      `${this.round(spec.letterSpacing.value)}${spec.letterSpacing.unit}`
+    ].join('|');
+  }
+
+  private effectKey(effects: ReadonlyArray<Effect>): string | null {
+    const shadows = effects.filter(effect => effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW');
+    if (shadows.length === 0 || shadows.length !== effects.length) return null;
+
+    return shadows.map(shadow => {
+      const { color, offset, radius, spread } = shadow as DropShadowEffect;
+      return [shadow.type, color.r, color.g, color.b, color.a, offset.x, offset.y, radius, spread ?? 0]
+        .map(v => typeof v === 'number' ? this.round(v) : v)
+        .join(':');
+    }).join(',');
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * Position Mapper
+ *
+ * Maps CSS `position` onto Figma. Absolutely positioned and fixed boxes are
+ * taken out of Auto Layout flow (`layoutPositioning = 'ABSOLUTE'`) and placed
+ * from their insets, resolved against the containing block; the insets that
+ * are set decide the constraints. Relative offsets shift the box; inside
+ * Auto Layout it leaves the flow and an empty frame keeps its place. Sticky
+ * boxes stay in flow, as at scroll position 0.
+ */
+
+import { ComputedStyle } from '../engine/css-engine-figma';
+
+export type CSSPosition = 'static' | 'relative' | 'absolute' | 'fixed' | 'sticky';
+
+export interface Insets {
+  top: number | null;
+  right: number | null;
+  bottom: number | null;
+  left: number | null;
+}
+
+export interface ContainingBlock {
+  frame: FrameNode;
+  style: ComputedStyle;
+}
+
+export class PositionMapper {
+
+  static positionOf(computedStyle: ComputedStyle): CSSPosition {
+    const position = String(computedStyle.position || 'static').trim().toLowerCase();
+    return ['relative', 'absolute', 'fixed', 'sticky'].includes(position) ? position as CSSPosition : 'static';
+  }
+
+  /**
+   * Positioned boxes are the containing block of absolutely positioned descendants
+   */
+  static isPositioned(computedStyle: ComputedStyle): boolean {
+    return this.positionOf(computedStyle) !== 'static';
+  }
+
+  static isOutOfFlow(computedStyle: ComputedStyle): boolean {
+    const position = this.positionOf(computedStyle);
+    return position === 'absolute' || position === 'fixed';
+  }
+
+  /**
+   * top/right/bottom/left in pixels; percentages refer to the containing
+   * block's height (top/bottom) or width (left/right), `auto` is null
+   */
+  static resolveInsets(computedStyle: ComputedStyle, containingBlock: { width: number; height: number }): Insets {
+    const inset = (property: keyof Insets, basis: number): number | null => {
+      const value = computedStyle[property];
+      if (typeof value === 'number') return value;
+      if (!value || value === 'auto') return null;
+
+      const num = parseFloat(value);
+      if (isNaN(num)) return null;
+      return value.trim().endsWith('%') ? num / 100 * basis : num;
+    };
+
+    return {
+      top: inset('top', containingBlock.height),
+      right: inset('right', containingBlock.width),
+      bottom: inset('bottom', containingBlock.height),
+      left: inset('left', containingBlock.width)
+    };
+  }
+
+  /**
+   * Constraints that keep the box pinned the way its insets pin it
+   */
+  static constraintsFor(insets: Insets): Constraints {
+    const axis = (start: number | null, end: number | null): ConstraintType => {
+      if (start !== null && end !== null) return 'STRETCH';
+      if (end !== null) return 'MAX';
+      return 'MIN';
+    };
+
+    return {
+      horizontal: axis(insets.left, insets.right),
+      vertical: axis(insets.top, insets.bottom)
+    };
+  }
+
+  /**
+   * Take an absolute/fixed box out of flow and place it in its containing
+   * block. Boxes whose insets are all `auto` keep their static position.
+   */
+  static placeOutOfFlow(node: SceneNode & LayoutMixin, computedStyle: ComputedStyle, containingBlock: ContainingBlock): void {
+    const parent = node.parent;
+    if (!parent || parent.type === 'PAGE' || parent.type === 'DOCUMENT') return;
+
+    // Padding box of the containing block, in the containing block's coordinates
+    const cbStyle = containingBlock.style;
+    const borderLeft = this.pixels(cbStyle['border-left-width']);
+    const borderTop = this.pixels(cbStyle['border-top-width']);
+    const cbBox = {
+      width: containingBlock.frame.width - borderLeft - this.pixels(cbStyle['border-right-width']),
+      height: containingBlock.frame.height - borderTop - this.pixels(cbStyle['border-bottom-width'])
+    };
+    const insets = this.resolveInsets(computedStyle, cbBox);
+
+    // Static position, before leaving the flow
+    const staticX = node.x;
+    const staticY = node.y;
+
+    if ('layoutMode' in parent && parent.layoutMode !== 'NONE') {
+      // FILL sizing only means something inside the flow
+      if (node.layoutSizingHorizontal === 'FILL') node.layoutSizingHorizontal = 'FIXED';
+      if (node.layoutSizingVertical === 'FILL') node.layoutSizingVertical = 'FIXED';
+      node.layoutPositioning = 'ABSOLUTE';
+    }
+
+    // Both insets on an axis with an auto size stretch the box between them
+    let width = node.width;
+    let height = node.height;
+    if (insets.left !== null && insets.right !== null && this.isAuto(computedStyle.width)) {
+      width = Math.max(0, cbBox.width - insets.left - insets.right);
+    }
+    if (insets.top !== null && insets.bottom !== null && this.isAuto(computedStyle.height)) {
+      height = Math.max(0, cbBox.height - insets.top - insets.bottom);
+    }
+    if (width !== node.width || height !== node.height) {
+      node.resize(Math.max(1, Math.round(width)), Math.max(1, Math.round(height)));
+    }
+
+    // Offset of the parent inside the containing block
+    const origin = this.offsetWithin(parent as SceneNode, containingBlock.frame);
+
+    if (insets.left !== null) {
+      node.x = borderLeft + insets.left - origin.x;
+    } else if (insets.right !== null) {
+      node.x = borderLeft + cbBox.width - insets.right - node.width - origin.x;
+    } else {
+      node.x = staticX;
+    }
+
+    if (insets.top !== null) {
+      node.y = borderTop + insets.top - origin.y;
+    } else if (insets.bottom !== null) {
+      node.y = borderTop + cbBox.height - insets.bottom - node.height - origin.y;
+    } else {
+      node.y = staticY;
+    }
+
+    if ('constraints' in node) {
+      node.constraints = this.constraintsFor(insets);
+    }
+  }
+
+  /**
+   * Shift a relatively positioned box. Auto Layout owns the position of
+   * in-flow children, so there the box leaves the flow first.
+   */
+  static applyRelativeOffset(node: SceneNode & LayoutMixin, computedStyle: ComputedStyle): void {
+    const parent = node.parent;
+    const insets = this.resolveInsets(computedStyle, {
+      width: parent && 'width' in parent ? parent.width : 0,
+      height: parent && 'height' in parent ? parent.height : 0
+    });
+    const dx = insets.left ?? (insets.right !== null ? -insets.right : 0);
+    const dy = insets.top ?? (insets.bottom !== null ? -insets.bottom : 0);
+    if (dx === 0 && dy === 0) return;
+
+    if (parent && parent.type === 'FRAME' && parent.layoutMode !== 'NONE' && node.layoutPositioning !== 'ABSOLUTE') {
+      this.keepLayoutSpace(node, parent);
+    }
+
+    node.x += dx;
+    node.y += dy;
+  }
+
+  /**
+   * Take an Auto Layout child out of the flow without moving it, leaving an
+   * empty frame of the same size in its place
+   */
+  static keepLayoutSpace(node: SceneNode & LayoutMixin, parent: FrameNode): void {
+    const x = node.x;
+    const y = node.y;
+
+    const spacer = figma.createFrame();
+    spacer.name = `${node.name} (layout space)`;
+    spacer.fills = [];
+    parent.insertChild(parent.children.indexOf(node), spacer);
+    spacer.resize(Math.max(0.01, node.width), Math.max(0.01, node.height));
+    spacer.layoutSizingHorizontal = node.layoutSizingHorizontal === 'FILL' ? 'FILL' : 'FIXED';
+    spacer.layoutSizingVertical = node.layoutSizingVertical === 'FILL' ? 'FILL' : 'FIXED';
+
+    if (node.layoutSizingHorizontal === 'FILL') node.layoutSizingHorizontal = 'FIXED';
+    if (node.layoutSizingVertical === 'FILL') node.layoutSizingVertical = 'FIXED';
+    node.layoutPositioning = 'ABSOLUTE';
+    node.x = x;
+    node.y = y;
+  }
+
+  /**
+   * Move an Auto Layout child by (dx, dy) while it keeps its place in the
+   * flow: a transparent frame takes over the child's slot and holds the
+   * child at the offset. Returns the frame.
+   */
+  static offsetInLayout(node: SceneNode & LayoutMixin, parent: FrameNode, dx: number, dy: number): FrameNode {
+    const slot = figma.createFrame();
+    slot.name = node.name;
+    slot.fills = [];
+    slot.clipsContent = false;
+    parent.insertChild(parent.children.indexOf(node), slot);
+    slot.resize(Math.max(0.01, node.width), Math.max(0.01, node.height));
+    slot.layoutSizingHorizontal = node.layoutSizingHorizontal === 'FILL' ? 'FILL' : 'FIXED';
+    slot.layoutSizingVertical = node.layoutSizingVertical === 'FILL' ? 'FILL' : 'FIXED';
+
+    if (node.layoutSizingHorizontal === 'FILL') node.layoutSizingHorizontal = 'FIXED';
+    if (node.layoutSizingVertical === 'FILL') node.layoutSizingVertical = 'FIXED';
+    slot.appendChild(node);
+    node.x = dx;
+    node.y = dy;
+    return slot;
+  }
+
+  /**
+   * Position of a node's origin relative to an ancestor's origin
+   */
+  private static offsetWithin(node: SceneNode, ancestor: FrameNode): { x: number; y: number } {
+    if (node === ancestor) return { x: 0, y: 0 };
+
+    const [[, , nodeX], [, , nodeY]] = node.absoluteTransform;
+    const [[, , ancestorX], [, , ancestorY]] = ancestor.absoluteTransform;
+    return { x: nodeX - ancestorX, y: nodeY - ancestorY };
+  }
+
+  private static isAuto(value: string | number | undefined): boolean {
+    return value === undefined || value === 'auto' || value === '';
+  }
+
+  private static pixels(value: string | number | undefined): number {
+    const num = typeof value === 'number' ? value : parseFloat(value || '');
+    return isNaN(num) ? 0 : num;
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Stacking Mapper
+ *
+ * Reorders layers to follow the CSS painting order instead of DOM order.
+ * Within a stacking context, children paint as
+ *   1. negative z-index, 2. in-flow non-positioned boxes,
+ *   3. positioned boxes with z-index auto/0 (and other stacking contexts),
+ *   4. positive z-index
+ * with DOM order breaking ties. Figma stacks strictly by tree, so
+ * out-of-flow boxes with a z-index are first hoisted into the frame of their
+ * stacking context, keeping their on-canvas position.
+ */
+
+import { ComputedStyle } from '../engine/css-engine-figma';
+import { PositionMapper } from './position-mapper';
+
+/** [paint group, z-index] */
+type PaintOrderKey = [number, number];
+
+export class StackingMapper {
+
+  /**
+   * Integer z-index, or null for `auto`
+   */
+  static zIndex(computedStyle: ComputedStyle | undefined): number | null {
+    const value = computedStyle?.['z-index'];
+    if (value === undefined || value === 'auto') return null;
+
+    const num = typeof value === 'number' ? value : parseInt(value, 10);
+    return isNaN(num) ? null : num;
+  }
+
+  /**
+   * True for boxes that start a new stacking context: positioned boxes with
+   * a z-index, fixed/sticky boxes, flex/grid items with a z-index, and
+   * boxes with opacity, transforms, filters, blending or isolation
+   */
+  static createsStackingContext(computedStyle: ComputedStyle | undefined, parentStyle?: ComputedStyle): boolean {
+    if (!computedStyle) return false;
+
+    const position = PositionMapper.positionOf(computedStyle);
+    if (position === 'fixed' || position === 'sticky') return true;
+    if (this.zIndex(computedStyle) !== null && (position !== 'static' || this.isFlexOrGridContainer(parentStyle))) {
+      return true;
+    }
+
+    const opacity = parseFloat(String(computedStyle.opacity ?? '1'));
+    if (!isNaN(opacity) && opacity < 1) return true;
+
+    const isSet = (property: string, initial: string) => {
+      const value = computedStyle[property];
+      return value !== undefined && value !== '' && String(value) !== initial;
+    };
+    return isSet('transform', 'none') ||
+      isSet('filter', 'none') ||
+      isSet('backdrop-filter', 'none') ||
+      isSet('mix-blend-mode', 'normal') ||
+      isSet('isolation', 'auto');
+  }
+
+  /**
+   * Where a child paints within its parent's stacking context
+   */
+  static paintOrderKey(computedStyle: ComputedStyle | undefined, parentStyle?: ComputedStyle): PaintOrderKey {
+    if (!computedStyle) return [1, 0];
+
+    const zIndex = this.zIndex(computedStyle);
+    const positioned = PositionMapper.isPositioned(computedStyle) ||
+      (zIndex !== null && this.isFlexOrGridContainer(parentStyle));
+
+    if (positioned && zIndex !== null && zIndex !== 0) {
+      return zIndex < 0 ? [0, zIndex] : [3, zIndex];
+    }
+    if (positioned || this.createsStackingContext(computedStyle, parentStyle)) {
+      return [2, 0];
+    }
+    return [1, 0];
+  }
+
+  /**
+   * Move a node into another frame without moving it on the canvas; it
+   * becomes the topmost child unless an `index` is given
+   */
+  static hoist(node: SceneNode & LayoutMixin, target: FrameNode, index = target.children.length): void {
+    const [[, , nodeX], [, , nodeY]] = node.absoluteTransform;
+    const [[, , targetX], [, , targetY]] = target.absoluteTransform;
+
+    target.insertChild(index, node);
+    if (target.layoutMode !== 'NONE') {
+      node.layoutPositioning = 'ABSOLUTE';
+    }
+    node.x = nodeX - targetX;
+    node.y = nodeY - targetY;
+  }
+
+  /**
+   * Reorder a frame's children by paint order. In Auto Layout frames the
+   * in-flow children also define the layout, so they keep their relative
+   * order and only absolutely positioned children move between them.
+   * `pinnedOnTop` children (fixed children of the root) stay topmost.
+   * Returns true when the order changed.
+   */
+  static orderChildren(
+    frame: FrameNode,
+    styleOf: (node: SceneNode) => ComputedStyle | undefined,
+    pinnedOnTop: Set<SceneNode> = new Set()
+  ): boolean {
+    const parentStyle = styleOf(frame);
+    const entries = frame.children.map((node, index) => ({
+      node,
+      index,
+      key: this.paintOrderKey(styleOf(node), parentStyle)
+    }));
+    if (entries.every(entry => entry.key[0] === 1)) return false;
+
+    const compare = (a: typeof entries[number], b: typeof entries[number]) =>
+      a.key[0] - b.key[0] || a.key[1] - b.key[1] || a.index - b.index;
+
+    let ordered: typeof entries;
+    if (frame.layoutMode === 'NONE') {
+      ordered = [...entries].sort(compare);
+    } else {
+      const inFlow = entries.filter(entry => !this.isAbsolute(entry.node));
+      const outOfFlow = entries.filter(entry => this.isAbsolute(entry.node)).sort(compare);
+
+      if (inFlow.some((entry, i) => i > 0 && compare(inFlow[i - 1], entry) > 0)) {
+        console.warn(`⚠️ z-index between in-flow children of Auto Layout frame "${frame.name}" can't be represented`);
+      }
+
+      // Merge the out-of-flow children into the fixed in-flow sequence
+      ordered = [];
+      let j = 0;
+      inFlow.forEach(entry => {
+        while (j < outOfFlow.length && compare(outOfFlow[j], entry) < 0) ordered.push(outOfFlow[j++]);
+        ordered.push(entry);
+      });
+      ordered.push(...outOfFlow.slice(j));
+    }
+
+    ordered = [
+      ...ordered.filter(entry => !pinnedOnTop.has(entry.node)),
+      ...ordered.filter(entry => pinnedOnTop.has(entry.node))
+    ];
+    if (ordered.every((entry, i) => entry.index === i)) return false;
+
+    ordered.forEach((entry, i) => frame.insertChild(i, entry.node));
+    return true;
+  }
+
+  private static isAbsolute(node: SceneNode): boolean {
+    return 'layoutPositioning' in node && node.layoutPositioning === 'ABSOLUTE';
+  }
+
+  private static isFlexOrGridContainer(parentStyle?: ComputedStyle): boolean {
+    const display = String(parentStyle?.display || '');
+    return /(^|-)(flex|grid)$/.test(display);
+  }
+}
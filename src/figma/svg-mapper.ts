@@ -0,0 +1,173 @@
+/**
+ * SVG Mapper
+ *
+ * Imports inline `<svg>` markup (and `data:image/svg+xml` sources) as Figma
+ * vector nodes via `figma.createNodeFromSvg`. Before import the root is sized
+ * to the element's CSS box and `currentColor` is replaced by the inherited
+ * text color, which Figma's SVG importer doesn't know about.
+ */
+
+import { ParsedElement } from '../parsers/simple-html-parser';
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+export interface SvgPaint {
+  /** Computed `color`, substituted for currentColor */
+  color?: string;
+  /** Computed `fill`/`stroke` from CSS, which win over the root's attributes */
+  fill?: string;
+  stroke?: string;
+}
+
+const ROOT_TAG = /<svg\b([^>]*?)(\/?)>/i;
+
+export class SvgMapper {
+
+  /**
+   * True for `data:image/svg+xml` sources
+   */
+  static isSvgDataUri(src: string): boolean {
+    return /^data:image\/svg\+xml[;,]/i.test(src.trim());
+  }
+
+  /**
+   * Markup of an SVG data URI (base64 or percent-encoded)
+   */
+  static decodeDataUri(src: string): string | null {
+    const comma = src.indexOf(',');
+    if (comma === -1) return null;
+
+    const meta = src.slice(0, comma);
+    const data = src.slice(comma + 1);
+    try {
+      return /;base64$/i.test(meta)
+        ? this.decodeUtf8(figma.base64Decode(data))
+        : decodeURIComponent(data);
+    } catch (error) {
+      console.warn('⚠️ Could not decode SVG data URI:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Markup for an `<svg>` element: the original source when the parser kept
+   * it, otherwise rebuilt from the parsed tree
+   */
+  static serialize(element: ParsedElement): string {
+    if (element.source) return element.source;
+
+    if (element.type === 'text') {
+      return this.escape(element.content || '');
+    }
+
+    const attributes = Object.entries(element.attributes || {})
+      .map(([name, value]) => ` ${name}="${this.escape(value)}"`)
+      .join('');
+    const children = element.children.map(child => this.serialize(child)).join('');
+    return `<${element.tagName}${attributes}>${children}</${element.tagName}>`;
+  }
+
+  /**
+   * Size the root to the CSS box and resolve currentColor and CSS paints
+   */
+  static prepare(markup: string, size: Size, paint: SvgPaint = {}): string {
+    let svg = markup.trim();
+    if (paint.color) {
+      svg = svg.replace(/currentColor/gi, paint.color);
+    }
+
+    const root = svg.match(ROOT_TAG);
+    if (!root) return svg;
+
+    let attributes = root[1].replace(/\s(width|height)\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/gi, '');
+    if (!/\sxmlns\s*=/.test(attributes)) {
+      attributes += ' xmlns="http://www.w3.org/2000/svg"';
+    }
+    attributes += ` width="${size.width}" height="${size.height}"`;
+
+    (['fill', 'stroke'] as const).forEach(property => {
+      const value = paint[property];
+      if (!value) return;
+      const resolved = /^currentColor$/i.test(value) && paint.color ? paint.color : value;
+      attributes = attributes.replace(new RegExp(`\\s${property}\\s*=\\s*("[^"]*"|'[^']*'|[^\\s>]+)`, 'i'), '');
+      attributes += ` ${property}="${this.escape(resolved)}"`;
+    });
+
+    return svg.replace(ROOT_TAG, `<svg${attributes}${root[2]}>`);
+  }
+
+  /**
+   * Size from the root's width/height attributes, falling back to its viewBox
+   */
+  static intrinsicSize(markup: string): Size | null {
+    const root = markup.match(ROOT_TAG);
+    if (!root) return null;
+
+    const attribute = (name: string): string | null => {
+      const match = root[1].match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+      return match ? (match[1] ?? match[2] ?? match[3]) : null;
+    };
+
+    const viewBox = (attribute('viewBox') || '').trim().split(/[\s,]+/).map(parseFloat);
+    const fromViewBox = viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0
+      ? { width: viewBox[2], height: viewBox[3] }
+      : null;
+
+    // Percentages and other relative sizes depend on the layout
+    const length = (value: string | null): number | null =>
+      value && /^\s*[\d.]+(px)?\s*$/.test(value) ? parseFloat(value) : null;
+    const width = length(attribute('width'));
+    const height = length(attribute('height'));
+
+    if (width !== null && height !== null) return { width, height };
+    if (fromViewBox) {
+      if (width !== null) return { width, height: width * fromViewBox.height / fromViewBox.width };
+      if (height !== null) return { width: height * fromViewBox.width / fromViewBox.height, height };
+      return fromViewBox;
+    }
+    return null;
+  }
+
+  /**
+   * Import prepared markup; null when Figma rejects it
+   */
+  static createNode(markup: string, name: string): FrameNode | null {
+    try {
+      const node = figma.createNodeFromSvg(markup);
+      node.name = name;
+      return node;
+    } catch (error) {
+      console.warn(`⚠️ Could not import SVG "${name}":`, error);
+      return null;
+    }
+  }
+
+  private static escape(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;');
+  }
+
+  /**
+   * UTF-8 bytes to a string (the plugin sandbox has no TextDecoder)
+   */
+  private static decodeUtf8(bytes: Uint8Array): string {
+    let result = '';
+    for (let i = 0; i < bytes.length; i++) {
+      const byte = bytes[i];
+      let codePoint: number;
+      if (byte < 0x80) {
+        codePoint = byte;
+      } else if (byte >= 0xf0) {
+        codePoint = ((byte & 0x07) << 18) | ((bytes[++i] & 0x3f) << 12) | ((bytes[++i] & 0x3f) << 6) | (bytes[++i] & 0x3f);
+      } else if (byte >= 0xe0) {
+        codePoint = ((byte & 0x0f) << 12) | ((bytes[++i] & 0x3f) << 6) | (bytes[++i] & 0x3f);
+      } else {
+        codePoint = ((byte & 0x1f) << 6) | (bytes[++i] & 0x3f);
+      }
+      result += String.fromCodePoint(codePoint);
+    }
+    return result;
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Text Mapper
+ *
+ * Maps the CSS text metrics that Figma text layers have counterparts for.
+ * Unitless and percentage line heights become PERCENT line heights (both are
+ * relative to the font size, like Figma's), and `em` letter spacing becomes
+ * PERCENT letter spacing, so ranges keep their proportions at any size.
+ * `white-space` decides how whitespace collapses and whether the layer may
+ * wrap, `text-overflow: ellipsis` and `-webkit-line-clamp` become truncation
+ * with a line limit, and `font-variant-numeric` is translated to OpenType
+ * feature tags.
+ */
+
+import { ComputedStyle } from '../engine/css-engine-figma';
+
+export interface WhiteSpace {
+  /** Runs of spaces and tabs collapse to one space */
+  collapseSpaces: boolean;
+  /** Newlines in the source are kept as line breaks */
+  keepNewlines: boolean;
+  /** Lines wrap at the container's width */
+  wrap: boolean;
+}
+
+export interface TextTruncation {
+  textTruncation: 'DISABLED' | 'ENDING';
+  maxLines: number | null;
+}
+
+const WHITE_SPACE: Record<string, WhiteSpace> = {
+  'normal': { collapseSpaces: true, keepNewlines: false, wrap: true },
+  'nowrap': { collapseSpaces: true, keepNewlines: false, wrap: false },
+  'pre': { collapseSpaces: false, keepNewlines: true, wrap: false },
+  'pre-wrap': { collapseSpaces: false, keepNewlines: true, wrap: true },
+  'break-spaces': { collapseSpaces: false, keepNewlines: true, wrap: true },
+  'pre-line': { collapseSpaces: true, keepNewlines: true, wrap: true }
+};
+
+/** OpenType features for `font-variant-numeric` keywords */
+const NUMERIC_FEATURES: Record<string, string> = {
+  'lining-nums': 'LNUM',
+  'oldstyle-nums': 'ONUM',
+  'proportional-nums': 'PNUM',
+  'tabular-nums': 'TNUM',
+  'diagonal-fractions': 'FRAC',
+  'stacked-fractions': 'AFRC',
+  'ordinal': 'ORDN',
+  'slashed-zero': 'ZERO'
+};
+
+const ROOT_FONT_SIZE = 16;
+
+export class TextMapper {
+
+  /**
+   * `line-height`; lengths the engine resolved arrive as numbers of pixels
+   */
+  static lineHeight(computedStyle: ComputedStyle): LineHeight {
+    const value = computedStyle['line-height'];
+    if (typeof value === 'number') return { value, unit: 'PIXELS' };
+
+    const text = String(value ?? '').trim().toLowerCase();
+    const num = parseFloat(text);
+    if (!text || text === 'normal' || isNaN(num) || num < 0) return { unit: 'AUTO' };
+
+    if (/^[\d.]+$/.test(text) || text.endsWith('%') || /\d(em)$/.test(text)) {
+      return { value: text.endsWith('%') ? num : num * 100, unit: 'PERCENT' };
+    }
+    return { value: text.endsWith('rem') ? num * ROOT_FONT_SIZE : num, unit: 'PIXELS' };
+  }
+
+  /**
+   * `letter-spacing`; `em` and percentages are relative to the font size
+   */
+  static letterSpacing(computedStyle: ComputedStyle): LetterSpacing {
+    const value = computedStyle['letter-spacing'];
+    if (typeof value === 'number') return { value, unit: 'PIXELS' };
+
+    const text = String(value ?? '').trim().toLowerCase();
+    const num = parseFloat(text);
+    if (isNaN(num)) return { value: 0, unit: 'PIXELS' };
+
+    if (text.endsWith('%')) return { value: num, unit: 'PERCENT' };
+    if (/\d(em)$/.test(text)) return { value: num * 100, unit: 'PERCENT' };
+    return { value: text.endsWith('rem') ? num * ROOT_FONT_SIZE : num, unit: 'PIXELS' };
+  }
+
+  static whiteSpace(computedStyle: ComputedStyle): WhiteSpace {
+    const value = String(computedStyle['white-space'] || 'normal').trim().toLowerCase();
+    return WHITE_SPACE[value] || WHITE_SPACE.normal;
+  }
+
+  /**
+   * Text with its whitespace processed as `white-space` prescribes
+   */
+  static collapseWhitespace(text: string, whiteSpace: WhiteSpace): string {
+    if (!whiteSpace.collapseSpaces) return text.replace(/\r\n?/g, '\n');
+    if (!whiteSpace.keepNewlines) return text.replace(/\s+/g, ' ');
+    return text
+      .replace(/\r\n?/g, '\n')
+      .replace(/[^\S\n]+/g, ' ')
+      .replace(/ ?\n ?/g, '\n');
+  }
+
+  /**
+   * Truncation of a block container's text: `-webkit-line-clamp` limits the
+   * lines, and `text-overflow: ellipsis` on unwrapped text clipped by its
+   * overflow truncates its single line
+   */
+  static truncation(containerStyle: ComputedStyle): TextTruncation {
+    const clamp = parseInt(String(containerStyle['-webkit-line-clamp'] ?? containerStyle['line-clamp'] ?? ''), 10);
+    if (clamp > 0) {
+      return { textTruncation: 'ENDING', maxLines: clamp };
+    }
+
+    const ellipsis = String(containerStyle['text-overflow'] || '').trim().toLowerCase() === 'ellipsis';
+    const clipped = ['overflow', 'overflow-x']
+      .some(property => containerStyle[property] && containerStyle[property] !== 'visible');
+    if (ellipsis && clipped && !this.whiteSpace(containerStyle).wrap) {
+      return { textTruncation: 'ENDING', maxLines: 1 };
+    }
+    return { textTruncation: 'DISABLED', maxLines: null };
+  }
+
+  /**
+   * First-line indent in pixels; percentages refer to the container's
+   * content width, when it is known
+   */
+  static textIndent(computedStyle: ComputedStyle, contentWidth: number | null): number {
+    const value = computedStyle['text-indent'];
+    if (typeof value === 'number') return value;
+
+    const text = String(value ?? '').trim();
+    const num = parseFloat(text);
+    if (isNaN(num)) return 0;
+    if (text.endsWith('%')) return contentWidth !== null ? num / 100 * contentWidth : 0;
+    return text.endsWith('rem') ? num * ROOT_FONT_SIZE : num;
+  }
+
+  /**
+   * Width of a container's content box, or null unless its width is fixed
+   */
+  static contentWidth(containerStyle: ComputedStyle): number | null {
+    const width = containerStyle.width;
+    if (typeof width !== 'number' || width <= 0) return null;
+    if (containerStyle['box-sizing'] !== 'border-box') return width;
+
+    const pixels = (property: string) => {
+      const value = parseFloat(String(containerStyle[property] ?? 0));
+      return isNaN(value) ? 0 : value;
+    };
+    const style = (side: string) => String(containerStyle[`border-${side}-style`] || 'none');
+    const border = (side: string) => style(side) === 'none' || style(side) === 'hidden' ? 0 : pixels(`border-${side}-width`);
+    return Math.max(0, width - pixels('padding-left') - pixels('padding-right') - border('left') - border('right'));
+  }
+
+  /**
+   * OpenType features for `font-variant-numeric`, e.g. `{ TNUM: true }`
+   */
+  static openTypeFeatures(computedStyle: ComputedStyle): Record<string, boolean> {
+    const features: Record<string, boolean> = {};
+    String(computedStyle['font-variant-numeric'] || '')
+      .toLowerCase()
+      .split(/\s+/)
+      .forEach(keyword => {
+        if (NUMERIC_FEATURES[keyword]) features[NUMERIC_FEATURES[keyword]] = true;
+      });
+    return features;
+  }
+}
@@ -0,0 +1,279 @@
+/**
+ * Transform Mapper
+ *
+ * Parses CSS `transform` lists (and the individual `translate`, `rotate` and
+ * `scale` properties) into a 2D affine matrix and applies it to a node's
+ * `relativeTransform` around `transform-origin`. Figma keeps scale in the
+ * node's size, so the matrix is split into a scale, applied by resizing
+ * (uniform scales also scale strokes and text), and the remaining rotation,
+ * skew and flip.
+ */
+
+import { ComputedStyle } from '../engine/css-engine-figma';
+import { ValueResolver } from '../engine/value-resolver';
+import { CalcContext, CalcEvaluator } from '../engine/calc-evaluator';
+import { MediaEnvironment } from '../engine/media-query-evaluator';
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+const IDENTITY: Transform = [[1, 0, 0], [0, 1, 0]];
+const EPSILON = 1e-6;
+const DEFAULT_VIEWPORT: MediaEnvironment = { width: 1920, height: 1080 };
+
+export class TransformMapper {
+
+  /**
+   * Matrix of the element's transforms in its own box coordinates, or null
+   * when nothing is transformed. Individual properties apply first, in the
+   * order translate, rotate, scale, as in CSS. Arguments may use calc()
+   * and relative units.
+   */
+  static parseTransform(computedStyle: ComputedStyle, box: Size, viewport: MediaEnvironment = DEFAULT_VIEWPORT): Transform | null {
+    const individual = [
+      this.property(computedStyle.translate, value => `translate(${ValueResolver.splitTopLevel(value, ' ').join(', ')})`),
+      this.property(computedStyle.rotate, value => `rotate(${ValueResolver.splitTopLevel(value, ' ').pop()})`),
+      this.property(computedStyle.scale, value => `scale(${ValueResolver.splitTopLevel(value, ' ').slice(0, 2).join(', ')})`),
+      this.property(computedStyle.transform, value => value)
+    ].filter(Boolean).join(' ');
+    if (!individual) return null;
+
+    const context = this.calcContext(computedStyle, viewport);
+    let matrix = IDENTITY;
+    for (const fn of ValueResolver.splitTopLevel(individual, ' ')) {
+      const parsed = this.parseFunction(fn, box, context);
+      if (!parsed) {
+        console.warn(`⚠️ Unsupported transform function: ${fn}`);
+        continue;
+      }
+      matrix = this.multiply(matrix, parsed);
+    }
+
+    return this.isIdentity(matrix) ? null : matrix;
+  }
+
+  /**
+   * transform-origin in pixels from the box's top left (default: center)
+   */
+  static parseOrigin(computedStyle: ComputedStyle, box: Size, viewport: MediaEnvironment = DEFAULT_VIEWPORT): { x: number; y: number } {
+    const parts = ValueResolver.splitTopLevel(String(computedStyle['transform-origin'] ?? '').trim().toLowerCase(), ' ');
+    if (parts.length === 0) return { x: box.width / 2, y: box.height / 2 };
+
+    const context = this.calcContext(computedStyle, viewport);
+
+    // A single vertical keyword, or a vertical keyword first, swaps the axes
+    let [horizontal, vertical = 'center'] = parts;
+    if (horizontal === 'top' || horizontal === 'bottom' || vertical === 'left' || vertical === 'right') {
+      [horizontal, vertical] = [vertical, horizontal];
+    }
+
+    const resolve = (component: string, size: number): number => {
+      switch (component) {
+        case 'left':
+        case 'top': return 0;
+        case 'center': return size / 2;
+        case 'right':
+        case 'bottom': return size;
+        default: return this.pixels(component, size, context);
+      }
+    };
+
+    return { x: resolve(horizontal, box.width), y: resolve(vertical, box.height) };
+  }
+
+  /**
+   * The transform around its origin, placed at the box's layout position
+   * (x, y) in the parent: T(x, y) · T(origin) · M · T(-origin)
+   */
+  static placeAt(matrix: Transform, origin: { x: number; y: number }, x: number, y: number): Transform {
+    const [[a, c, e], [b, d, f]] = matrix;
+    return [
+      [a, c, x + origin.x - a * origin.x - c * origin.y + e],
+      [b, d, y + origin.y - b * origin.x - d * origin.y + f]
+    ];
+  }
+
+  /**
+   * True when the matrix only moves the box
+   */
+  static isTranslation(matrix: Transform): boolean {
+    const [[a, c], [b, d]] = matrix;
+    return Math.abs(a - 1) < EPSILON && Math.abs(d - 1) < EPSILON && Math.abs(b) < EPSILON && Math.abs(c) < EPSILON;
+  }
+
+  /**
+   * Split the linear part into scale factors and the rotation/skew/flip that
+   * remains once the scale is taken out: L = N · diag(scaleX, scaleY)
+   */
+  static decompose(matrix: Transform): { scaleX: number; scaleY: number; linear: [[number, number], [number, number]] } {
+    const [[a, c], [b, d]] = matrix;
+    const scaleX = Math.hypot(a, b);
+    const scaleY = scaleX > EPSILON ? Math.abs(a * d - b * c) / scaleX : Math.hypot(c, d);
+
+    const safeX = scaleX > EPSILON ? scaleX : 1;
+    const safeY = scaleY > EPSILON ? scaleY : 1;
+    return {
+      scaleX,
+      scaleY,
+      linear: [[a / safeX, c / safeY], [b / safeX, d / safeY]]
+    };
+  }
+
+  /**
+   * Apply a transform to a node laid out at its current x/y. Returns false
+   * when the matrix is degenerate (e.g. scale(0)) and the node was left alone.
+   */
+  static apply(node: SceneNode & LayoutMixin, matrix: Transform, origin: { x: number; y: number }): boolean {
+    const { scaleX, scaleY, linear } = this.decompose(matrix);
+    if (scaleX < EPSILON || scaleY < EPSILON) {
+      console.warn(`⚠️ Transform of "${node.name}" collapses it to nothing; left untransformed`);
+      return false;
+    }
+
+    const x = node.x;
+    const y = node.y;
+    if (this.isTranslation(matrix)) {
+      node.x = x + matrix[0][2];
+      node.y = y + matrix[1][2];
+      return true;
+    }
+    const placed = this.placeAt(matrix, origin, x, y);
+
+    if (Math.abs(scaleX - 1) > EPSILON || Math.abs(scaleY - 1) > EPSILON) {
+      if (Math.abs(scaleX - scaleY) < EPSILON && 'rescale' in node) {
+        node.rescale(scaleX);
+      } else {
+        node.resize(Math.max(0.01, node.width * scaleX), Math.max(0.01, node.height * scaleY));
+      }
+    }
+
+    node.relativeTransform = [
+      [linear[0][0], linear[0][1], placed[0][2]],
+      [linear[1][0], linear[1][1], placed[1][2]]
+    ];
+    return true;
+  }
+
+  private static property(value: string | number | undefined, toFunctions: (value: string) => string): string {
+    const text = String(value ?? '').trim();
+    return !text || text === 'none' ? '' : toFunctions(text);
+  }
+
+  /**
+   * Lengths in transform arguments resolve against the element's font size
+   * and the viewport
+   */
+  private static calcContext(computedStyle: ComputedStyle, viewport: MediaEnvironment): CalcContext {
+    const fontSize = computedStyle['font-size'];
+    return {
+      fontSize: typeof fontSize === 'number' ? fontSize : parseFloat(String(fontSize)) || 16,
+      rootFontSize: viewport.rootFontSize || 16,
+      viewportWidth: viewport.width,
+      viewportHeight: viewport.height
+    };
+  }
+
+  private static parseFunction(fn: string, box: Size, context: CalcContext): Transform | null {
+    const open = fn.indexOf('(');
+    if (open <= 0 || !fn.endsWith(')')) return null;
+
+    const name = fn.slice(0, open).toLowerCase();
+    const args = ValueResolver.splitTopLevel(fn.slice(open + 1, -1), ',');
+    const num = (index: number, fallback: number) => {
+      const value = args[index] === undefined ? null : CalcEvaluator.evaluate(args[index], context);
+      return value?.type === 'number' ? value.value : fallback;
+    };
+    const angle = (index: number) => this.angle(args[index] || '0', context) * Math.PI / 180;
+
+    switch (name) {
+      case 'matrix':
+        if (args.length !== 6) return null;
+        return [[num(0, 1), num(2, 0), num(4, 0)], [num(1, 0), num(3, 1), num(5, 0)]];
+      case 'matrix3d':
+        // The 2D part of a column-major 4×4 matrix
+        if (args.length !== 16) return null;
+        return [[num(0, 1), num(4, 0), num(12, 0)], [num(1, 0), num(5, 1), num(13, 0)]];
+      case 'translate':
+      case 'translate3d':
+        return [[1, 0, this.pixels(args[0] || '0', box.width, context)], [0, 1, this.pixels(args[1] || '0', box.height, context)]];
+      case 'translatex':
+        return [[1, 0, this.pixels(args[0] || '0', box.width, context)], [0, 1, 0]];
+      case 'translatey':
+        return [[1, 0, 0], [0, 1, this.pixels(args[0] || '0', box.height, context)]];
+      case 'scale':
+      case 'scale3d':
+        return [[this.factor(args[0], 1, context), 0, 0], [0, this.factor(args[1] ?? args[0], 1, context), 0]];
+      case 'scalex':
+        return [[this.factor(args[0], 1, context), 0, 0], [0, 1, 0]];
+      case 'scaley':
+        return [[1, 0, 0], [0, this.factor(args[0], 1, context), 0]];
+      case 'rotate':
+      case 'rotatez': {
+        const cos = Math.cos(angle(0));
+        const sin = Math.sin(angle(0));
+        return [[cos, -sin, 0], [sin, cos, 0]];
+      }
+      case 'skew':
+        return [[1, Math.tan(angle(0)), 0], [Math.tan(angle(1)), 1, 0]];
+      case 'skewx':
+        return [[1, Math.tan(angle(0)), 0], [0, 1, 0]];
+      case 'skewy':
+        return [[1, 0, 0], [Math.tan(angle(0)), 1, 0]];
+      default:
+        // perspective() and 3D rotations have no 2D equivalent
+        return null;
+    }
+  }
+
+  /**
+   * Scale factor; percentages are allowed in scale()
+   */
+  private static factor(value: string | undefined, fallback: number, context: CalcContext): number {
+    if (value === undefined) return fallback;
+    const result = CalcEvaluator.evaluate(value, context);
+    if (result?.type === 'number') return result.value;
+    if (result?.type === 'percentage') return result.value / 100;
+    return fallback;
+  }
+
+  /**
+   * Angle in degrees, 0 when the value isn't one
+   */
+  private static angle(value: string, context: CalcContext): number {
+    const result = CalcEvaluator.evaluate(value, context);
+    if (result?.type === 'angle') return result.value;
+    return 0;
+  }
+
+  /**
+   * Pixels; percentages refer to the element's own box, as in translate()
+   */
+  private static pixels(value: string, percentageBasis: number, context: CalcContext): number {
+    const result = CalcEvaluator.evaluate(value, { ...context, percentageBasis });
+    return result?.type === 'length' ? result.value : 0;
+  }
+
+  /**
+   * a · b, applying b first
+   */
+  private static multiply(a: Transform, b: Transform): Transform {
+    return [
+      [
+        a[0][0] * b[0][0] + a[0][1] * b[1][0],
+        a[0][0] * b[0][1] + a[0][1] * b[1][1],
+        a[0][0] * b[0][2] + a[0][1] * b[1][2] + a[0][2]
+      ],
+      [
+        a[1][0] * b[0][0] + a[1][1] * b[1][0],
+        a[1][0] * b[0][1] + a[1][1] * b[1][1],
+        a[1][0] * b[0][2] + a[1][1] * b[1][2] + a[1][2]
+      ]
+    ];
+  }
+
+  private static isIdentity(matrix: Transform): boolean {
+    return this.isTranslation(matrix) && Math.abs(matrix[0][2]) < EPSILON && Math.abs(matrix[1][2]) < EPSILON;
+  }
+}
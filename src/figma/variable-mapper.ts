@@ -0,0 +1,309 @@
+/**
+ * Figma Variable Mapper
+ *
+ * Turns the custom properties declared on `:root` into a Figma Variable
+ * collection (colors and numbers), with one mode per `[data-theme=…]` block,
+ * and binds node fields whose computed value came from a bare var() reference.
+ */
+
+import { CSSRule } from '../parsers/simple-css-parser-figma';
+import { ComputedStyle } from '../engine/css-engine-figma';
+import { ValueResolver } from '../engine/value-resolver';
+import { MediaQueryEvaluator, MediaEnvironment } from '../engine/media-query-evaluator';
+import { ColorParser } from '../utils/color-parser-enhanced';
+
+export interface DesignToken {
+  /** Custom property name, including the leading `--` */
+  name: string;
+  type: 'COLOR' | 'FLOAT';
+  /** Resolved CSS value per mode name */
+  values: Record<string, string>;
+  /** Mode name → custom property this token is an alias of */
+  aliases: Record<string, string>;
+}
+
+export interface DesignTokens {
+  /** Mode names, the default (`:root`) mode first */
+  modes: string[];
+  tokens: DesignToken[];
+  /** Pixels per rem and per em of tokens declared on `:root` */
+  rootFontSize: number;
+}
+
+export interface TokenVariables {
+  collection: VariableCollection;
+  modeIds: Record<string, string>;
+  variables: Map<string, Variable>;
+  tokens: Map<string, DesignToken>;
+}
+
+const ROOT_SELECTOR = /^(:root|html)$/i;
+const THEME_SELECTOR = /^(?::root|html)?\[data-theme\s*=\s*(["']?)([^"'\]\s]+)\1\s*\]$/i;
+const DEFAULT_THEME = 'default';
+
+/** CSS longhand → auto layout field it is rendered to */
+const SPACING_FIELDS: Record<string, VariableBindableNodeField[]> = {
+  'padding-top': ['paddingTop'],
+  'padding-right': ['paddingRight'],
+  'padding-bottom': ['paddingBottom'],
+  'padding-left': ['paddingLeft'],
+  'gap': ['itemSpacing', 'counterAxisSpacing'],
+  'grid-gap': ['itemSpacing', 'counterAxisSpacing']
+};
+
+export class VariableMapper {
+
+  /**
+   * Collect color and number custom properties from `:root`, grouped into
+   * modes: `:root`/`html` is the default mode, `[data-theme=dark]` (or a
+   * `prefers-color-scheme: dark` block) adds a Dark mode, and so on.
+   */
+  static collectTokens(cssRules: CSSRule[], viewport: MediaEnvironment): DesignTokens {
+    const declaredByTheme = new Map<string, Record<string, string>>([[DEFAULT_THEME, {}]]);
+
+    cssRules.forEach(rule => {
+      const theme = this.themeForRule(rule, viewport);
+      if (!theme) return;
+
+      const declared = declaredByTheme.get(theme) || {};
+      Object.entries(rule.declarations).forEach(([property, value]) => {
+        if (property.startsWith('--')) declared[property] = value;
+      });
+      declaredByTheme.set(theme, declared);
+    });
+
+    const defaults = declaredByTheme.get(DEFAULT_THEME)!;
+    const themes = Array.from(declaredByTheme.keys());
+    const modes = themes.map(theme => this.modeName(theme, themes));
+    const tokens = new Map<string, DesignToken>();
+
+    themes.forEach((theme, index) => {
+      const declared = { ...defaults, ...declaredByTheme.get(theme) };
+      const resolved = ValueResolver.computeCustomProperties(declared, {});
+
+      Object.entries(resolved).forEach(([name, value]) => {
+        const type = this.tokenType(value);
+        if (!type) return;
+
+        const token = tokens.get(name) || { name, type, values: {}, aliases: {} };
+        if (token.type !== type) return;
+
+        token.values[modes[index]] = value;
+        const alias = ValueResolver.referencedCustomProperty(declared[name]);
+        if (alias) token.aliases[modes[index]] = alias;
+        tokens.set(name, token);
+      });
+    });
+
+    // Aliases only hold when their target became a variable of the same type
+    tokens.forEach(token => {
+      Object.entries(token.aliases).forEach(([mode, alias]) => {
+        if (tokens.get(alias)?.type !== token.type) delete token.aliases[mode];
+      });
+    });
+
+    return { modes, tokens: Array.from(tokens.values()), rootFontSize: viewport.rootFontSize || 16 };
+  }
+
+  /**
+   * Create the Variable collection for the collected tokens. A local
+   * collection with the same name is updated instead, reusing its default
+   * mode for the default mode, its other modes and its variables by name,
+   * so converting again doesn't add another collection.
+   */
+  static async createVariables(designTokens: DesignTokens, collectionName = 'CSS Variables'): Promise<TokenVariables | null> {
+    if (designTokens.tokens.length === 0) return null;
+
+    console.log(`🎛️ Creating ${designTokens.tokens.length} variables in ${designTokens.modes.length} mode(s)...`);
+
+    const existing = (await figma.variables.getLocalVariableCollectionsAsync())
+      .find(candidate => candidate.name === collectionName);
+    const collection = existing || figma.variables.createVariableCollection(collectionName);
+    const existingVariables = new Map<string, Variable>();
+    if (existing) {
+      (await figma.variables.getLocalVariablesAsync())
+        .filter(variable => variable.variableCollectionId === collection.id)
+        .forEach(variable => existingVariables.set(variable.name, variable));
+    }
+    const modeIds: Record<string, string> = {};
+
+    designTokens.modes.forEach((mode, index) => {
+      // The default mode is renamed when a dark theme turns "Default" into "Light"
+      if (index === 0) {
+        modeIds[mode] = collection.defaultModeId;
+        const current = collection.modes.find(candidate => candidate.modeId === collection.defaultModeId);
+        if (current?.name !== mode) collection.renameMode(collection.defaultModeId, mode);
+        return;
+      }
+      const match = collection.modes.find(candidate => candidate.name === mode);
+      if (match) {
+        modeIds[mode] = match.modeId;
+        return;
+      }
+      try {
+        modeIds[mode] = collection.addMode(mode);
+      } catch (error) {
+        // Mode limits depend on the Figma plan
+        console.warn(`⚠️ Could not add variable mode "${mode}":`, error);
+      }
+    });
+
+    const variables = new Map<string, Variable>();
+    const tokens = new Map<string, DesignToken>();
+    designTokens.tokens.forEach(token => {
+      const name = token.name.slice(2);
+      const reused = existingVariables.get(name);
+      if (reused && reused.resolvedType !== token.type) {
+        console.warn(`⚠️ Variable "${name}" already exists as ${reused.resolvedType}, not ${token.type}`);
+        return;
+      }
+      variables.set(token.name, reused || figma.variables.createVariable(name, collection, token.type));
+      tokens.set(token.name, token);
+    });
+
+    // Values are set once every variable exists so aliases can point at them
+    designTokens.tokens.forEach(token => {
+      const variable = variables.get(token.name);
+      if (!variable) return;
+
+      Object.entries(modeIds).forEach(([mode, modeId]) => {
+        const alias = token.aliases[mode] ? variables.get(token.aliases[mode]) : undefined;
+        const value = token.values[mode];
+
+        if (alias) {
+          variable.setValueForMode(modeId, figma.variables.createVariableAlias(alias));
+        } else if (value !== undefined) {
+          const figmaValue = this.toVariableValue(token.type, value, designTokens.rootFontSize);
+          if (figmaValue !== null) variable.setValueForMode(modeId, figmaValue);
+        }
+      });
+    });
+
+    console.log(`✅ ${existing ? 'Updated' : 'Created'} variable collection "${collectionName}"`);
+    return { collection, modeIds, variables, tokens };
+  }
+
+  /**
+   * Show a frame in the mode matching the document's `data-theme`
+   */
+  static applyThemeMode(frame: FrameNode, tokenVariables: TokenVariables, theme?: string): void {
+    if (!theme) return;
+
+    const mode = Object.keys(tokenVariables.modeIds)
+      .find(name => name.toLowerCase() === theme.toLowerCase());
+    if (mode && mode !== Object.keys(tokenVariables.modeIds)[0]) {
+      frame.setExplicitVariableModeForCollection(tokenVariables.collection, tokenVariables.modeIds[mode]);
+    }
+  }
+
+  /**
+   * Bind fills, strokes, padding and spacing to the variables their values
+   * came from. `bindings` maps CSS longhands to custom property names.
+   */
+  static bindNode(
+    node: FrameNode | TextNode,
+    computedStyle: ComputedStyle,
+    bindings: Record<string, string>,
+    tokenVariables: TokenVariables | null
+  ): void {
+    if (!tokenVariables) return;
+
+    const variableFor = (property: string, type: DesignToken['type']): Variable | null => {
+      const name = bindings[property];
+      const token = name ? tokenVariables.tokens.get(name) : undefined;
+      if (!token || token.type !== type) return null;
+
+      // A locally overridden custom property no longer matches the token
+      const computed = this.normalize(String(computedStyle[name] ?? ''));
+      const matches = Object.values(token.values).some(value => this.normalize(value) === computed);
+      return matches ? tokenVariables.variables.get(name) || null : null;
+    };
+
+    const fillVariable = variableFor(node.type === 'TEXT' ? 'color' : 'background-color', 'COLOR');
+    if (fillVariable) {
+      node.fills = this.bindPaints(node.fills, fillVariable);
+    }
+
+    if (node.type === 'TEXT') return;
+
+    const strokeVariable = variableFor('border-top-color', 'COLOR');
+    if (strokeVariable) {
+      node.strokes = this.bindPaints(node.strokes, strokeVariable);
+    }
+
+    if (node.layoutMode === 'NONE') return;
+
+    Object.entries(SPACING_FIELDS).forEach(([property, fields]) => {
+      const variable = variableFor(property, 'FLOAT');
+      if (!variable) return;
+
+      fields.forEach(field => {
+        // Counter axis spacing only exists on wrapping auto layout
+        if (field === 'counterAxisSpacing' && node.layoutWrap !== 'WRAP') return;
+        node.setBoundVariable(field, variable);
+      });
+    });
+  }
+
+  private static bindPaints(paints: ReadonlyArray<Paint> | typeof figma.mixed, variable: Variable): Paint[] {
+    if (paints === figma.mixed) return [];
+
+    return paints.map(paint => paint.type === 'SOLID'
+      ? figma.variables.setBoundVariableForPaint(paint, 'color', variable)
+      : paint);
+  }
+
+  /**
+   * Mode (theme) a rule's custom properties belong to, or null if the rule
+   * doesn't declare tokens
+   */
+  private static themeForRule(rule: CSSRule, viewport: MediaEnvironment): string | null {
+    const selector = rule.selector.trim();
+    const themeMatch = selector.match(THEME_SELECTOR);
+    if (!ROOT_SELECTOR.test(selector) && !themeMatch) return null;
+
+    const media = rule.media || [];
+    if (media.length > 0) {
+      const dark = MediaQueryEvaluator.matchesAll(media, { ...viewport, colorScheme: 'dark' });
+      const light = MediaQueryEvaluator.matchesAll(media, { ...viewport, colorScheme: 'light' });
+      if (dark && !light && !themeMatch) return 'dark';
+      if (!MediaQueryEvaluator.matchesAll(media, viewport)) return null;
+    }
+
+    if (!themeMatch) return DEFAULT_THEME;
+
+    // A light theme block refines the default mode
+    const theme = themeMatch[2].toLowerCase();
+    return theme === 'light' ? DEFAULT_THEME : theme;
+  }
+
+  private static modeName(theme: string, themes: string[]): string {
+    if (theme === DEFAULT_THEME) {
+      return themes.includes('dark') ? 'Light' : 'Default';
+    }
+    return theme.charAt(0).toUpperCase() + theme.slice(1);
+  }
+
+  private static tokenType(value: string): DesignToken['type'] | null {
+    const trimmed = value.trim();
+    if (/^-?(\d+\.?\d*|\.\d+)(px|rem|em)?$/i.test(trimmed)) return 'FLOAT';
+    if (/^(#|rgba?\(|hsla?\()/i.test(trimmed) || /^[a-z]+$/i.test(trimmed)) {
+      return ColorParser.parseColor(trimmed) ? 'COLOR' : null;
+    }
+    return null;
+  }
+
+  private static toVariableValue(type: DesignToken['type'], value: string, rootFontSize: number): VariableValue | null {
+    if (type === 'FLOAT') {
+      const num = parseFloat(value);
+      // rem/em tokens are declared on :root, so they scale the root font size
+      return /r?em$/i.test(value.trim()) ? num * rootFontSize : num;
+    }
+
+    return ColorParser.parseColorWithAlpha(value);
+  }
+
+  private static normalize(value: string): string {
+    return value.trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+}
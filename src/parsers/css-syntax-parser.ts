@@ -0,0 +1,989 @@
+/**
+ * CSS Syntax Parser
+ *
+ * Tokenizer and parser following CSS Syntax Module Level 3. Produces a
+ * stylesheet AST (style rules, at-rules, declarations with !important flags
+ * and source positions) that every rule parser in the plugin builds on.
+ * Strings, url() tokens and nested blocks are tokenized properly, so braces
+ * or semicolons inside `data:` URIs and quoted values no longer split rules.
+ */
+
+export type CSSTokenType =
+  | 'ident' | 'function' | 'at-keyword' | 'hash' | 'string' | 'bad-string'
+  | 'url' | 'bad-url' | 'delim' | 'number' | 'percentage' | 'dimension'
+  | 'whitespace' | 'CDO' | 'CDC' | 'colon' | 'semicolon' | 'comma'
+  | '[' | ']' | '(' | ')' | '{' | '}' | 'EOF';
+
+export interface CSSToken {
+  type: CSSTokenType;
+  /** Unescaped name, string contents, url or delim character */
+  value: string;
+  numeric?: number;
+  unit?: string;
+  hashType?: 'id' | 'unrestricted';
+  /** Offsets into the preprocessed source */
+  start: number;
+  end: number;
+}
+
+export interface CSSSimpleBlock {
+  type: 'simple-block';
+  /** The opening token: `{`, `[` or `(` */
+  token: CSSToken;
+  value: CSSComponentValue[];
+  closed: boolean;
+  start: number;
+  end: number;
+}
+
+export interface CSSFunctionBlock {
+  type: 'function-block';
+  name: string;
+  /** The function token, including the opening parenthesis */
+  token: CSSToken;
+  value: CSSComponentValue[];
+  closed: boolean;
+  start: number;
+  end: number;
+}
+
+export type CSSComponentValue = CSSToken | CSSSimpleBlock | CSSFunctionBlock;
+
+export interface SourcePosition {
+  offset: number;
+  line: number;
+  column: number;
+}
+
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+export interface DeclarationNode {
+  type: 'declaration';
+  property: string;
+  value: string;
+  important: boolean;
+  loc: SourceRange;
+}
+
+export interface StyleRuleNode {
+  type: 'rule';
+  selector: string;
+  declarations: DeclarationNode[];
+  /**
+   * Rules nested inside the rule block: conditional at-rules such as
+   * `.a { @media (...) { ... } }` and nested style rules such as `.a { &:hover { ... } }`.
+   * Nested selectors are kept as written; flattenStyleRules resolves them.
+   */
+  rules: CSSNode[];
+  loc: SourceRange;
+}
+
+export interface AtRuleNode {
+  type: 'at-rule';
+  name: string;
+  prelude: string;
+  /** Contents of rule-list blocks (@media, @supports, @layer, @keyframes) */
+  rules?: Array<StyleRuleNode | AtRuleNode>;
+  /** Contents of declaration-list blocks (@font-face, @page, nested group rules) */
+  declarations?: DeclarationNode[];
+  hasBlock: boolean;
+  loc: SourceRange;
+}
+
+export type CSSNode = StyleRuleNode | AtRuleNode;
+
+export interface StyleSheetNode {
+  type: 'stylesheet';
+  rules: CSSNode[];
+  source: string;
+}
+
+export interface FlattenedStyleRule {
+  selector: string;
+  declarations: DeclarationNode[];
+  /** Enclosing conditional group rules, outermost first */
+  conditions: AtRuleNode[];
+  /** Query lists of the enclosing @media rules; all must match for the rule to apply */
+  media: string[];
+  layer?: string;
+  loc: SourceRange;
+}
+
+/** Decides whether rules inside a conditional group rule (@media, @supports) apply */
+export type ConditionEvaluator = (rule: AtRuleNode) => boolean;
+
+const CONDITIONAL_AT_RULES = new Set(['media', 'supports', 'container']);
+const RULE_LIST_AT_RULES = new Set(['media', 'supports', 'container', 'layer', 'keyframes', '-webkit-keyframes', 'document', 'scope', 'starting-style']);
+const DECLARATION_AT_RULES = new Set(['font-face', 'page', 'property', 'counter-style', 'font-palette-values', 'viewport']);
+
+/**
+ * Properties @supports reports as supported, with the values the converter
+ * understands (null: any value). Keep in step with what the mappers handle.
+ */
+const SUPPORTED_DECLARATIONS: Record<string, RegExp | null> = {
+  'display': /^(block|inline|inline-block|flex|inline-flex|grid|inline-grid|none|contents|flow-root|list-item)$/i,
+  'position': /^(static|relative|absolute|fixed|sticky)$/i,
+  'flex-direction': null, 'flex-wrap': null, 'flex': null, 'flex-grow': null, 'flex-shrink': null, 'flex-basis': null,
+  'justify-content': null, 'align-items': null, 'align-self': null, 'align-content': null,
+  'gap': null, 'row-gap': null, 'column-gap': null,
+  'grid-template-columns': null, 'grid-template-rows': null, 'grid-column': null, 'grid-row': null,
+  'width': null, 'height': null, 'min-width': null, 'min-height': null, 'max-width': null, 'max-height': null,
+  'margin': null, 'padding': null, 'inset': null, 'top': null, 'right': null, 'bottom': null, 'left': null,
+  'z-index': null, 'overflow': null, 'opacity': null, 'aspect-ratio': null, 'object-fit': null,
+  'color': null, 'background': null, 'background-color': null, 'background-image': null,
+  'background-size': null, 'background-position': null, 'background-repeat': null,
+  'border': null, 'border-width': null, 'border-style': null, 'border-color': null, 'border-radius': null,
+  'outline': null, 'outline-offset': null,
+  'box-shadow': null, 'text-shadow': null, 'filter': null, 'backdrop-filter': null,
+  'transform': null, 'transform-origin': null, 'translate': null, 'rotate': null, 'scale': null,
+  'font': null, 'font-family': null, 'font-size': null, 'font-weight': null, 'font-style': null,
+  'font-variant-numeric': null, 'line-height': null, 'letter-spacing': null, 'text-align': null,
+  'text-decoration': null, 'text-transform': null, 'text-indent': null, 'text-overflow': null,
+  'white-space': null, '-webkit-line-clamp': null, 'line-clamp': null, 'content': null
+};
+
+/** Functions the converter evaluates inside supported values */
+const SUPPORTED_FUNCTIONS = new Set([
+  'var', 'calc', 'min', 'max', 'clamp', 'url',
+  'rgb', 'rgba', 'hsl', 'hsla',
+  'linear-gradient', 'radial-gradient', 'conic-gradient',
+  'repeating-linear-gradient', 'repeating-radial-gradient', 'repeating-conic-gradient',
+  'repeat', 'minmax', 'fit-content',
+  'matrix', 'translate', 'translatex', 'translatey', 'rotate', 'scale', 'scalex', 'scaley', 'skew', 'skewx', 'skewy',
+  'blur', 'drop-shadow', 'attr', 'counter'
+]);
+
+const CLOSING: Record<string, CSSTokenType> = { '{': '}', '[': ']', '(': ')' };
+
+const isDigit = (c: string | undefined): boolean => c !== undefined && c >= '0' && c <= '9';
+const isHexDigit = (c: string | undefined): boolean => c !== undefined && /[0-9a-fA-F]/.test(c);
+const isWhitespace = (c: string | undefined): boolean => c === ' ' || c === '\t' || c === '\n';
+const isNameStart = (c: string | undefined): boolean =>
+  c !== undefined && (/[a-zA-Z_]/.test(c) || c.charCodeAt(0) >= 0x80);
+const isNameChar = (c: string | undefined): boolean => isNameStart(c) || isDigit(c) || c === '-';
+const isNonPrintable = (c: string): boolean => {
+  const code = c.charCodeAt(0);
+  return code <= 0x08 || code === 0x0b || (code >= 0x0e && code <= 0x1f) || code === 0x7f;
+};
+
+export class CSSTokenizer {
+  private readonly input: string;
+  private pos = 0;
+
+  constructor(css: string) {
+    this.input = CSSTokenizer.preprocess(css);
+  }
+
+  /**
+   * Normalize newlines and NUL characters (CSS Syntax §3.3)
+   */
+  static preprocess(css: string): string {
+    return css.replace(/\r\n?|\f/g, '\n').replace(/\0/g, '\uFFFD');
+  }
+
+  get source(): string {
+    return this.input;
+  }
+
+  tokenize(): CSSToken[] {
+    const tokens: CSSToken[] = [];
+    for (;;) {
+      const token = this.nextToken();
+      tokens.push(token);
+      if (token.type === 'EOF') return tokens;
+    }
+  }
+
+  nextToken(): CSSToken {
+    this.consumeComments();
+    const start = this.pos;
+    const c = this.input[this.pos];
+
+    if (c === undefined) return this.token('EOF', '', start);
+
+    if (isWhitespace(c)) {
+      while (isWhitespace(this.input[this.pos])) this.pos++;
+      return this.token('whitespace', ' ', start);
+    }
+
+    switch (c) {
+      case '"':
+      case "'":
+        return this.consumeString(c);
+      case '#':
+        if (isNameChar(this.input[this.pos + 1]) || this.isValidEscape(this.pos + 1)) {
+          this.pos++;
+          const hashType = this.wouldStartIdentifier(this.pos) ? 'id' : 'unrestricted';
+          const name = this.consumeName();
+          return { ...this.token('hash', name, start), hashType };
+        }
+        break;
+      case '(': case ')': case '[': case ']': case '{': case '}':
+        this.pos++;
+        return this.token(c, c, start);
+      case ',':
+        this.pos++;
+        return this.token('comma', c, start);
+      case ':':
+        this.pos++;
+        return this.token('colon', c, start);
+      case ';':
+        this.pos++;
+        return this.token('semicolon', c, start);
+      case '+':
+      case '.':
+        if (this.startsNumber(this.pos)) return this.consumeNumeric();
+        break;
+      case '-':
+        if (this.startsNumber(this.pos)) return this.consumeNumeric();
+        if (this.input.startsWith('-->', this.pos)) {
+          this.pos += 3;
+          return this.token('CDC', '-->', start);
+        }
+        if (this.wouldStartIdentifier(this.pos)) return this.consumeIdentLike();
+        break;
+      case '<':
+        if (this.input.startsWith('<!--', this.pos)) {
+          this.pos += 4;
+          return this.token('CDO', '<!--', start);
+        }
+        break;
+      case '@':
+        if (this.wouldStartIdentifier(this.pos + 1)) {
+          this.pos++;
+          return this.token('at-keyword', this.consumeName(), start);
+        }
+        break;
+      case '\\':
+        if (this.isValidEscape(this.pos)) return this.consumeIdentLike();
+        break;
+      default:
+        if (isDigit(c)) return this.consumeNumeric();
+        if (isNameStart(c)) return this.consumeIdentLike();
+    }
+
+    this.pos++;
+    return this.token('delim', c, start);
+  }
+
+  private token(type: CSSTokenType, value: string, start: number): CSSToken {
+    return { type, value, start, end: this.pos };
+  }
+
+  private consumeComments(): void {
+    while (this.input.startsWith('/*', this.pos)) {
+      const end = this.input.indexOf('*/', this.pos + 2);
+      this.pos = end === -1 ? this.input.length : end + 2;
+    }
+  }
+
+  private isValidEscape(index: number): boolean {
+    return this.input[index] === '\\' && this.input[index + 1] !== '\n';
+  }
+
+  private wouldStartIdentifier(index: number): boolean {
+    const c = this.input[index];
+    if (c === '-') {
+      const next = this.input[index + 1];
+      return isNameStart(next) || next === '-' || this.isValidEscape(index + 1);
+    }
+    if (c === '\\') return this.isValidEscape(index);
+    return isNameStart(c);
+  }
+
+  private startsNumber(index: number): boolean {
+    const c = this.input[index];
+    if (c === '+' || c === '-') {
+      const next = this.input[index + 1];
+      return isDigit(next) || (next === '.' && isDigit(this.input[index + 2]));
+    }
+    if (c === '.') return isDigit(this.input[index + 1]);
+    return isDigit(c);
+  }
+
+  /**
+   * Consume an escaped code point; the backslash has already been consumed
+   */
+  private consumeEscape(): string {
+    const c = this.input[this.pos];
+    if (c === undefined) return '\uFFFD';
+
+    if (isHexDigit(c)) {
+      let hex = '';
+      while (hex.length < 6 && isHexDigit(this.input[this.pos])) {
+        hex += this.input[this.pos++];
+      }
+      if (isWhitespace(this.input[this.pos])) this.pos++;
+      const code = parseInt(hex, 16);
+      if (code === 0 || (code >= 0xd800 && code <= 0xdfff) || code > 0x10ffff) return '\uFFFD';
+      return String.fromCodePoint(code);
+    }
+
+    const codePoint = this.input.codePointAt(this.pos) as number;
+    const char = String.fromCodePoint(codePoint);
+    this.pos += char.length;
+    return char;
+  }
+
+  private consumeName(): string {
+    let name = '';
+    for (;;) {
+      const c = this.input[this.pos];
+      if (isNameChar(c)) {
+        name += c;
+        this.pos++;
+      } else if (this.isValidEscape(this.pos)) {
+        this.pos++;
+        name += this.consumeEscape();
+      } else {
+        return name;
+      }
+    }
+  }
+
+  private consumeNumber(): number {
+    let repr = '';
+    const take = () => { repr += this.input[this.pos++]; };
+
+    if (this.input[this.pos] === '+' || this.input[this.pos] === '-') take();
+    while (isDigit(this.input[this.pos])) take();
+    if (this.input[this.pos] === '.' && isDigit(this.input[this.pos + 1])) {
+      take();
+      while (isDigit(this.input[this.pos])) take();
+    }
+    const e = this.input[this.pos];
+    if (e === 'e' || e === 'E') {
+      const next = this.input[this.pos + 1];
+      if (isDigit(next) || ((next === '+' || next === '-') && isDigit(this.input[this.pos + 2]))) {
+        take();
+        take();
+        while (isDigit(this.input[this.pos])) take();
+      }
+    }
+    return parseFloat(repr);
+  }
+
+  private consumeNumeric(): CSSToken {
+    const start = this.pos;
+    const numeric = this.consumeNumber();
+
+    if (this.wouldStartIdentifier(this.pos)) {
+      const unit = this.consumeName();
+      return { ...this.token('dimension', this.input.slice(start, this.pos), start), numeric, unit };
+    }
+    if (this.input[this.pos] === '%') {
+      this.pos++;
+      return { ...this.token('percentage', this.input.slice(start, this.pos), start), numeric, unit: '%' };
+    }
+    return { ...this.token('number', this.input.slice(start, this.pos), start), numeric };
+  }
+
+  private consumeIdentLike(): CSSToken {
+    const start = this.pos;
+    const name = this.consumeName();
+
+    if (name.toLowerCase() === 'url' && this.input[this.pos] === '(') {
+      this.pos++;
+      let lookahead = this.pos;
+      while (isWhitespace(this.input[lookahead])) lookahead++;
+      const next = this.input[lookahead];
+      if (next === '"' || next === "'") {
+        return this.token('function', name, start);
+      }
+      return this.consumeUrl(start);
+    }
+
+    if (this.input[this.pos] === '(') {
+      this.pos++;
+      return this.token('function', name, start);
+    }
+
+    return this.token('ident', name, start);
+  }
+
+  /**
+   * Consume an unquoted url(); `url(` has already been consumed
+   */
+  private consumeUrl(start: number): CSSToken {
+    let url = '';
+    while (isWhitespace(this.input[this.pos])) this.pos++;
+
+    for (;;) {
+      const c = this.input[this.pos];
+      if (c === undefined) return this.token('url', url, start);
+      if (c === ')') {
+        this.pos++;
+        return this.token('url', url, start);
+      }
+      if (isWhitespace(c)) {
+        while (isWhitespace(this.input[this.pos])) this.pos++;
+        const next = this.input[this.pos];
+        if (next === ')' || next === undefined) continue;
+        return this.consumeBadUrlRemnants(start);
+      }
+      if (c === '"' || c === "'" || c === '(' || isNonPrintable(c)) {
+        return this.consumeBadUrlRemnants(start);
+      }
+      if (c === '\\') {
+        if (!this.isValidEscape(this.pos)) return this.consumeBadUrlRemnants(start);
+        this.pos++;
+        url += this.consumeEscape();
+        continue;
+      }
+      url += c;
+      this.pos++;
+    }
+  }
+
+  private consumeBadUrlRemnants(start: number): CSSToken {
+    for (;;) {
+      const c = this.input[this.pos];
+      if (c === undefined) break;
+      if (c === ')') {
+        this.pos++;
+        break;
+      }
+      if (this.isValidEscape(this.pos)) {
+        this.pos++;
+        this.consumeEscape();
+      } else {
+        this.pos++;
+      }
+    }
+    return this.token('bad-url', this.input.slice(start, this.pos), start);
+  }
+
+  private consumeString(quote: string): CSSToken {
+    const start = this.pos++;
+    let value = '';
+
+    for (;;) {
+      const c = this.input[this.pos];
+      if (c === undefined) return this.token('string', value, start);
+      if (c === quote) {
+        this.pos++;
+        return this.token('string', value, start);
+      }
+      if (c === '\n') {
+        // Unterminated string; the newline is left for the next token
+        return this.token('bad-string', value, start);
+      }
+      if (c === '\\') {
+        const next = this.input[this.pos + 1];
+        if (next === undefined) {
+          this.pos++;
+        } else if (next === '\n') {
+          this.pos += 2;
+        } else {
+          this.pos++;
+          value += this.consumeEscape();
+        }
+        continue;
+      }
+      value += c;
+      this.pos++;
+    }
+  }
+}
+
+/**
+ * Walks a list of component values; nested blocks are already grouped,
+ * so the same stream type serves stylesheets, rule blocks and declaration blocks
+ */
+class ComponentStream {
+  private index = 0;
+
+  constructor(private readonly items: CSSComponentValue[]) {}
+
+  peek(): CSSComponentValue | undefined {
+    return this.items[this.index];
+  }
+
+  next(): CSSComponentValue | undefined {
+    return this.items[this.index++];
+  }
+
+  done(): boolean {
+    return this.index >= this.items.length;
+  }
+}
+
+export class CSSSyntaxParser {
+  private readonly source: string;
+  private readonly lineStarts: number[] = [0];
+
+  private constructor(source: string) {
+    this.source = source;
+    for (let i = 0; i < source.length; i++) {
+      if (source[i] === '\n') this.lineStarts.push(i + 1);
+    }
+  }
+
+  /**
+   * Parse a complete stylesheet into an AST
+   */
+  static parseStylesheet(css: string): StyleSheetNode {
+    const tokenizer = new CSSTokenizer(css);
+    const parser = new CSSSyntaxParser(tokenizer.source);
+    const values = parser.groupComponentValues(tokenizer.tokenize());
+    return {
+      type: 'stylesheet',
+      rules: parser.consumeRuleList(new ComponentStream(values), true),
+      source: tokenizer.source
+    };
+  }
+
+  /**
+   * Parse a declaration list such as the contents of a `style` attribute
+   */
+  static parseDeclarationList(text: string): DeclarationNode[] {
+    const tokenizer = new CSSTokenizer(text);
+    const parser = new CSSSyntaxParser(tokenizer.source);
+    const values = parser.groupComponentValues(tokenizer.tokenize());
+    return parser.consumeDeclarationList(new ComponentStream(values)).declarations;
+  }
+
+  /**
+   * Serialize component values back to CSS text. Comments are dropped and
+   * whitespace runs collapse to a single space.
+   */
+  static serialize(values: CSSComponentValue[], source: string): string {
+    return values.map((value, index) => {
+      if (value.type === 'simple-block') {
+        return value.token.value + CSSSyntaxParser.serialize(value.value, source) + (value.closed ? CLOSING[value.token.type] : '');
+      }
+      if (value.type === 'function-block') {
+        return source.slice(value.token.start, value.token.end) + CSSSyntaxParser.serialize(value.value, source) + (value.closed ? ')' : '');
+      }
+      if (value.type === 'EOF') return '';
+      // Whitespace on both sides of a comment yields two tokens; emit one space
+      if (value.type === 'whitespace') return index > 0 && values[index - 1].type === 'whitespace' ? '' : ' ';
+      return source.slice(value.start, value.end);
+    }).join('');
+  }
+
+  /**
+   * Flatten the AST into style rules in source order. @layer blocks are
+   * unwrapped and nested style rules get selectors resolved against their
+   * parent; conditional group rules are kept only if `evaluateCondition`
+   * accepts them. By default @media rules are kept with their queries in
+   * `media` so the style engine can evaluate them against its viewport.
+   */
+  static flattenStyleRules(
+    sheet: StyleSheetNode,
+    evaluateCondition: ConditionEvaluator = CSSSyntaxParser.deferMediaRules
+  ): FlattenedStyleRule[] {
+    const flattened: FlattenedStyleRule[] = [];
+    const mediaQueries = (conditions: AtRuleNode[]) =>
+      conditions.filter(condition => condition.name === 'media').map(condition => condition.prelude);
+
+    const visit = (nodes: CSSNode[], conditions: AtRuleNode[], layer?: string, parentSelector?: string) => {
+      nodes.forEach(node => {
+        if (node.type === 'rule') {
+          const selector = parentSelector ? CSSSyntaxParser.resolveNestedSelector(node.selector, parentSelector) : node.selector;
+          if (node.declarations.length > 0) {
+            flattened.push({ selector, declarations: node.declarations, conditions, media: mediaQueries(conditions), layer, loc: node.loc });
+          }
+          visit(node.rules, conditions, layer, selector);
+          return;
+        }
+
+        if (CONDITIONAL_AT_RULES.has(node.name)) {
+          if (!evaluateCondition(node)) return;
+          const nested = [...conditions, node];
+          if (node.declarations && parentSelector && node.declarations.length > 0) {
+            flattened.push({ selector: parentSelector, declarations: node.declarations, conditions: nested, media: mediaQueries(nested), layer, loc: node.loc });
+          }
+          if (node.rules) visit(node.rules, nested, layer, parentSelector);
+        } else if (node.name === 'layer' && node.rules) {
+          const name = node.prelude || '<anonymous>';
+          visit(node.rules, conditions, layer ? `${layer}.${name}` : name, parentSelector);
+        } else if (node.name === 'import') {
+          console.warn(`⚠️ @import ${node.prelude} is not fetched; inline the stylesheet instead`);
+        }
+      });
+    };
+
+    visit(sheet.rules, []);
+    return flattened;
+  }
+
+  /**
+   * The selector of a nested style rule. `&` stands for the parent selector;
+   * without one the nested selector is relative to the parent, as a
+   * descendant unless it starts with a combinator. Parent and nested
+   * selector lists combine pairwise.
+   */
+  static resolveNestedSelector(selector: string, parentSelector: string): string {
+    const parents = CSSSyntaxParser.splitSelectorList(parentSelector);
+    return CSSSyntaxParser.splitSelectorList(selector).map(nested => {
+      if (nested.includes('&')) {
+        return parents.map(parent => nested.replace(/&/g, parent)).join(', ');
+      }
+      return parents.map(parent => `${parent} ${nested}`).join(', ');
+    }).join(', ');
+  }
+
+  /**
+   * Split a selector list at its top-level commas
+   */
+  private static splitSelectorList(selector: string): string[] {
+    const selectors: string[] = [];
+    let depth = 0;
+    let quote = '';
+    let start = 0;
+
+    for (let i = 0; i < selector.length; i++) {
+      const c = selector[i];
+      if (quote) {
+        if (c === '\\') i++;
+        else if (c === quote) quote = '';
+      } else if (c === '"' || c === "'") {
+        quote = c;
+      } else if (c === '(' || c === '[') {
+        depth++;
+      } else if (c === ')' || c === ']') {
+        depth--;
+      } else if (c === ',' && depth === 0) {
+        selectors.push(selector.slice(start, i).trim());
+        start = i + 1;
+      }
+    }
+    selectors.push(selector.slice(start).trim());
+    return selectors.filter(Boolean);
+  }
+
+  /**
+   * Reduce a declaration list to property → value. Within one block a later
+   * declaration wins unless an earlier one for the same property is !important.
+   */
+  static declarationsToRecord(declarations: DeclarationNode[]): Record<string, string> {
+    const record: Record<string, string> = {};
+    const important = new Set<string>();
+
+    declarations.forEach(decl => {
+      if (!decl.value) return;
+      if (important.has(decl.property) && !decl.important) return;
+      record[decl.property] = decl.value;
+      if (decl.important) important.add(decl.property);
+    });
+
+    return record;
+  }
+
+  /**
+   * Properties declared !important in a block
+   */
+  static importantProperties(declarations: DeclarationNode[]): string[] {
+    const important = new Set<string>();
+    declarations.forEach(decl => {
+      if (decl.important && decl.value) important.add(decl.property);
+    });
+    return Array.from(important);
+  }
+
+  /**
+   * Default condition evaluator: @media rules are kept for the style engine,
+   * @supports rules are evaluated against what the converter maps, and
+   * other conditional rules are skipped
+   */
+  static deferMediaRules(rule: AtRuleNode): boolean {
+    if (rule.name === 'media') return true;
+    if (rule.name === 'supports') return CSSSyntaxParser.evaluateSupports(rule.prelude);
+    return CSSSyntaxParser.skipConditionalRule(rule);
+  }
+
+  /**
+   * Evaluate an @supports condition. A declaration is supported if the
+   * converter maps the property and understands the value; `selector()`
+   * is supported (the selector engine implements Selectors Level 4) and
+   * other functions such as `font-tech()` are not.
+   */
+  static evaluateSupports(condition: string): boolean {
+    const tokenizer = new CSSTokenizer(condition);
+    const parser = new CSSSyntaxParser(tokenizer.source);
+    const values = parser.groupComponentValues(tokenizer.tokenize())
+      .filter(value => value.type !== 'whitespace');
+    return parser.supportsCondition(values);
+  }
+
+  /**
+   * Report and skip a conditional rule
+   */
+  static skipConditionalRule(rule: AtRuleNode): boolean {
+    console.warn(`⚠️ Skipping @${rule.name} ${rule.prelude} block: conditional rules are not evaluated`);
+    return false;
+  }
+
+  /**
+   * Group a flat token list into component values (blocks and functions)
+   */
+  private groupComponentValues(tokens: CSSToken[]): CSSComponentValue[] {
+    let index = 0;
+
+    const consumeComponentValue = (token: CSSToken): CSSComponentValue => {
+      if (token.type === '{' || token.type === '[' || token.type === '(') {
+        return consumeBlock(token, CLOSING[token.type], (value, closed, end) => ({
+          type: 'simple-block', token, value, closed, start: token.start, end
+        }));
+      }
+      if (token.type === 'function') {
+        return consumeBlock(token, ')', (value, closed, end) => ({
+          type: 'function-block', name: token.value, token, value, closed, start: token.start, end
+        }));
+      }
+      return token;
+    };
+
+    const consumeBlock = <T extends CSSComponentValue>(
+      open: CSSToken,
+      closing: CSSTokenType,
+      build: (value: CSSComponentValue[], closed: boolean, end: number) => T
+    ): T => {
+      const value: CSSComponentValue[] = [];
+      for (;;) {
+        const token = tokens[index++];
+        if (token.type === 'EOF') {
+          index--;
+          return build(value, false, token.start);
+        }
+        if (token.type === closing) return build(value, true, token.end);
+        value.push(consumeComponentValue(token));
+      }
+    };
+
+    const values: CSSComponentValue[] = [];
+    while (tokens[index].type !== 'EOF') {
+      values.push(consumeComponentValue(tokens[index++]));
+    }
+    return values;
+  }
+
+  private consumeRuleList(stream: ComponentStream, topLevel: boolean): CSSNode[] {
+    const rules: CSSNode[] = [];
+
+    while (!stream.done()) {
+      const item = stream.peek() as CSSComponentValue;
+
+      if (item.type === 'whitespace') {
+        stream.next();
+      } else if ((item.type === 'CDO' || item.type === 'CDC') && topLevel) {
+        stream.next();
+      } else if (item.type === 'at-keyword') {
+        stream.next();
+        rules.push(this.consumeAtRule(item as CSSToken, stream, false));
+      } else {
+        const rule = this.consumeQualifiedRule(stream);
+        if (rule) rules.push(rule);
+      }
+    }
+
+    return rules;
+  }
+
+  private consumeAtRule(keyword: CSSToken, stream: ComponentStream, inDeclarationBlock: boolean): AtRuleNode {
+    const name = keyword.value.toLowerCase();
+    const prelude: CSSComponentValue[] = [];
+    let block: CSSSimpleBlock | undefined;
+    let end = keyword.end;
+
+    while (!stream.done()) {
+      const item = stream.next() as CSSComponentValue;
+      end = item.end;
+      if (item.type === 'semicolon') break;
+      if (item.type === 'simple-block' && item.token.type === '{') {
+        block = item;
+        break;
+      }
+      prelude.push(item);
+    }
+
+    const node: AtRuleNode = {
+      type: 'at-rule',
+      name,
+      prelude: CSSSyntaxParser.serialize(prelude, this.source).trim(),
+      hasBlock: !!block,
+      loc: this.range(keyword.start, end)
+    };
+
+    if (block) {
+      const contents = new ComponentStream(block.value);
+      if (DECLARATION_AT_RULES.has(name) || (inDeclarationBlock && CONDITIONAL_AT_RULES.has(name))) {
+        const list = this.consumeDeclarationList(contents);
+        node.declarations = list.declarations;
+        if (list.rules.length > 0) node.rules = list.rules;
+      } else if (RULE_LIST_AT_RULES.has(name)) {
+        node.rules = this.consumeRuleList(contents, false);
+      }
+    }
+
+    return node;
+  }
+
+  private consumeQualifiedRule(stream: ComponentStream): StyleRuleNode | null {
+    const prelude: CSSComponentValue[] = [];
+    const start = (stream.peek() as CSSComponentValue).start;
+
+    while (!stream.done()) {
+      const item = stream.next() as CSSComponentValue;
+      if (item.type === 'simple-block' && item.token.type === '{') {
+        const { declarations, rules } = this.consumeDeclarationList(new ComponentStream(item.value));
+        return {
+          type: 'rule',
+          selector: CSSSyntaxParser.serialize(prelude, this.source).trim(),
+          declarations,
+          rules,
+          loc: this.range(start, item.end)
+        };
+      }
+      prelude.push(item);
+    }
+
+    // Reached the end of input without a block: parse error, rule dropped
+    return null;
+  }
+
+  private consumeDeclarationList(stream: ComponentStream): { declarations: DeclarationNode[]; rules: CSSNode[] } {
+    const declarations: DeclarationNode[] = [];
+    const rules: CSSNode[] = [];
+
+    while (!stream.done()) {
+      const item = stream.next() as CSSComponentValue;
+
+      if (item.type === 'whitespace' || item.type === 'semicolon') continue;
+
+      if (item.type === 'at-keyword') {
+        rules.push(this.consumeAtRule(item as CSSToken, stream, true));
+        continue;
+      }
+
+      // Collect everything up to the next semicolon, or up to and including a
+      // `{}` block, which makes the item a nested style rule (custom property
+      // values may contain blocks)
+      const isCustomProperty = item.type === 'ident' && (item as CSSToken).value.startsWith('--');
+      const parts: CSSComponentValue[] = [item];
+      let block: CSSSimpleBlock | null = CSSSyntaxParser.isCurlyBlock(item) ? item as CSSSimpleBlock : null;
+      while (!block && !stream.done() && (stream.peek() as CSSComponentValue).type !== 'semicolon') {
+        const part = stream.next() as CSSComponentValue;
+        parts.push(part);
+        if (!isCustomProperty && CSSSyntaxParser.isCurlyBlock(part)) block = part as CSSSimpleBlock;
+      }
+
+      if (block) {
+        const rule = this.consumeQualifiedRule(new ComponentStream(parts));
+        if (rule) rules.push(rule);
+      } else if (item.type === 'ident') {
+        const declaration = this.consumeDeclaration(parts);
+        if (declaration) declarations.push(declaration);
+      }
+      // Anything else is a parse error and the collected values are discarded
+    }
+
+    return { declarations, rules };
+  }
+
+  /**
+   * `not <in-parens>`, or `<in-parens>` joined by only `and` or only `or`
+   */
+  private supportsCondition(values: CSSComponentValue[]): boolean {
+    const keyword = (value: CSSComponentValue | undefined) =>
+      value?.type === 'ident' ? (value as CSSToken).value.toLowerCase() : '';
+
+    if (keyword(values[0]) === 'not') {
+      return values.length === 2 && !this.supportsInParens(values[1]);
+    }
+    if (values.length === 0 || values.length % 2 === 0) return false;
+
+    const operator = keyword(values[1]);
+    let result = this.supportsInParens(values[0]);
+    for (let i = 1; i < values.length; i += 2) {
+      if (keyword(values[i]) !== operator || (operator !== 'and' && operator !== 'or')) return false;
+      const next = this.supportsInParens(values[i + 1]);
+      result = operator === 'and' ? result && next : result || next;
+    }
+    return result;
+  }
+
+  private supportsInParens(value: CSSComponentValue): boolean {
+    if (value.type === 'function-block') {
+      return value.name.toLowerCase() === 'selector';
+    }
+    if (value.type !== 'simple-block' || value.token.type !== '(') return false;
+
+    const inner = value.value.filter(item => item.type !== 'whitespace');
+    const first = inner[0];
+    if (first?.type === 'ident' && inner[1]?.type === 'colon') {
+      const declaration = this.consumeDeclaration(value.value.slice(value.value.indexOf(first)));
+      return !!declaration && CSSSyntaxParser.supportsDeclaration(declaration.property, declaration.value);
+    }
+    return this.supportsCondition(inner);
+  }
+
+  private static supportsDeclaration(property: string, value: string): boolean {
+    if (property.startsWith('--')) return true;
+    const values = SUPPORTED_DECLARATIONS[property.toLowerCase()];
+    if (values === undefined || !value) return false;
+    if (values && !values.test(value.trim())) return false;
+
+    // Every function in the value must be one the converter evaluates
+    const functions = value.toLowerCase().match(/[a-z-]+(?=\()/g) || [];
+    return functions.every(name => SUPPORTED_FUNCTIONS.has(name));
+  }
+
+  private static isCurlyBlock(value: CSSComponentValue): boolean {
+    return value.type === 'simple-block' && value.token.type === '{';
+  }
+
+  private consumeDeclaration(parts: CSSComponentValue[]): DeclarationNode | null {
+    const nameToken = parts[0] as CSSToken;
+    let index = 1;
+    while (parts[index]?.type === 'whitespace') index++;
+    if (parts[index]?.type !== 'colon') return null;
+    index++;
+
+    const value = parts.slice(index);
+    let important = false;
+
+    // Trailing `! important` (with optional whitespace in between)
+    const significant = value.map((v, i) => ({ v, i })).filter(({ v }) => v.type !== 'whitespace');
+    const last = significant[significant.length - 1];
+    const beforeLast = significant[significant.length - 2];
+    if (
+      last && beforeLast &&
+      last.v.type === 'ident' && (last.v as CSSToken).value.toLowerCase() === 'important' &&
+      beforeLast.v.type === 'delim' && (beforeLast.v as CSSToken).value === '!'
+    ) {
+      important = true;
+      value.splice(beforeLast.i);
+    }
+
+    const property = nameToken.value.startsWith('--') ? nameToken.value : nameToken.value.toLowerCase();
+    const end = parts[parts.length - 1].end;
+
+    return {
+      type: 'declaration',
+      property,
+      value: CSSSyntaxParser.serialize(value, this.source).trim(),
+      important,
+      loc: this.range(nameToken.start, end)
+    };
+  }
+
+  private range(start: number, end: number): SourceRange {
+    return { start: this.position(start), end: this.position(end) };
+  }
+
+  private position(offset: number): SourcePosition {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { offset, line: low + 1, column: offset - this.lineStarts[low] + 1 };
+  }
+}
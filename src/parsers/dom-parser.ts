@@ -164,6 +164,9 @@ export class DOMParser {
     // Parse children or set text content
     if (content.includes('<')) {
       element.children = this.regexParse(content);
+      element.children.forEach(child => {
+        child.parentElement = element;
+      });
     } else {
       element.textContent = content.trim();
     }
@@ -11,6 +11,11 @@ export interface ParsedElement {
   textContent?: string;
   content?: string; // For text nodes
   classList?: string[]; // For CSS matching
+  parent?: ParsedElement; // For combinators and structural pseudo-classes
+  source?: string; // Original markup of inline <svg>, which is imported as a whole
+  pseudoElement?: 'before' | 'after'; // Generated ::before/::after box (not part of the source)
+  spaceBefore?: boolean; // Whitespace preceded the node in the source (significant in inline text)
+  spaceAfter?: boolean; // Whitespace followed the last node of its parent
 }
 
 export class SimpleHTMLParser {
@@ -28,11 +33,13 @@ export class SimpleHTMLParser {
   private parseHTML(html: string): ParsedElement[] {
     const elements: ParsedElement[] = [];
     let currentPos = 0;
+    let pendingSpace = false;
     
     while (currentPos < html.length) {
       // Skip whitespace
       while (currentPos < html.length && /\s/.test(html[currentPos])) {
         currentPos++;
+        pendingSpace = true;
       }
       
       if (currentPos >= html.length) break;
@@ -41,8 +48,10 @@ export class SimpleHTMLParser {
       if (html[currentPos] === '<') {
         const tagResult = this.parseTag(html, currentPos);
         if (tagResult) {
+          if (pendingSpace) tagResult.element.spaceBefore = true;
           elements.push(tagResult.element);
           currentPos = tagResult.endPos;
+          pendingSpace = false;
         } else {
           currentPos++;
         }
@@ -54,13 +63,19 @@ export class SimpleHTMLParser {
             type: 'text',
             content: textResult.text.trim(),
             textContent: textResult.text.trim(),
-            children: []
+            children: [],
+            ...(pendingSpace ? { spaceBefore: true } : {})
           });
+          pendingSpace = /\s$/.test(textResult.text);
         }
         currentPos = textResult ? textResult.endPos : currentPos + 1;
       }
     }
     
+    if (pendingSpace && elements.length > 0) {
+      elements[elements.length - 1].spaceAfter = true;
+    }
+    
     return elements;
   }
   
@@ -150,7 +165,15 @@ export class SimpleHTMLParser {
       if (closePos !== -1) {
         const innerHtml = html.substring(pos, closePos);
         element.children = this.parseHTML(innerHtml);
+        element.children.forEach(child => {
+          child.parent = element;
+        });
         pos = closePos + closeTag.length;
+        
+        // SVG is case- and namespace-sensitive, so keep it verbatim
+        if (tagName === 'svg') {
+          element.source = html.substring(startPos, pos);
+        }
       }
     }
     
@@ -10,208 +10,6 @@
 // Import the browser-grade converter
 import { HTMLToFigmaConverter } from '../conversion/html-to-figma-browsergrade';
 
-// Show the UI
-figma.showUI(__html__, { 
-  width: 400, 
-  height: 600,
-  title: "HTML to Figma (Browser-Grade)"
-});
-
-// Initialize converter
-const converter = new HTMLToFigmaConverter({
-  viewport: { width: 1920, height: 1080 },
-  rootFontSize: 16
-});
-
-// Handle messages from the UI
-figma.ui.onmessage = async (msg) => {
-  console.log('🔌 Plugin received message:', msg.type);
-  
-  if (msg.type === 'convert-html') {
-    try {
-      const { html, css } = msg;
-      
-      console.log('🚀 Starting browser-grade conversion...');
-      console.log('📝 HTML preview:', html.substring(0, 100) + '...');
-      console.log('🎨 CSS preview:', css.substring(0, 100) + '...');
-      
-      // Clear the current page
-      console.log('🗑️ Clearing current page...');
-      const nodesToRemove = [...figma.currentPage.children];
-      for (const node of nodesToRemove) {
-        node.remove();
-      }
-      
-      // Convert HTML/CSS to Figma node data
-      console.log('🔄 Converting with browser-grade engine...');
-      const nodeDataArray = await converter.convert(html, css);
-      
-      console.log(`📦 Received ${nodeDataArray.length} nodes to create`);
-      
-      // Create actual Figma nodes
-      const createdNodes: SceneNode[] = [];
-      for (const nodeData of nodeDataArray) {
-        const node = await createFigmaNodeFromData(nodeData);
-        if (node) {
-          createdNodes.push(node);
-        }
-      }
-      
-      // Select and zoom to the created nodes
-      if (createdNodes.length > 0) {
-        figma.currentPage.selection = createdNodes;
-        figma.viewport.scrollAndZoomIntoView(createdNodes);
-      }
-      
-      // Send success message
-      figma.ui.postMessage({
-        type: 'conversion-complete',
-        message: `Successfully created ${createdNodes.length} elements with browser-grade engine!`
-      });
-      
-      console.log('✅ Conversion complete!');
-      
-    } catch (error) {
-      console.error('❌ Conversion error:', error);
-      figma.ui.postMessage({
-        type: 'conversion-error',
-        message: error.message || 'An error occurred during conversion'
-      });
-    }
-  }
-  
-  if (msg.type === 'cancel') {
-    figma.closePlugin();
-  }
-};
-
-/**
- * Create actual Figma nodes from node data
- */
-async function createFigmaNodeFromData(nodeData: any, parent?: BaseNode): Promise<SceneNode | null> {
-  try {
-    let node: SceneNode;
-    
-    console.log(`🔨 Creating ${nodeData.type} node: ${nodeData.name}`);
-    
-    // Create appropriate node type
-    if (nodeData.type === 'TEXT') {
-      // Load font first
-      const fontName = nodeData.fontName || { family: 'Inter', style: 'Regular' };
-      
-      console.log(`📝 Loading font: ${fontName.family} ${fontName.style}`);
-      await figma.loadFontAsync(fontName);
-      
-      node = figma.createText();
-      const textNode = node as TextNode;
-      
-      // Set font
-      textNode.fontName = fontName;
-      
-      // Set text content
-      if (nodeData.characters) {
-        textNode.characters = nodeData.characters;
-      }
-      
-      // Set text properties
-      if (nodeData.fontSize) textNode.fontSize = nodeData.fontSize;
-      if (nodeData.lineHeight) textNode.lineHeight = nodeData.lineHeight;
-      if (nodeData.letterSpacing) textNode.letterSpacing = nodeData.letterSpacing;
-      if (nodeData.textAlignHorizontal) textNode.textAlignHorizontal = nodeData.textAlignHorizontal;
-      if (nodeData.textCase) textNode.textCase = nodeData.textCase;
-      if (nodeData.textDecoration) textNode.textDecoration = nodeData.textDecoration;
-      
-    } else {
-      // Create frame
-      node = figma.createFrame();
-      const frame = node as FrameNode;
-      
-      // Apply auto layout if specified
-      if (nodeData.layoutMode && nodeData.layoutMode !== 'NONE') {
-        console.log(`📐 Applying auto layout: ${nodeData.layoutMode}`);
-        frame.layoutMode = nodeData.layoutMode;
-        
-        if (nodeData.itemSpacing !== undefined) frame.itemSpacing = nodeData.itemSpacing;
-        if (nodeData.paddingTop !== undefined) frame.paddingTop = nodeData.paddingTop;
-        if (nodeData.paddingRight !== undefined) frame.paddingRight = nodeData.paddingRight;
-        if (nodeData.paddingBottom !== undefined) frame.paddingBottom = nodeData.paddingBottom;
-        if (nodeData.paddingLeft !== undefined) frame.paddingLeft = nodeData.paddingLeft;
-        
-        if (nodeData.primaryAxisAlignItems) frame.primaryAxisAlignItems = nodeData.primaryAxisAlignItems;
-        if (nodeData.counterAxisAlignItems) frame.counterAxisAlignItems = nodeData.counterAxisAlignItems;
-        
-        if (nodeData.layoutSizingHorizontal) frame.layoutSizingHorizontal = nodeData.layoutSizingHorizontal;
-        if (nodeData.layoutSizingVertical) frame.layoutSizingVertical = nodeData.layoutSizingVertical;
-      }
-    }
-    
-    // Apply common properties
-    node.name = nodeData.name;
-    
-    // Set position and size
-    if (!parent || (parent && 'layoutMode' in parent && parent.layoutMode === 'NONE')) {
-      node.x = nodeData.x || 0;
-      node.y = nodeData.y || 0;
-    }
-    
-    // Resize only if not using auto layout sizing
-    if (nodeData.width && nodeData.height) {
-      if (node.type === 'FRAME') {
-        const frame = node as FrameNode;
-        if (!frame.layoutMode || 
-            (frame.layoutSizingHorizontal === 'FIXED' && frame.layoutSizingVertical === 'FIXED')) {
-          node.resize(nodeData.width, nodeData.height);
-        }
-      } else {
-        node.resize(nodeData.width, nodeData.height);
-      }
-    }
-    
-    // Apply visual properties
-    if (nodeData.fills) {
-      console.log(`🎨 Applying fills:`, nodeData.fills);
-      node.fills = nodeData.fills;
-    }
-    
-    if (nodeData.strokes) {
-      console.log(`🖌️ Applying strokes:`, nodeData.strokes);
-      node.strokes = nodeData.strokes;
-    }
-    
-    if (nodeData.strokeWeight !== undefined) node.strokeWeight = nodeData.strokeWeight;
-    if (nodeData.strokeAlign) node.strokeAlign = nodeData.strokeAlign;
-    if (nodeData.cornerRadius !== undefined) {
-      if ('cornerRadius' in node) {
-        node.cornerRadius = nodeData.cornerRadius;
-      }
-    }
-    if (nodeData.opacity !== undefined) node.opacity = nodeData.opacity;
-    
-    // Add to parent or current page
-    if (parent) {
-      parent.appendChild(node);
-    } else {
-      figma.currentPage.appendChild(node);
-    }
-    
-    // Process children
-    if (nodeData.children && node.type === 'FRAME') {
-      console.log(`👶 Processing ${nodeData.children.length} children`);
-      for (const childData of nodeData.children) {
-        await createFigmaNodeFromData(childData, node);
-      }
-    }
-    
-    console.log(`✅ Created node: ${node.name}`);
-    return node;
-    
-  } catch (error) {
-    console.error('❌ Failed to create node:', error);
-    console.error('Node data:', nodeData);
-    return null;
-  }
-}
-
 // UI HTML (embedded)
 const __html__ = `
 <!DOCTYPE html>
@@ -297,6 +95,18 @@ const __html__ = `
       border-color: #0066ff;
     }
     
+    .breakpoints-group {
+      margin-bottom: 16px;
+    }
+    
+    .breakpoints-group input {
+      width: 100%;
+      border: 1px solid #ddd;
+      border-radius: 4px;
+      padding: 8px;
+      font-size: 12px;
+    }
+    
     #htmlInput {
       min-height: 150px;
     }
@@ -415,6 +225,11 @@ p {
 }'></textarea>
     </div>
     
+    <div class="breakpoints-group">
+      <label for="breakpointsInput">Breakpoints (optional)</label>
+      <input id="breakpointsInput" type="text" placeholder="375, 768, 1440">
+    </div>
+    
     <div class="examples">
       <span style="color: #666;">Examples:</span>
       <a class="example-link" onclick="loadExample('card')">Card</a>
@@ -434,6 +249,10 @@ p {
     function convert() {
       const html = document.getElementById('htmlInput').value;
       const css = document.getElementById('cssInput').value;
+      const breakpoints = document.getElementById('breakpointsInput').value
+        .split(',')
+        .map(value => parseInt(value, 10))
+        .filter(width => width > 0);
       
       if (!html.trim()) {
         showMessage('Please enter some HTML', 'error');
@@ -444,7 +263,8 @@ p {
         pluginMessage: {
           type: 'convert-html',
           html: html,
-          css: css
+          css: css,
+          breakpoints: breakpoints
         }
       }, '*');
       
@@ -500,4 +320,220 @@ p {
   </script>
 </body>
 </html>
-`;
\ No newline at end of file
+`;
+
+// Show the UI
+figma.showUI(__html__, { 
+  width: 400, 
+  height: 600,
+  title: "HTML to Figma (Browser-Grade)"
+});
+
+// Initialize converter
+const converter = new HTMLToFigmaConverter({
+  viewport: { width: 1920, height: 1080 },
+  rootFontSize: 16
+});
+
+// Handle messages from the UI
+figma.ui.onmessage = async (msg) => {
+  console.log('🔌 Plugin received message:', msg.type);
+  
+  if (msg.type === 'convert-html') {
+    try {
+      const { html, css, breakpoints } = msg;
+      
+      console.log('🚀 Starting browser-grade conversion...');
+      console.log('📝 HTML preview:', html.substring(0, 100) + '...');
+      console.log('🎨 CSS preview:', css.substring(0, 100) + '...');
+      
+      // Clear the current page
+      console.log('🗑️ Clearing current page...');
+      const nodesToRemove = [...figma.currentPage.children];
+      for (const node of nodesToRemove) {
+        node.remove();
+      }
+      
+      // Convert HTML/CSS to Figma node data
+      console.log('🔄 Converting with browser-grade engine...');
+      // Breakpoints render one side-by-side frame per width
+      const activeConverter = breakpoints && breakpoints.length > 0
+        ? new HTMLToFigmaConverter({
+            viewport: { width: 1920, height: 1080 },
+            rootFontSize: 16,
+            breakpoints
+          })
+        : converter;
+      const nodeDataArray = await activeConverter.convert(html, css);
+      
+      console.log(`📦 Received ${nodeDataArray.length} nodes to create`);
+      
+      // Create actual Figma nodes
+      const createdNodes: SceneNode[] = [];
+      for (const nodeData of nodeDataArray) {
+        const node = await createFigmaNodeFromData(nodeData);
+        if (node) {
+          createdNodes.push(node);
+        }
+      }
+      
+      // Select and zoom to the created nodes
+      if (createdNodes.length > 0) {
+        figma.currentPage.selection = createdNodes;
+        figma.viewport.scrollAndZoomIntoView(createdNodes);
+      }
+      
+      // Send success message
+      figma.ui.postMessage({
+        type: 'conversion-complete',
+        message: `Successfully created ${createdNodes.length} elements with browser-grade engine!`
+      });
+      
+      console.log('✅ Conversion complete!');
+      
+    } catch (error) {
+      console.error('❌ Conversion error:', error);
+      figma.ui.postMessage({
+        type: 'conversion-error',
+        message: (error instanceof Error && error.message) || 'An error occurred during conversion'
+      });
+    }
+  }
+  
+  if (msg.type === 'cancel') {
+    figma.closePlugin();
+  }
+};
+
+/**
+ * Create actual Figma nodes from node data
+ */
+async function createFigmaNodeFromData(nodeData: any, parent?: FrameNode): Promise<SceneNode | null> {
+  try {
+    let node: SceneNode;
+    
+    console.log(`🔨 Creating ${nodeData.type} node: ${nodeData.name}`);
+    
+    // Create appropriate node type
+    if (nodeData.type === 'TEXT') {
+      // Load font first
+      const fontName = nodeData.fontName || { family: 'Inter', style: 'Regular' };
+      
+      console.log(`📝 Loading font: ${fontName.family} ${fontName.style}`);
+      await figma.loadFontAsync(fontName);
+      
+      node = figma.createText();
+      const textNode = node as TextNode;
+      
+      // Set font
+      textNode.fontName = fontName;
+      
+      // Set text content
+      if (nodeData.characters) {
+        textNode.characters = nodeData.characters;
+      }
+      
+      // Set text properties
+      if (nodeData.fontSize) textNode.fontSize = nodeData.fontSize;
+      if (nodeData.lineHeight) textNode.lineHeight = nodeData.lineHeight;
+      if (nodeData.letterSpacing) textNode.letterSpacing = nodeData.letterSpacing;
+      if (nodeData.textAlignHorizontal) textNode.textAlignHorizontal = nodeData.textAlignHorizontal;
+      if (nodeData.textCase) textNode.textCase = nodeData.textCase;
+      if (nodeData.textDecoration) textNode.textDecoration = nodeData.textDecoration;
+      
+      // Plugins can't enable OpenType features, so they are recorded for the designer
+      if (nodeData.openTypeFeatures) {
+        textNode.setPluginData('openTypeFeatures', JSON.stringify(nodeData.openTypeFeatures));
+        console.warn(`⚠️ Enable OpenType features ${Object.keys(nodeData.openTypeFeatures).join(', ')} on "${nodeData.name}" by hand`);
+      }
+      
+    } else {
+      // Create frame
+      node = figma.createFrame();
+      const frame = node as FrameNode;
+      
+      // Apply auto layout if specified
+      if (nodeData.layoutMode && nodeData.layoutMode !== 'NONE') {
+        console.log(`📐 Applying auto layout: ${nodeData.layoutMode}`);
+        frame.layoutMode = nodeData.layoutMode;
+        
+        if (nodeData.itemSpacing !== undefined) frame.itemSpacing = nodeData.itemSpacing;
+        if (nodeData.paddingTop !== undefined) frame.paddingTop = nodeData.paddingTop;
+        if (nodeData.paddingRight !== undefined) frame.paddingRight = nodeData.paddingRight;
+        if (nodeData.paddingBottom !== undefined) frame.paddingBottom = nodeData.paddingBottom;
+        if (nodeData.paddingLeft !== undefined) frame.paddingLeft = nodeData.paddingLeft;
+        
+        if (nodeData.primaryAxisAlignItems) frame.primaryAxisAlignItems = nodeData.primaryAxisAlignItems;
+        if (nodeData.counterAxisAlignItems) frame.counterAxisAlignItems = nodeData.counterAxisAlignItems;
+        
+        if (nodeData.layoutSizingHorizontal) frame.layoutSizingHorizontal = nodeData.layoutSizingHorizontal;
+        if (nodeData.layoutSizingVertical) frame.layoutSizingVertical = nodeData.layoutSizingVertical;
+      }
+    }
+    
+    // Apply common properties
+    node.name = nodeData.name;
+    
+    // Set position and size
+    if (!parent || (parent && 'layoutMode' in parent && parent.layoutMode === 'NONE')) {
+      node.x = nodeData.x || 0;
+      node.y = nodeData.y || 0;
+    }
+    
+    // Resize only if not using auto layout sizing
+    if (nodeData.width && nodeData.height) {
+      if (node.type === 'FRAME') {
+        const frame = node as FrameNode;
+        if (!frame.layoutMode || 
+            (frame.layoutSizingHorizontal === 'FIXED' && frame.layoutSizingVertical === 'FIXED')) {
+          node.resize(nodeData.width, nodeData.height);
+        }
+      } else {
+        node.resize(nodeData.width, nodeData.height);
+      }
+    }
+    
+    // Apply visual properties
+    if (nodeData.fills) {
+      console.log(`🎨 Applying fills:`, nodeData.fills);
+      node.fills = nodeData.fills;
+    }
+    
+    if (nodeData.strokes) {
+      console.log(`🖌️ Applying strokes:`, nodeData.strokes);
+      node.strokes = nodeData.strokes;
+    }
+    
+    if (nodeData.strokeWeight !== undefined) node.strokeWeight = nodeData.strokeWeight;
+    if (nodeData.strokeAlign) node.strokeAlign = nodeData.strokeAlign;
+    if (nodeData.cornerRadius !== undefined) {
+      if ('cornerRadius' in node) {
+        node.cornerRadius = nodeData.cornerRadius;
+      }
+    }
+    if (nodeData.opacity !== undefined) node.opacity = nodeData.opacity;
+    
+    // Add to parent or current page
+    if (parent) {
+      parent.appendChild(node);
+    } else {
+      figma.currentPage.appendChild(node);
+    }
+    
+    // Process children
+    if (nodeData.children && node.type === 'FRAME') {
+      console.log(`👶 Processing ${nodeData.children.length} children`);
+      for (const childData of nodeData.children) {
+        await createFigmaNodeFromData(childData, node);
+      }
+    }
+    
+    console.log(`✅ Created node: ${node.name}`);
+    return node;
+    
+  } catch (error) {
+    console.error('❌ Failed to create node:', error);
+    console.error('Node data:', nodeData);
+    return null;
+  }
+}
@@ -1,9 +1,11 @@
 // Final main.ts with all critical fixes
-import { HTMLToFigmaConverter } from '../conversion/html-to-figma';
+import { HTMLToFigmaConverter, ComponentOverride } from '../conversion/html-to-figma';
 import { ColorParser } from '../utils/color-parser-enhanced';
 import { FixedFontManager } from '../utils/font-manager-fixed';
 import { CSSPropertyExtractor } from '../utils/css-property-extractor';
 import { SizingStrategy } from '../utils/sizing-strategy';
+import { FontResolver, FontFallbackError } from '../figma/font-resolver';
+import { LinkMapper } from '../figma/link-mapper';
 
 // CRITICAL: Test if this file is being loaded
 console.log('🚨 PLUGIN LOADED - Testing if this file is active');
@@ -53,7 +55,7 @@ function testQuoteRemoval() {
 testQuoteRemoval();
 
 // Show UI
-figma.showUI(__html__, { width: 400, height: 600 });
+figma.showUI(__html__, { width: 400, height: 640 });
 
 // Handle messages from UI
 figma.ui.onmessage = async (msg) => {
@@ -73,13 +75,16 @@ figma.ui.onmessage = async (msg) => {
       // Create converter
       const converter = new HTMLToFigmaConverter({
         useAutoLayout: true,
-        createLocalStyles: false,
-        useExistingStyles: false,
-        detectComponents: false,
-        preserveHyperlinks: false,
+        createLocalStyles: !!msg.createLocalStyles,
+        useExistingStyles: !!msg.useExistingStyles,
+        detectComponents: !!msg.detectComponents,
+        preserveHyperlinks: msg.preserveHyperlinks !== false,
         highResImages: false,
-        fontFallbacks: 'auto' as const
+        fontFallbacks: msg.fontFallbacks || 'auto',
+        viewport: msg.viewport
       });
+      fontResolver = new FontResolver(msg.fontFallbacks || 'auto');
+      linkMapper = new LinkMapper();
       
       // Store CSS text for verification
       const cssText = msg.css || '';
@@ -128,12 +133,18 @@ figma.ui.onmessage = async (msg) => {
       }
       
       const elements = await converter.convert(msg.html || '', msg.css || '');
+      mainComponents.clear();
       console.log('[PLUGIN] Converter returned', elements.length, 'elements');
       
       if (elements.length === 0) {
         throw new Error('No elements to convert');
       }
       
+      // Strict font fallbacks refuse the conversion before any layer is created
+      if (msg.fontFallbacks === 'strict') {
+        await checkFonts(elements);
+      }
+      
       // Create container for all elements
       const container = figma.createFrame();
       container.name = 'body';  // ✅ Keep as 'body' not 'Converted HTML'
@@ -236,13 +247,19 @@ figma.ui.onmessage = async (msg) => {
       // Post-processing: Apply margin-bottom as spacing between siblings
       applyMarginBottomSpacing(container);
       
+      // Links are applied once every layer exists; only URLs and #/#top resolve here,
+      // the description tree doesn't keep element ids for other fragments
+      await linkMapper.apply(new Map(), container);
+      
       // Select and zoom
       figma.currentPage.selection = [container];
       figma.viewport.scrollAndZoomIntoView([container]);
       
       figma.ui.postMessage({ 
         type: 'success', 
-        message: `Created ${elements.length} elements` 
+        message: `Created ${elements.length} elements`,
+        fontSubstitutions: fontResolver.substitutions().map(({ missing, resolved, elements }) =>
+          `${missing} → ${resolved.family} ${resolved.style} (${elements.length} text layer${elements.length === 1 ? '' : 's'})`)
       });
       
     } catch (error) {
@@ -288,11 +305,93 @@ async function createNodeWithFixes(element: any, parent: FrameNode): Promise<Sce
     'align-items': element.alignItems
   });
   
+  if (element.componentRole === 'INSTANCE' && mainComponents.has(element.componentKey)) {
+    return await createInstanceWithOverrides(element, parent);
+  }
+  
   if (element.type === 'TEXT') {
     return await createTextNodeWithFixes(element, parent, properties);
-  } else {
-    return await createFrameNodeWithFixes(element, parent, properties);
   }
+  
+  const frame = await createFrameNodeWithFixes(element, parent, properties);
+  if (element.hyperlink) {
+    linkMapper.addBlockLink(frame, element.hyperlink);
+  }
+  if (element.componentRole === 'MAIN') {
+    const component = figma.createComponentFromNode(frame);
+    mainComponents.set(element.componentKey, component);
+    console.log(`🧩 Created main component: ${component.name}`);
+    return component;
+  }
+  return frame;
+}
+
+// Main components created for repeated structures (detectComponents), by component key
+const mainComponents = new Map<string, ComponentNode>();
+
+// Resolves text fonts to available ones for the current conversion (fontFallbacks)
+let fontResolver = new FontResolver();
+
+// Collects the links of the current conversion (preserveHyperlinks)
+let linkMapper = new LinkMapper();
+
+// Resolve the font of every text, throwing a FontFallbackError if any is missing
+async function checkFonts(elements: any[]): Promise<void> {
+  const visit = async (element: any): Promise<void> => {
+    if (element.type === 'TEXT' && String(element.characters || '').trim()) {
+      await fontResolver.resolve(element.fontFamily, element.fontWeight, element.fontStyle, describeText(element));
+    }
+    for (const child of element.children || []) {
+      await visit(child);
+    }
+  };
+  for (const element of elements) {
+    await visit(element);
+  }
+  
+  const substitutions = fontResolver.substitutions();
+  if (substitutions.length > 0) {
+    throw new FontFallbackError(substitutions);
+  }
+}
+
+// Layer name and start of a text, for the font report
+function describeText(element: any): string {
+  const content = String(element.characters || '').trim();
+  const snippet = content.length > 24 ? `${content.slice(0, 24)}…` : content;
+  return `${element.name} "${snippet}"`;
+}
+
+// Create an instance of a main component and apply its text/fill overrides
+async function createInstanceWithOverrides(element: any, parent: FrameNode): Promise<InstanceNode> {
+  const instance = mainComponents.get(element.componentKey)!.createInstance();
+  parent.appendChild(instance);
+  instance.name = element.name;
+  
+  const overrides: ComponentOverride[] = element.componentOverrides || [];
+  for (const override of overrides) {
+    let target: SceneNode | undefined = instance;
+    for (const index of override.path) {
+      target = target && 'children' in target ? target.children[index] : undefined;
+    }
+    if (!target) continue;
+    
+    try {
+      if (override.characters !== undefined && target.type === 'TEXT') {
+        await figma.loadFontAsync(target.fontName as FontName);
+        target.characters = override.characters;
+      }
+      if (override.fills && 'fills' in target) {
+        // Same paints the frame would have been given, gradients and images included
+        target.fills = override.fills as Paint[];
+      }
+    } catch (error) {
+      console.warn('[COMPONENTS] Failed to apply override:', override, error);
+    }
+  }
+  
+  console.log(`🧩 Created instance of ${element.componentKey} with ${overrides.length} override(s)`);
+  return instance;
 }
 
 // Helper function to determine if text should fill container width
@@ -341,6 +440,21 @@ async function createTextNodeWithFixes(element: any, parent: FrameNode, properti
     parent
   );
   
+  // Swap in the font the CSS asks for, or its fallback; substitutions are marked on the layer
+  const { fontName, substitution } = await fontResolver.resolve(
+    element.fontFamily, element.fontWeight, element.fontStyle, describeText(element)
+  );
+  textNode.fontName = fontName;
+  if (substitution) {
+    const { requested, missing, resolved } = substitution;
+    textNode.setPluginData('fontSubstitutions', JSON.stringify([{ requested, missing, resolved }]));
+  }
+  
+  if (element.hyperlink) {
+    const start = textNode.characters.length - textNode.characters.replace(/^\s+/, '').length;
+    linkMapper.addTextLink(textNode, start, textNode.characters.length, element.hyperlink);
+  }
+  
   // ✅ Preserve original CSS class names for text nodes too
   if ((element as any).className) {
     textNode.name = (element as any).className;
@@ -374,6 +488,8 @@ async function createTextNodeWithFixes(element: any, parent: FrameNode, properti
     }
   }
   
+  await applyLocalStyleIds(textNode, element);
+  
   return textNode;
 }
 
@@ -996,9 +1112,22 @@ async function createFrameNodeWithFixes(element: any, parent: FrameNode, propert
     console.log('[ORDER] Step 6: Processed', element.children.length, 'children');
   }
   
+  await applyLocalStyleIds(frame, element);
+  
   return frame;
 }
 
+// Reference the local styles the converter assigned (createLocalStyles / useExistingStyles)
+async function applyLocalStyleIds(node: FrameNode | TextNode, element: any): Promise<void> {
+  try {
+    if (element.fillStyleId) await node.setFillStyleIdAsync(element.fillStyleId);
+    if (element.effectStyleId) await node.setEffectStyleIdAsync(element.effectStyleId);
+    if (element.textStyleId && node.type === 'TEXT') await node.setTextStyleIdAsync(element.textStyleId);
+  } catch (error) {
+    console.warn('[STYLES] Failed to apply local styles:', error);
+  }
+}
+
 // Post-process to fix width issues
 function fixWidthIssues(node: SceneNode, depth = 0): void {
   const indent = '  '.repeat(depth);
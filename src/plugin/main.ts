@@ -4,7 +4,23 @@
 
 import { FigmaCompatibleCSSEngine, ComputedStyle } from '../engine/css-engine-figma';
 import { SimpleFigmaCSSParser, CSSRule } from '../parsers/simple-css-parser-figma';
-import { SimpleHTMLParser } from '../parsers/simple-html-parser';
+import { SimpleHTMLParser, ParsedElement } from '../parsers/simple-html-parser';
+import { MediaEnvironment } from '../engine/media-query-evaluator';
+import { VariableMapper, TokenVariables } from '../figma/variable-mapper';
+import { GradientMapper } from '../figma/gradient-mapper';
+import { ImageMapper, ImageSources } from '../figma/image-mapper';
+import { SvgMapper } from '../figma/svg-mapper';
+import { PositionMapper, ContainingBlock } from '../figma/position-mapper';
+import { StackingMapper } from '../figma/stacking-mapper';
+import { TransformMapper } from '../figma/transform-mapper';
+import { EffectMapper } from '../figma/effect-mapper';
+import { BorderMapper } from '../figma/border-mapper';
+import { FontResolver, FontSubstitution, FontFallbackMode, FontFallbackError, ResolvedFont } from '../figma/font-resolver';
+import { LinkMapper } from '../figma/link-mapper';
+import { ConversionOptions } from '../types/conversion-options';
+import { TextMapper } from '../figma/text-mapper';
+import { ValueResolver } from '../engine/value-resolver';
+import { InteractiveState } from '../engine/selector-engine';
 
 console.log('🚀 Loading Browser-Grade CSS Converter (FIXED VERSION)...');
 
@@ -48,6 +64,13 @@ const __html__ = `
       margin-top: 16px; 
       min-height: 24px; 
       color: #333; 
+      white-space: pre-line;
+    }
+    .font-report {
+      margin: 8px 0 0;
+      padding-left: 18px;
+      font-size: 12px;
+      color: #8a6d3b;
     }
     label {
       display: block;
@@ -55,6 +78,31 @@ const __html__ = `
       font-weight: 500;
       color: #333;
     }
+    label.option {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      margin-bottom: 12px;
+      font-weight: normal;
+    }
+    select {
+      width: 100%;
+      margin-bottom: 12px;
+      padding: 6px;
+    }
+    .viewport {
+      display: flex;
+      gap: 8px;
+      margin-bottom: 12px;
+    }
+    .viewport input,
+    .viewport select {
+      flex: 1;
+      min-width: 0;
+      margin-bottom: 0;
+      padding: 6px;
+      box-sizing: border-box;
+    }
   </style>
 </head>
 <body>
@@ -66,20 +114,105 @@ const __html__ = `
     <label for="css-input">CSS:</label>
     <textarea id="css-input" placeholder="Paste CSS here..."></textarea>
     
+    <label for="viewport-width">Viewport (for @media queries):</label>
+    <div class="viewport">
+      <input type="number" id="viewport-width" min="1" value="1400" title="Width">
+      <input type="number" id="viewport-height" min="1" value="800" title="Height">
+      <select id="color-scheme" title="prefers-color-scheme">
+        <option value="light">Light</option>
+        <option value="dark">Dark</option>
+      </select>
+    </div>
+    
+    <label class="option">
+      <input type="checkbox" id="reduced-motion">
+      Prefer reduced motion
+    </label>
+    
+    <label class="option">
+      <input type="checkbox" id="create-variables">
+      Create variables from :root custom properties
+    </label>
+    
+    <label class="option">
+      <input type="checkbox" id="state-variants">
+      Create state variants from :hover, :focus, :active and :disabled rules
+    </label>
+    
+    <label class="option">
+      <input type="checkbox" id="preserve-hyperlinks" checked>
+      Keep links as hyperlinks and open-URL interactions
+    </label>
+    
+    <label for="font-fallbacks">Missing fonts:</label>
+    <select id="font-fallbacks">
+      <option value="auto">Substitute and report</option>
+      <option value="strict">Stop and list them</option>
+      <option value="ignore">Use Inter silently</option>
+    </select>
+    
     <button id="convert-btn">Convert to Figma</button>
     <div class="status" id="status"></div>
+    <ul class="font-report" id="font-report"></ul>
   </div>
 
   <script>
     const htmlInput = document.getElementById('html-input');
     const cssInput = document.getElementById('css-input');
+    const viewportWidthInput = document.getElementById('viewport-width');
+    const viewportHeightInput = document.getElementById('viewport-height');
+    const colorSchemeInput = document.getElementById('color-scheme');
+    const reducedMotionInput = document.getElementById('reduced-motion');
+    const createVariablesInput = document.getElementById('create-variables');
+    const stateVariantsInput = document.getElementById('state-variants');
+    const fontFallbacksInput = document.getElementById('font-fallbacks');
+    const preserveHyperlinksInput = document.getElementById('preserve-hyperlinks');
     const convertBtn = document.getElementById('convert-btn');
     const statusDiv = document.getElementById('status');
+    const fontReport = document.getElementById('font-report');
+
+    // Image files pasted into the HTML box become <img> tags with blob: URLs
+    htmlInput.addEventListener('paste', (event) => {
+      const files = Array.from(event.clipboardData ? event.clipboardData.files : [])
+        .filter(file => file.type.startsWith('image/'));
+      if (files.length === 0) return;
+      
+      event.preventDefault();
+      const tags = files.map(file => '<img src="' + URL.createObjectURL(file) + '" alt="' + file.name + '">');
+      htmlInput.setRangeText(tags.join('\\n'), htmlInput.selectionStart, htmlInput.selectionEnd, 'end');
+    });
+    
+    // The plugin has no network access, so image bytes are resolved here:
+    // data: URIs and blobs from the paste. Other sources become placeholders.
+    async function loadImages(html, css) {
+      const sources = new Set();
+      const doc = new DOMParser().parseFromString(html, 'text/html');
+      doc.querySelectorAll('img[src]').forEach(img => sources.add(img.getAttribute('src').trim()));
+      
+      const urlPattern = /url\\(\\s*(['"]?)([\\s\\S]*?)\\1\\s*\\)/gi;
+      [html, css].forEach(text => {
+        let match;
+        while ((match = urlPattern.exec(text))) sources.add(match[2].trim());
+      });
+      
+      const images = {};
+      for (const src of sources) {
+        if (!/^(data|blob):/i.test(src)) continue;
+        try {
+          const response = await fetch(src);
+          images[src] = new Uint8Array(await response.arrayBuffer());
+        } catch (error) {
+          console.warn('⚠️ Could not load image', src.slice(0, 64), error);
+        }
+      }
+      return images;
+    }
 
-    convertBtn.onclick = () => {
+    convertBtn.onclick = async () => {
       console.log('🚀 Convert button clicked');
       statusDiv.textContent = 'Converting...';
       statusDiv.style.color = '#666';
+      fontReport.innerHTML = '';
       
       const html = htmlInput.value.trim();
       const css = cssInput.value.trim();
@@ -90,11 +223,24 @@ const __html__ = `
         return;
       }
       
+      const images = await loadImages(html, css);
+      
       parent.postMessage({
         pluginMessage: {
           type: 'convert',
           html: html,
-          css: css
+          css: css,
+          images: images,
+          viewport: {
+            width: Number(viewportWidthInput.value) || 1400,
+            height: Number(viewportHeightInput.value) || 800,
+            colorScheme: colorSchemeInput.value,
+            reducedMotion: reducedMotionInput.checked
+          },
+          createVariables: createVariablesInput.checked,
+          stateVariants: stateVariantsInput.checked,
+          fontFallbacks: fontFallbacksInput.value,
+          preserveHyperlinks: preserveHyperlinksInput.checked
         }
       }, '*');
     };
@@ -109,6 +255,13 @@ const __html__ = `
       } else if (msg.type === 'success') {
         statusDiv.textContent = '✅ ' + msg.message;
         statusDiv.style.color = '#2e7d32';
+        
+        // Fonts that weren't available, and what replaced them
+        (msg.fontSubstitutions || []).forEach(substitution => {
+          const item = document.createElement('li');
+          item.textContent = substitution;
+          fontReport.appendChild(item);
+        });
       } else if (msg.type === 'error') {
         statusDiv.textContent = '❌ Error: ' + msg.message;
         statusDiv.style.color = '#d32f2f';
@@ -123,13 +276,57 @@ const __html__ = `
 // BROWSER-GRADE CONVERTER CLASS (FIXED)
 // ========================================
 
+/** Text in one style, from a text node or an inline formatting context */
+interface TextRun {
+  text: string;
+  computedStyle: ComputedStyle;
+  /** The parsed text node or <br> the run came from */
+  source: any;
+}
+
+/** Inline elements that are replaced content, never part of a text run */
+const REPLACED_ELEMENTS = new Set(['img', 'svg', 'input', 'button', 'select', 'textarea', 'video', 'canvas', 'iframe']);
+
+/** Variant order of the State property */
+const STATE_VARIANT_NAMES: Record<InteractiveState, string> = {
+  hover: 'Hover',
+  focus: 'Focus',
+  active: 'Active',
+  disabled: 'Disabled'
+};
+
 class BrowserGradeConverter {
   private cssEngine: FigmaCompatibleCSSEngine;
   private computedStylesMap: Map<any, ComputedStyle> = new Map();
+  private viewport: MediaEnvironment;
+  private tokenVariables: TokenVariables | null = null;
+  private imageMapper: ImageMapper;
+  private fontResolver: FontResolver;
+  private linkMapper = new LinkMapper();
+  private containingBlocks: ContainingBlock[] = [];
+  private positionedNodes: Map<SceneNode, { computedStyle: ComputedStyle; containingBlock: ContainingBlock }> = new Map();
+  private nodeStyles: Map<SceneNode, ComputedStyle> = new Map();
+  private elementNodes: Map<any, SceneNode> = new Map();
+  private options: ConversionOptions;
   
-  constructor() {
+  constructor(
+    viewport: MediaEnvironment = { width: 1400, height: 800 },
+    images: ImageSources = {},
+    options: ConversionOptions = {}
+  ) {
     console.log('🏗️ Initializing Browser-Grade Converter (Fixed)');
     this.cssEngine = new FigmaCompatibleCSSEngine();
+    this.viewport = viewport;
+    this.imageMapper = new ImageMapper(images);
+    this.fontResolver = new FontResolver(options.fontFallbacks);
+    this.options = options;
+  }
+  
+  /**
+   * Fonts that were replaced by another family or face during conversion
+   */
+  get fontSubstitutions(): FontSubstitution[] {
+    return this.fontResolver.substitutions();
   }
   
   async convert(html: string, css: string): Promise<FrameNode[]> {
@@ -156,6 +353,16 @@ class BrowserGradeConverter {
       this.computeAllStyles(elements, cssRules, this.computedStylesMap);
       console.log(`✅ Computed styles for ${this.computedStylesMap.size} elements`);
       
+      // Strict font fallbacks refuse to convert before anything is created
+      if (this.options.fontFallbacks === 'strict') {
+        await this.checkFonts();
+      }
+      
+      // Custom properties on :root become Figma Variables
+      this.tokenVariables = this.options.createVariables
+        ? await VariableMapper.createVariables(VariableMapper.collectTokens(cssRules, this.viewport))
+        : null;
+      
       // 4. Create root frame FIRST
       console.log('🔧 Creating root frame...');
       const rootFrame = figma.createFrame();
@@ -169,9 +376,18 @@ class BrowserGradeConverter {
       const bodyElement = elements.find(el => el.tagName === 'body') || elements[0];
       const bodyStyle = this.computedStylesMap.get(bodyElement);
       
+      if (this.tokenVariables) {
+        const htmlElement = elements.find(el => el.tagName === 'html');
+        const theme = htmlElement?.attributes?.['data-theme'] ||
+          bodyElement?.attributes?.['data-theme'] ||
+          this.viewport.colorScheme;
+        VariableMapper.applyThemeMode(rootFrame, this.tokenVariables, theme);
+      }
+      
       if (bodyStyle) {
         // Apply body background
         await this.applyVisualProperties(rootFrame, bodyStyle);
+        this.bindVariables(rootFrame, bodyStyle);
         
         // Set root frame size
         const maxWidth = bodyStyle['max-width'];
@@ -181,13 +397,19 @@ class BrowserGradeConverter {
             rootFrame.resize(Math.round(width), 800);
           }
         } else {
-          rootFrame.resize(1400, 800); // Default size
+          rootFrame.resize(this.viewport.width, this.viewport.height); // Viewport size
         }
       }
       
       // Add root frame to page
       figma.currentPage.appendChild(rootFrame);
       
+      // The root frame is the initial containing block (and the viewport for fixed boxes)
+      this.containingBlocks = [{ frame: rootFrame, style: bodyStyle || {} }];
+      this.positionedNodes.clear();
+      this.nodeStyles = new Map([[rootFrame, bodyStyle || {}]]);
+      this.elementNodes.clear();
+      
       // 5. Create child nodes
       console.log('🔧 Creating child nodes...');
       const childElements = bodyElement?.children || elements;
@@ -199,6 +421,22 @@ class BrowserGradeConverter {
         await this.createFigmaNode(element, computedStyle, rootFrame);
       }
       
+      if (bodyStyle) {
+        await this.applyBackgroundImages(rootFrame, bodyStyle);
+        this.applyBorderDecorations(rootFrame, bodyStyle);
+      }
+      
+      this.applyPositioning(rootFrame);
+      this.applyTransforms(rootFrame);
+      this.applyStacking(rootFrame);
+      await this.linkMapper.apply(this.elementNodes, rootFrame);
+      
+      if (this.options.stateVariants) {
+        await this.createStateVariants(rootFrame, cssRules);
+        // Links inside the variants
+        await this.linkMapper.apply(this.elementNodes, rootFrame);
+      }
+      
       // Center the view on the new design
       figma.viewport.scrollAndZoomIntoView([rootFrame]);
       
@@ -211,6 +449,39 @@ class BrowserGradeConverter {
     }
   }
   
+  /**
+   * Resolve the font of every text, throwing a FontFallbackError that lists
+   * each missing font and its elements if any had to be substituted
+   */
+  private async checkFonts(): Promise<void> {
+    for (const [element, computedStyle] of this.computedStylesMap) {
+      if (element.type !== 'text' || !String(element.content || '').trim()) continue;
+      await this.fontResolver.resolve(
+        computedStyle['font-family'],
+        computedStyle['font-weight'],
+        computedStyle['font-style'],
+        this.describeText(element)
+      );
+    }
+    
+    const substitutions = this.fontResolver.substitutions();
+    if (substitutions.length > 0) {
+      throw new FontFallbackError(substitutions);
+    }
+  }
+  
+  /**
+   * Layer name of a text's element and the start of the text, for reports
+   */
+  private describeText(element: any): string {
+    const content = String(element.content || element.textContent || '').trim();
+    const snippet = content.length > 24 ? `${content.slice(0, 24)}…` : content;
+    const owner = element.parent
+      ? this.generateNodeName(element.parent, this.computedStylesMap.get(element.parent) || {})
+      : 'text';
+    return `${owner} "${snippet}"`;
+  }
+  
   private computeAllStyles(
     elements: any[], 
     cssRules: CSSRule[], 
@@ -232,7 +503,8 @@ class BrowserGradeConverter {
       const computedStyle = this.cssEngine.computeStyles(
         element, 
         cssRules, 
-        parentStyles || undefined
+        parentStyles || undefined,
+        this.viewport
       );
       
       console.log('✅ Computed style preview:', {
@@ -242,6 +514,11 @@ class BrowserGradeConverter {
       });
       
       computedStylesMap.set(element, computedStyle);
+      if (element.type === 'text') return;
+      
+      // ::before content is evaluated before the children update any counters,
+      // ::after content after them
+      const before = this.generatePseudoElement(element, 'before', cssRules, computedStylesMap, computedStyle);
       
       // Recursively compute for children
       if (element.children && element.children.length > 0) {
@@ -252,14 +529,51 @@ class BrowserGradeConverter {
           computedStyle
         );
       }
+      
+      const after = this.generatePseudoElement(element, 'after', cssRules, computedStylesMap, computedStyle);
+      element.children = [...(before ? [before] : []), ...(element.children || []), ...(after ? [after] : [])];
     });
   }
   
+  /**
+   * Synthetic child element for a ::before/::after box, holding its
+   * generated text; null when the pseudo-element generates nothing
+   */
+  private generatePseudoElement(
+    element: any,
+    pseudoElement: 'before' | 'after',
+    cssRules: CSSRule[],
+    computedStylesMap: Map<any, ComputedStyle>,
+    elementStyle: ComputedStyle
+  ): ParsedElement | null {
+    const box = this.cssEngine.computePseudoElementStyles(element, pseudoElement, cssRules, elementStyle, this.viewport);
+    if (!box) return null;
+    
+    const generated: ParsedElement = {
+      type: 'element',
+      tagName: `::${pseudoElement}`,
+      pseudoElement,
+      attributes: {},
+      classList: [],
+      className: '',
+      children: [],
+      parent: element
+    };
+    computedStylesMap.set(generated, box.computedStyle);
+    
+    if (box.text) {
+      const text: ParsedElement = { type: 'text', content: box.text, children: [], parent: generated };
+      generated.children.push(text);
+      computedStylesMap.set(text, this.cssEngine.computeStyles(text, cssRules, box.computedStyle, this.viewport));
+    }
+    return generated;
+  }
+  
   private async createFigmaNode(
     element: any, 
     computedStyle: ComputedStyle,
     parent: FrameNode
-  ): Promise<FrameNode | TextNode | null> {
+  ): Promise<SceneNode | null> {
     
     try {
       if (element.type === 'text') {
@@ -268,9 +582,38 @@ class BrowserGradeConverter {
           parent.appendChild(textNode);
         }
         return textNode;
+      }
+      
+      // Resolve the containing block before this element becomes one itself
+      const containingBlock = PositionMapper.positionOf(computedStyle) === 'fixed'
+        ? this.containingBlocks[0]
+        : this.containingBlocks[this.containingBlocks.length - 1];
+      
+      let node: SceneNode;
+      if (element.pseudoElement && !this.hasBoxStyling(computedStyle)) {
+        // Plain generated text becomes a text layer of its own
+        const textChild = element.children[0];
+        const textNode = textChild
+          ? await this.createTextNode(textChild, this.computedStylesMap.get(textChild) || computedStyle)
+          : null;
+        if (!textNode) return null;
+        textNode.name = this.generateNodeName(element, computedStyle);
+        parent.appendChild(textNode);
+        node = textNode;
+      } else if (element.tagName === 'svg') {
+        node = this.createSvgNode(SvgMapper.serialize(element), element, computedStyle, parent);
+      } else if (element.tagName === 'img') {
+        node = await this.createImageNode(element, computedStyle, parent);
       } else {
-        return await this.createFrameNode(element, computedStyle, parent);
+        node = await this.createFrameNode(element, computedStyle, parent);
+      }
+      
+      this.nodeStyles.set(node, computedStyle);
+      this.elementNodes.set(element, node);
+      if (PositionMapper.isPositioned(computedStyle) && containingBlock) {
+        this.positionedNodes.set(node, { computedStyle, containingBlock });
       }
+      return node;
     } catch (error) {
       console.error(`❌ Failed to create node:`, error);
       return null;
@@ -294,8 +637,14 @@ class BrowserGradeConverter {
     // 1. Apply visual properties (can be done anytime after creation)
     await this.applyVisualProperties(frame, computedStyle);
     
+    // Overflow is visible by default in CSS, so badges and dropdowns that
+    // stick out of their box stay visible
+    frame.clipsContent = ['overflow', 'overflow-x', 'overflow-y']
+      .some(property => computedStyle[property] && computedStyle[property] !== 'visible');
+    
     // 2. Apply layout mode if needed (makes this an Auto Layout frame)
     const hasAutoLayout = this.applyLayoutProperties(frame, computedStyle);
+    this.bindVariables(frame, computedStyle);
     
     // 3. Apply sizing ONLY if this is a child of an Auto Layout frame
     if (parent && 'layoutMode' in parent && parent.layoutMode !== 'NONE') {
@@ -308,8 +657,25 @@ class BrowserGradeConverter {
     // 4. Set name
     frame.name = this.generateNodeName(element, computedStyle);
     
-    // 5. Process children
-    if (element.children && element.children.length > 0) {
+    const href = this.options.preserveHyperlinks ? LinkMapper.hrefOf(element) : null;
+    if (href) {
+      this.linkMapper.addBlockLink(frame, href);
+    }
+    
+    // 5. Process children (a positioned frame is their containing block)
+    const isContainingBlock = PositionMapper.isPositioned(computedStyle);
+    if (isContainingBlock) {
+      this.containingBlocks.push({ frame, style: computedStyle });
+    }
+    
+    // Inline text with <strong>, <a> and the like becomes a single text layer
+    const inlineRuns = this.collectInlineRuns(element);
+    if (inlineRuns) {
+      const textNode = await this.createStyledText(inlineRuns, computedStyle, element);
+      if (textNode) {
+        frame.appendChild(textNode);
+      }
+    } else if (element.children && element.children.length > 0) {
       for (const child of element.children) {
         const childStyle = this.computedStylesMap.get(child);
         if (childStyle) {
@@ -318,6 +684,14 @@ class BrowserGradeConverter {
       }
     }
     
+    if (isContainingBlock) {
+      this.containingBlocks.pop();
+    }
+    
+    // 6. Gradients, corner radii and border edges are laid out against the frame's final size
+    await this.applyBackgroundImages(frame, computedStyle);
+    this.applyBorderDecorations(frame, computedStyle);
+    
     return frame;
   }
   
@@ -341,32 +715,437 @@ class BrowserGradeConverter {
       }
     }
     
-    // Borders
-    const borderWidth = computedStyle['border-top-width'] as string;
-    const borderColor = computedStyle['border-top-color'] as string;
-    const borderStyle = computedStyle['border-top-style'] as string;
+    // Borders (corner radii and other-colored sides wait for the final size)
+    BorderMapper.applyStrokes(node, computedStyle);
     
-    if (borderWidth && parseFloat(borderWidth) > 0 && borderStyle !== 'none') {
-      const color = this.parseColor(borderColor);
-      if (color) {
-        node.strokes = [{
-          type: 'SOLID',
-          color: color
-        }];
-        node.strokeWeight = parseFloat(borderWidth);
-        node.strokeAlign = 'INSIDE';
-        console.log('✅ Applied border:', borderWidth, borderColor);
+    this.applyEffects(node, computedStyle);
+  }
+  
+  /**
+   * Corner radii, border sides in a second color and the outline of a sized frame
+   */
+  private applyBorderDecorations(node: FrameNode, computedStyle: ComputedStyle): void {
+    BorderMapper.applyCornerRadii(node, computedStyle);
+    BorderMapper.addEdges(node, computedStyle);
+    BorderMapper.applyOutline(node, computedStyle);
+  }
+  
+  /**
+   * Shadows and blur filters; text layers take text-shadow instead of box-shadow
+   */
+  private applyEffects(node: SceneNode & BlendMixin, computedStyle: ComputedStyle): void {
+    const color = computedStyle['color'] as string;
+    const fontSize = parseFloat(String(computedStyle['font-size'])) || 16;
+    const shadows = node.type === 'TEXT'
+      ? EffectMapper.textShadowEffects(computedStyle['text-shadow'], color, fontSize)
+      : EffectMapper.boxShadowEffects(computedStyle['box-shadow'], color, fontSize);
+    
+    const effects = [...shadows, ...EffectMapper.blurEffects(computedStyle['filter'], computedStyle['backdrop-filter'])];
+    if (effects.length > 0) {
+      node.effects = effects;
+      console.log(`✅ Applied ${effects.length} effect(s)`);
+    }
+  }
+  
+  /**
+   * Place positioned boxes once every frame has its final size, outermost
+   * first so nested boxes see their containing block in its final place
+   */
+  private applyPositioning(rootFrame: FrameNode): void {
+    if (this.positionedNodes.size === 0) return;
+    
+    const nodes = rootFrame.findAll(node => this.positionedNodes.has(node));
+    let fixedCount = 0;
+    
+    nodes.forEach(node => {
+      const { computedStyle, containingBlock } = this.positionedNodes.get(node)!;
+      const layoutNode = node as SceneNode & LayoutMixin;
+      
+      try {
+        switch (PositionMapper.positionOf(computedStyle)) {
+          case 'fixed':
+            // Fixed boxes become fixed children of the root frame, which
+            // keeps them in place when the frame scrolls in prototypes
+            rootFrame.appendChild(node);
+            fixedCount++;
+            PositionMapper.placeOutOfFlow(layoutNode, computedStyle, containingBlock);
+            break;
+          case 'absolute':
+            PositionMapper.placeOutOfFlow(layoutNode, computedStyle, containingBlock);
+            break;
+          case 'relative':
+            PositionMapper.applyRelativeOffset(layoutNode, computedStyle);
+            break;
+        }
+      } catch (error) {
+        console.warn(`⚠️ Failed to position "${node.name}":`, error);
       }
+    });
+    
+    if (fixedCount > 0) {
+      rootFrame.numberOfFixedChildren = fixedCount;
     }
+    console.log(`✅ Positioned ${nodes.length} element(s)`);
+  }
+  
+  /**
+   * Apply CSS transforms once every box is in its final place. Transforms
+   * don't affect layout: a translated Auto Layout child is offset inside a
+   * frame that keeps its slot, any other transformed child leaves the flow
+   * (Figma would lay out its rotated bounds) and an empty frame keeps its space.
+   */
+  private applyTransforms(rootFrame: FrameNode): void {
+    const nodes = rootFrame.findAll(node => {
+      const computedStyle = this.nodeStyles.get(node);
+      return !!computedStyle && ['transform', 'translate', 'rotate', 'scale']
+        .some(property => computedStyle[property] && computedStyle[property] !== 'none');
+    });
     
-    // Border radius
-    const borderRadius = computedStyle['border-radius'] as string;
-    if (borderRadius && borderRadius !== '0' && borderRadius !== '0px') {
-      const radius = parseFloat(borderRadius);
-      if (radius > 0) {
-        node.cornerRadius = radius;
-        console.log('✅ Applied border radius:', radius);
+    let transformed = 0;
+    nodes.forEach(node => {
+      const computedStyle = this.nodeStyles.get(node)!;
+      const layoutNode = node as SceneNode & LayoutMixin;
+      const box = { width: layoutNode.width, height: layoutNode.height };
+      
+      try {
+        const matrix = TransformMapper.parseTransform(computedStyle, box, this.viewport);
+        if (!matrix) return;
+        
+        const parent = node.parent;
+        if (parent && 'layoutMode' in parent && parent.layoutMode !== 'NONE' && layoutNode.layoutPositioning !== 'ABSOLUTE') {
+          if (TransformMapper.isTranslation(matrix)) {
+            // The slot stands in for the node when its parent orders layers
+            const slot = PositionMapper.offsetInLayout(layoutNode, parent as FrameNode, matrix[0][2], matrix[1][2]);
+            this.nodeStyles.set(slot, computedStyle);
+            transformed++;
+            return;
+          }
+          PositionMapper.keepLayoutSpace(layoutNode, parent as FrameNode);
+        }
+        
+        const origin = TransformMapper.parseOrigin(computedStyle, box, this.viewport);
+        if (TransformMapper.apply(layoutNode, matrix, origin)) transformed++;
+      } catch (error) {
+        console.warn(`⚠️ Failed to transform "${node.name}":`, error);
       }
+    });
+    
+    if (transformed > 0) {
+      console.log(`✅ Transformed ${transformed} element(s)`);
+    }
+  }
+  
+  /**
+   * Follow the CSS painting order: hoist z-indexed out-of-flow boxes into
+   * the frame of their stacking context, then reorder every frame's children
+   */
+  private applyStacking(rootFrame: FrameNode): void {
+    const styleOf = (node: SceneNode) => this.nodeStyles.get(node);
+    
+    // Fixed children have to stay the topmost layers of the root frame
+    const fixedNodes = new Set(rootFrame.children.filter(node => {
+      const computedStyle = styleOf(node);
+      return !!computedStyle && PositionMapper.positionOf(computedStyle) === 'fixed';
+    }));
+    
+    rootFrame.findAll(node => this.nodeStyles.has(node)).forEach(node => {
+      const computedStyle = this.nodeStyles.get(node)!;
+      if (!PositionMapper.isOutOfFlow(computedStyle) || StackingMapper.zIndex(computedStyle) === null) return;
+      
+      const context = this.stackingContextOf(node, rootFrame);
+      if (context !== node.parent) {
+        // Boxes hoisted into the root frame go below its fixed children
+        const index = context === rootFrame ? rootFrame.children.length - fixedNodes.size : undefined;
+        StackingMapper.hoist(node as SceneNode & LayoutMixin, context, index);
+      }
+    });
+    
+    const frames = [rootFrame, ...rootFrame.findAll(node => node.type === 'FRAME' && this.nodeStyles.has(node)) as FrameNode[]];
+    
+    let reordered = 0;
+    frames.forEach(frame => {
+      try {
+        if (StackingMapper.orderChildren(frame, styleOf, frame === rootFrame ? fixedNodes : undefined)) reordered++;
+      } catch (error) {
+        console.warn(`⚠️ Failed to reorder layers of "${frame.name}":`, error);
+      }
+    });
+    
+    if (reordered > 0) {
+      console.log(`✅ Reordered layers in ${reordered} frame(s) to match stacking order`);
+    }
+  }
+  
+  /**
+   * Frame of the nearest ancestor that forms a stacking context. Hoisting
+   * stops at clipping frames so the clip still applies.
+   */
+  private stackingContextOf(node: SceneNode, rootFrame: FrameNode): FrameNode {
+    let ancestor = node.parent;
+    while (ancestor && ancestor !== rootFrame && ancestor.type === 'FRAME') {
+      const parentStyle = ancestor.parent ? this.nodeStyles.get(ancestor.parent as SceneNode) : undefined;
+      if (ancestor.clipsContent || StackingMapper.createsStackingContext(this.nodeStyles.get(ancestor), parentStyle)) {
+        return ancestor;
+      }
+      ancestor = ancestor.parent;
+    }
+    return ancestor && ancestor.type === 'FRAME' ? ancestor : rootFrame;
+  }
+  
+  /**
+   * Turn elements with state-specific rules into component sets with a
+   * State=Default/Hover/Focus/Active/Disabled property. The component sets
+   * are placed next to the design, which keeps an instance of the Default
+   * variant where the element was. Elements inside a component set don't
+   * get one of their own.
+   */
+  private async createStateVariants(rootFrame: FrameNode, cssRules: CSSRule[]): Promise<void> {
+    const stateful = new Set<any>();
+    const insideStateful = (element: any) => {
+      for (let current = element.parent; current; current = current.parent) {
+        if (stateful.has(current)) return true;
+      }
+      return false;
+    };
+    
+    let y = rootFrame.y;
+    for (const [element, node] of [...this.elementNodes]) {
+      if (node.type !== 'FRAME' || element.pseudoElement || insideStateful(element)) continue;
+      
+      const states = this.cssEngine.interactiveStates(element, cssRules, this.viewport);
+      if (states.length === 0) continue;
+      stateful.add(element);
+      
+      try {
+        const componentSet = await this.createComponentSet(element, node, states, cssRules);
+        componentSet.x = rootFrame.x + rootFrame.width + 100;
+        componentSet.y = y;
+        y += componentSet.height + 40;
+      } catch (error) {
+        console.warn(`⚠️ Failed to create state variants for "${node.name}":`, error);
+      }
+    }
+    
+    if (stateful.size > 0) {
+      console.log(`✅ Created state variants for ${stateful.size} element(s)`);
+    }
+  }
+  
+  private async createComponentSet(
+    element: any,
+    node: FrameNode,
+    states: InteractiveState[],
+    cssRules: CSSRule[]
+  ): Promise<ComponentSetNode> {
+    const variants: Array<[string, Map<any, ComputedStyle>]> = [
+      ['Default', this.computedStylesMap],
+      ...states.map(state => [STATE_VARIANT_NAMES[state], this.computeVariantStyles(element, state, cssRules)] as [string, Map<any, ComputedStyle>])
+    ];
+    
+    const components: ComponentNode[] = [];
+    for (const [name, styles] of variants) {
+      const frame = await this.createVariantFrame(element, node, styles);
+      const component = figma.createComponentFromNode(frame);
+      component.name = `State=${name}`;
+      components.push(component);
+    }
+    
+    const componentSet = figma.combineAsVariants(components, figma.currentPage);
+    componentSet.name = this.componentName(element);
+    componentSet.layoutMode = 'HORIZONTAL';
+    componentSet.primaryAxisSizingMode = 'AUTO';
+    componentSet.counterAxisSizingMode = 'AUTO';
+    componentSet.itemSpacing = 24;
+    componentSet.paddingTop = 24;
+    componentSet.paddingRight = 24;
+    componentSet.paddingBottom = 24;
+    componentSet.paddingLeft = 24;
+    
+    this.replaceWithInstance(node, components[0].createInstance());
+    return componentSet;
+  }
+  
+  /**
+   * Styles of an element's subtree with a state forced on the element
+   */
+  private computeVariantStyles(element: any, state: InteractiveState, cssRules: CSSRule[]): Map<any, ComputedStyle> {
+    const styles = new Map(this.computedStylesMap);
+    const forcedState = { element, state };
+    
+    const visit = (current: any, parentStyles: ComputedStyle | undefined) => {
+      const computedStyle = current.pseudoElement
+        ? this.cssEngine.computeStateStyles(current.parent, cssRules, parentStyles, forcedState, this.viewport, current.pseudoElement)
+        : this.cssEngine.computeStateStyles(current, cssRules, parentStyles, forcedState, this.viewport);
+      
+      // Generated boxes can be hidden in a state, but not added by one
+      if (current.pseudoElement && (computedStyle.display === 'none' || computedStyle.content === 'none')) {
+        styles.delete(current);
+        return;
+      }
+      // Their text is generated once, from the default state
+      if (current.pseudoElement && computedStyle.content !== this.computedStylesMap.get(current)?.content) {
+        console.warn(`⚠️ ${STATE_VARIANT_NAMES[state]} content of ::${current.pseudoElement} on "${this.componentName(current.parent)}" is ignored; the variant keeps the default text`);
+      }
+      
+      styles.set(current, computedStyle);
+      (current.children || []).forEach((child: any) => visit(child, computedStyle));
+    };
+    visit(element, element.parent ? this.computedStylesMap.get(element.parent) : undefined);
+    
+    return styles;
+  }
+  
+  /**
+   * Standalone frame for one variant, sized like the element in the design
+   */
+  private async createVariantFrame(element: any, node: FrameNode, styles: Map<any, ComputedStyle>): Promise<FrameNode> {
+    const saved = {
+      computedStylesMap: this.computedStylesMap,
+      containingBlocks: this.containingBlocks,
+      positionedNodes: this.positionedNodes,
+      elementNodes: this.elementNodes
+    };
+    // The variant frame is the containing block of positioned descendants
+    // that have no positioned ancestor inside it; it exists once created
+    const variantBlock = { style: styles.get(element)! } as ContainingBlock;
+    this.computedStylesMap = styles;
+    this.containingBlocks = [variantBlock];
+    this.positionedNodes = new Map();
+    this.elementNodes = new Map();
+    
+    try {
+      const frame = await this.createFrameNode(element, styles.get(element)!, null);
+      variantBlock.frame = frame;
+      this.applyPositioning(frame);
+      this.applyTransforms(frame);
+      this.applyStacking(frame);
+      
+      if (frame.layoutMode === 'NONE') {
+        frame.resize(node.width, node.height);
+      } else {
+        if (node.layoutSizingHorizontal === 'FILL') {
+          frame.layoutSizingHorizontal = 'FIXED';
+          frame.resize(node.width, frame.height);
+        }
+        if (node.layoutSizingVertical === 'FILL') {
+          frame.layoutSizingVertical = 'FIXED';
+          frame.resize(frame.width, node.height);
+        }
+      }
+      return frame;
+    } finally {
+      this.computedStylesMap = saved.computedStylesMap;
+      this.containingBlocks = saved.containingBlocks;
+      this.positionedNodes = saved.positionedNodes;
+      this.elementNodes = saved.elementNodes;
+    }
+  }
+  
+  /**
+   * Put an instance where a node was, with the same place in the layout
+   */
+  private replaceWithInstance(node: FrameNode, instance: InstanceNode): void {
+    const parent = node.parent as (BaseNode & ChildrenMixin) | null;
+    if (!parent) return;
+    
+    parent.insertChild(parent.children.indexOf(node), instance);
+    instance.name = node.name;
+    if ('layoutMode' in parent && parent.layoutMode !== 'NONE') {
+      instance.layoutPositioning = node.layoutPositioning;
+      instance.layoutSizingHorizontal = node.layoutSizingHorizontal === 'HUG' ? 'FIXED' : node.layoutSizingHorizontal;
+      instance.layoutSizingVertical = node.layoutSizingVertical === 'HUG' ? 'FIXED' : node.layoutSizingVertical;
+    }
+    if (instance.width !== node.width || instance.height !== node.height) {
+      instance.resize(node.width, node.height);
+    }
+    instance.x = node.x;
+    instance.y = node.y;
+    instance.constraints = node.constraints;
+    
+    this.nodeStyles.set(instance, this.nodeStyles.get(node) || {});
+    node.remove();
+  }
+  
+  private componentName(element: any): string {
+    const classes = (element.className || '').trim().split(/\s+/).filter(Boolean);
+    return [element.tagName || 'div', ...classes].join('.');
+  }
+  
+  /**
+   * Stack gradient and image background layers above the background color
+   */
+  private async applyBackgroundImages(node: FrameNode, computedStyle: ComputedStyle): Promise<void> {
+    const backgroundImage = computedStyle['background-image'] as string;
+    if (!backgroundImage || backgroundImage === 'none') return;
+    
+    const layers = ValueResolver.splitTopLevel(backgroundImage, ',');
+    const sizes = ValueResolver.splitTopLevel(String(computedStyle['background-size'] ?? 'auto'), ',');
+    const positions = ValueResolver.splitTopLevel(String(computedStyle['background-position'] ?? '0% 0%'), ',');
+    const repeats = ValueResolver.splitTopLevel(String(computedStyle['background-repeat'] ?? 'repeat'), ',');
+    const box = { width: node.width, height: node.height };
+    const paints: Paint[] = [];
+    
+    for (let i = 0; i < layers.length; i++) {
+      try {
+        if (GradientMapper.hasGradient(layers[i])) {
+          const gradient = GradientMapper.parseGradient(layers[i], box.width, box.height);
+          if (gradient) paints.push(gradient);
+          continue;
+        }
+        
+        const src = ImageMapper.extractUrl(layers[i]);
+        if (!src) continue;
+        
+        // Lists shorter than the image list repeat, as in CSS
+        const fit = ImageMapper.backgroundFit(
+          sizes[i % sizes.length],
+          positions[i % positions.length],
+          repeats[i % repeats.length]
+        );
+        const paint = await this.imageMapper.imagePaint(src, box, fit);
+        if (paint) {
+          paints.push(paint);
+        } else {
+          this.addBackgroundPlaceholder(node, src);
+        }
+      } catch (error) {
+        console.warn('⚠️ Failed to apply background layer:', layers[i], error);
+      }
+    }
+    
+    if (paints.length === 0) return;
+    
+    // CSS paints the first layer on top; Figma paints the last fill on top
+    const fills = node.fills === figma.mixed ? [] : node.fills;
+    node.fills = [...fills, ...paints.reverse()];
+    console.log(`✅ Applied ${paints.length} background layer(s)`);
+  }
+  
+  /**
+   * Cover a frame whose background image isn't available with a placeholder
+   */
+  private addBackgroundPlaceholder(node: FrameNode, src: string): void {
+    const placeholder = ImageMapper.createPlaceholder(src, node.width, node.height);
+    node.insertChild(0, placeholder);
+    if (node.layoutMode !== 'NONE') {
+      placeholder.layoutPositioning = 'ABSOLUTE';
+    }
+    placeholder.x = 0;
+    placeholder.y = 0;
+    placeholder.constraints = { horizontal: 'STRETCH', vertical: 'STRETCH' };
+  }
+  
+  /**
+   * Bind fills, strokes and spacing that came from var() to their Variables
+   */
+  private bindVariables(node: FrameNode | TextNode, computedStyle: ComputedStyle): void {
+    const bindings = this.cssEngine.getVariableBindings(computedStyle);
+    if (Object.keys(bindings).length === 0) return;
+    
+    try {
+      VariableMapper.bindNode(node, computedStyle, bindings, this.tokenVariables);
+    } catch (error) {
+      console.warn('⚠️ Failed to bind variables:', error);
     }
   }
   
@@ -469,38 +1248,254 @@ class BrowserGradeConverter {
     frame.resize(finalWidth, finalHeight);
   }
   
+  /**
+   * `<img>` becomes a rectangle with an image fill, or a placeholder when
+   * its source isn't available
+   */
+  private async createImageNode(
+    element: any,
+    computedStyle: ComputedStyle,
+    parent: FrameNode
+  ): Promise<RectangleNode | FrameNode> {
+    const src = (element.attributes?.src || '').trim();
+    
+    // SVG sources are imported as vectors rather than rasterized
+    const svgMarkup = SvgMapper.isSvgDataUri(src) ? SvgMapper.decodeDataUri(src) : null;
+    if (svgMarkup) {
+      return this.createSvgNode(svgMarkup, element, computedStyle, parent);
+    }
+    
+    const naturalSize = src ? await this.imageMapper.naturalSize(src) : null;
+    const size = this.imageSize(element, computedStyle, naturalSize);
+    
+    const paint = naturalSize
+      ? await this.imageMapper.imagePaint(
+          src,
+          size,
+          ImageMapper.objectFit(computedStyle['object-fit'], computedStyle['object-position'])
+        )
+      : null;
+    
+    let node: RectangleNode;
+    if (paint) {
+      node = figma.createRectangle();
+      node.resize(size.width, size.height);
+      node.fills = [paint];
+      node.name = element.attributes?.alt || this.generateNodeName(element, computedStyle);
+    } else {
+      node = ImageMapper.createPlaceholder(src || 'missing src', size.width, size.height);
+    }
+    
+    BorderMapper.applyStrokes(node, computedStyle);
+    BorderMapper.applyCornerRadii(node, computedStyle);
+    BorderMapper.applyOutline(node, computedStyle);
+    this.applyEffects(node, computedStyle);
+    
+    parent.appendChild(node);
+    console.log(`🖼️ Created ${paint ? 'image' : 'placeholder'} ${size.width}×${size.height}`);
+    return node;
+  }
+  
+  /**
+   * Inline `<svg>` (or an SVG `<img>`) becomes vector nodes sized by its CSS box
+   */
+  private createSvgNode(
+    markup: string,
+    element: any,
+    computedStyle: ComputedStyle,
+    parent: FrameNode
+  ): FrameNode | RectangleNode {
+    // Browsers size replaced SVGs without any size at 300×150
+    const size = this.imageSize(element, computedStyle, SvgMapper.intrinsicSize(markup) || { width: 300, height: 150 });
+    const prepared = SvgMapper.prepare(markup, size, {
+      color: computedStyle['color'] as string,
+      fill: element.tagName === 'svg' ? computedStyle['fill'] as string : undefined,
+      stroke: element.tagName === 'svg' ? computedStyle['stroke'] as string : undefined
+    });
+    
+    const name = element.attributes?.['aria-label'] || element.attributes?.alt || this.generateNodeName(element, computedStyle);
+    const node = SvgMapper.createNode(prepared, name)
+      || ImageMapper.createPlaceholder(element.attributes?.src || 'inline svg', size.width, size.height);
+    this.applyEffects(node, computedStyle);
+    
+    parent.appendChild(node);
+    console.log(`✅ Imported SVG ${size.width}×${size.height}`);
+    return node;
+  }
+  
+  /**
+   * CSS size, then the width/height attributes, then the intrinsic size;
+   * a single given dimension keeps the aspect ratio
+   */
+  private imageSize(
+    element: any,
+    computedStyle: ComputedStyle,
+    naturalSize: { width: number; height: number } | null
+  ): { width: number; height: number } {
+    const dimension = (cssValue: string | number | undefined, attribute: string | undefined): number | null => {
+      if (typeof cssValue === 'number' && cssValue > 0) return cssValue;
+      const value = parseFloat(attribute || '');
+      return value > 0 ? value : null;
+    };
+    
+    const natural = naturalSize || { width: 150, height: 150 };
+    let width = dimension(computedStyle.width, element.attributes?.width);
+    let height = dimension(computedStyle.height, element.attributes?.height);
+    
+    if (width === null && height === null) {
+      width = natural.width;
+      height = natural.height;
+    } else if (width === null) {
+      width = height! * natural.width / natural.height;
+    } else if (height === null) {
+      height = width * natural.height / natural.width;
+    }
+    
+    return { width: Math.max(1, Math.round(width!)), height: Math.max(1, Math.round(height!)) };
+  }
+  
   private async createTextNode(element: any, computedStyle: ComputedStyle): Promise<TextNode | null> {
+    const content = TextMapper.collapseWhitespace(element.content || element.textContent || '', TextMapper.whiteSpace(computedStyle));
+    return this.createStyledText([{ text: content.trim(), computedStyle, source: element }], computedStyle, element.parent);
+  }
+  
+  /**
+   * Runs of a block whose content is only text, <br> and inline elements
+   * without boxes of their own, or null when it has no inline elements or
+   * its children need layers of their own. Whitespace is processed per
+   * text as its `white-space` prescribes.
+   */
+  private collectInlineRuns(element: any): TextRun[] | null {
+    const children: any[] = element.children || [];
+    if (!children.some(child => child.type !== 'text')) return null;
+    
+    const runs: TextRun[] = [];
+    let space = false;
+    
+    const visit = (node: any): boolean => {
+      const style = this.computedStylesMap.get(node);
+      if (!style || style.display === 'none') return true;
+      if (node.spaceBefore) space = true;
+      
+      if (node.type === 'text') {
+        const text = TextMapper.collapseWhitespace(String(node.content || ''), TextMapper.whiteSpace(style)).trim();
+        if (text) {
+          const previous = runs[runs.length - 1];
+          const separator = space && previous && !previous.text.endsWith('\n') ? ' ' : '';
+          runs.push({ text: separator + text, computedStyle: style, source: node });
+          space = false;
+        }
+      } else if (node.tagName === 'br') {
+        runs.push({ text: '\n', computedStyle: style, source: node });
+        space = false;
+      } else if (this.isInlineText(node, style)) {
+        if (!(node.children || []).every(visit)) return false;
+      } else {
+        return false;
+      }
+      
+      if (node.spaceAfter) space = true;
+      return true;
+    };
+    
+    if (!children.every(visit) || runs.length === 0) return null;
+    return runs;
+  }
+  
+  /**
+   * True for inline elements that only style their text; a background
+   * color is the one box property that is dropped rather than kept
+   */
+  private isInlineText(element: any, computedStyle: ComputedStyle): boolean {
+    if (computedStyle.display !== 'inline' || REPLACED_ELEMENTS.has(element.tagName)) return false;
+    if (this.hasBoxStyling({ ...computedStyle, 'background-color': 'transparent' })) return false;
+    
+    const background = String(computedStyle['background-color'] || 'transparent');
+    if (background !== 'transparent' && background !== 'rgba(0, 0, 0, 0)') {
+      console.warn(`⚠️ Background of inline <${element.tagName || element.pseudoElement}> can't be drawn behind a text range`);
+    }
+    return true;
+  }
+  
+  /**
+   * A text layer of one or more runs; with several runs each one becomes a
+   * styled range. `container` is the element whose layer holds the text.
+   */
+  private async createStyledText(runs: TextRun[], blockStyle: ComputedStyle, container: any): Promise<TextNode | null> {
     try {
-      // Load font BEFORE creating text
-      await figma.loadFontAsync({ family: "Inter", style: "Regular" });
+      // Load every font BEFORE creating text
+      const fonts: ResolvedFont[] = [];
+      for (const run of runs) {
+        fonts.push(await this.fontResolver.resolve(
+          run.computedStyle['font-family'],
+          run.computedStyle['font-weight'],
+          run.computedStyle['font-style'],
+          this.describeText(run.source)
+        ));
+      }
       
       const textNode = figma.createText();
-      textNode.fontName = { family: "Inter", style: "Regular" };
+      textNode.fontName = fonts[0].fontName;
+      
+      // Substituted fonts are marked on the layer so they can be found later
+      const substitutions = fonts
+        .map(font => font.substitution)
+        .filter((substitution, i, all): substitution is FontSubstitution => !!substitution && all.indexOf(substitution) === i);
+      if (substitutions.length > 0) {
+        textNode.setPluginData('fontSubstitutions', JSON.stringify(substitutions.map(({ requested, missing, resolved }) =>
+          ({ requested, missing, resolved }))));
+      }
       
       // Set text content
-      const content = element.content || element.textContent || '';
-      textNode.characters = content.trim();
+      textNode.characters = runs.map(run => run.text).join('');
       
       // Apply text styles
-      const fontSize = parseFloat(computedStyle['font-size'] as string) || 16;
-      textNode.fontSize = Math.round(fontSize);
+      const first = runs[0].computedStyle;
+      textNode.fontSize = this.textFontSize(first);
       
       // Text color
-      const color = this.parseColor(computedStyle['color'] as string);
+      const color = this.parseColor(first['color'] as string);
       if (color) {
         textNode.fills = [{ type: 'SOLID', color: color }];
       }
+      textNode.textDecoration = this.textDecoration(first);
+      textNode.letterSpacing = TextMapper.letterSpacing(first);
+      textNode.lineHeight = TextMapper.lineHeight(first);
+      
+      if (runs.length === 1) {
+        this.bindVariables(textNode, first);
+      } else {
+        let start = 0;
+        runs.forEach((run, i) => {
+          const end = start + run.text.length;
+          const style = run.computedStyle;
+          textNode.setRangeFontName(start, end, fonts[i].fontName);
+          textNode.setRangeFontSize(start, end, this.textFontSize(style));
+          const runColor = this.parseColor(style['color'] as string);
+          if (runColor) {
+            textNode.setRangeFills(start, end, [{ type: 'SOLID', color: runColor }]);
+          }
+          textNode.setRangeTextDecoration(start, end, this.textDecoration(style));
+          textNode.setRangeLetterSpacing(start, end, TextMapper.letterSpacing(style));
+          textNode.setRangeLineHeight(start, end, TextMapper.lineHeight(style));
+          start = end;
+        });
+        console.log(`✅ Created rich text with ${runs.length} runs`);
+      }
+      if (this.options.preserveHyperlinks) {
+        this.addTextLinks(textNode, runs, container);
+      }
+      this.applyEffects(textNode, blockStyle);
       
       // Text alignment
-      const textAlign = computedStyle['text-align'] as string;
+      const textAlign = blockStyle['text-align'] as string;
       if (textAlign === 'center') {
         textNode.textAlignHorizontal = 'CENTER';
       } else if (textAlign === 'right') {
         textNode.textAlignHorizontal = 'RIGHT';
       }
       
-      // Auto resize
-      textNode.textAutoResize = 'WIDTH_AND_HEIGHT';
+      this.applyTextBox(textNode, runs, blockStyle, container);
       
       return textNode;
     } catch (error) {
@@ -509,6 +1504,106 @@ class BrowserGradeConverter {
     }
   }
   
+  /**
+   * Wrapping, truncation, first-line indent and numeric OpenType features,
+   * which CSS sets on the block container of the text. Text only wraps at a
+   * container width that is known; otherwise the layer hugs its lines.
+   */
+  private applyTextBox(textNode: TextNode, runs: TextRun[], blockStyle: ComputedStyle, container: any): void {
+    const containerStyle = (container && this.computedStylesMap.get(container)) || blockStyle;
+    const contentWidth = TextMapper.contentWidth(containerStyle);
+    const truncation = TextMapper.truncation(containerStyle);
+    
+    if (contentWidth !== null && (TextMapper.whiteSpace(containerStyle).wrap || truncation.maxLines !== null)) {
+      textNode.resize(Math.max(1, contentWidth), textNode.height);
+      textNode.textAutoResize = 'HEIGHT';
+    } else {
+      textNode.textAutoResize = 'WIDTH_AND_HEIGHT';
+    }
+    if (truncation.maxLines !== null) {
+      textNode.textTruncation = truncation.textTruncation;
+      textNode.maxLines = truncation.maxLines;
+    }
+    
+    // text-indent only moves the first line of the container
+    const indent = this.startsContainer(runs[0].source, container)
+      ? TextMapper.textIndent(containerStyle, contentWidth)
+      : 0;
+    if (indent > 0) {
+      textNode.paragraphIndent = indent;
+    } else if (indent < 0) {
+      console.warn(`⚠️ Negative text-indent of ${indent}px has no Figma equivalent`);
+    }
+    
+    // Plugins can't enable OpenType features, so they are recorded for the designer
+    const features = Object.assign({}, ...runs.map(run => TextMapper.openTypeFeatures(run.computedStyle)));
+    if (Object.keys(features).length > 0) {
+      textNode.setPluginData('openTypeFeatures', JSON.stringify(features));
+      console.warn(`⚠️ Enable OpenType features ${Object.keys(features).join(', ')} on "${textNode.characters.slice(0, 24)}" by hand`);
+    }
+  }
+  
+  /**
+   * True when a text comes first in its container, with no content before it
+   */
+  private startsContainer(source: any, container: any): boolean {
+    for (let element = source; element.parent && element !== container; element = element.parent) {
+      if (element.parent.children[0] !== element) return false;
+    }
+    return true;
+  }
+  
+  /**
+   * Hyperlink the runs inside inline anchors, one range per anchor and
+   * without the space that separates a run from the one before
+   */
+  private addTextLinks(textNode: TextNode, runs: TextRun[], container: any): void {
+    let link: { start: number; end: number; anchor: any } | null = null;
+    const flush = () => {
+      if (link) this.linkMapper.addTextLink(textNode, link.start, link.end, LinkMapper.hrefOf(link.anchor)!);
+      link = null;
+    };
+    
+    let start = 0;
+    runs.forEach(run => {
+      const end = start + run.text.length;
+      const anchor = this.inlineAnchor(run.source, container);
+      if (!anchor || !link || link.anchor !== anchor || link.end !== start) {
+        flush();
+        if (anchor) {
+          link = { start: start + run.text.length - run.text.replace(/^\s+/, '').length, end, anchor };
+        }
+      } else {
+        link.end = end;
+      }
+      start = end;
+    });
+    flush();
+  }
+  
+  /**
+   * The innermost anchor with an href around a text inside `container`; an
+   * anchor that is the container itself is linked as a frame instead
+   */
+  private inlineAnchor(source: any, container: any): any {
+    for (let element = source.parent; element && element !== container; element = element.parent) {
+      if (this.computedStylesMap.get(element)?.display !== 'inline') return null;
+      if (LinkMapper.hrefOf(element)) return element;
+    }
+    return null;
+  }
+  
+  private textFontSize(computedStyle: ComputedStyle): number {
+    return Math.round(parseFloat(computedStyle['font-size'] as string) || 16);
+  }
+  
+  private textDecoration(computedStyle: ComputedStyle): TextDecoration {
+    const decoration = String(computedStyle['text-decoration-line'] || computedStyle['text-decoration'] || '');
+    if (/\bunderline\b/.test(decoration)) return 'UNDERLINE';
+    if (/\bline-through\b/.test(decoration)) return 'STRIKETHROUGH';
+    return 'NONE';
+  }
+  
   private parseColor(cssColor: string): RGB | null {
     if (!cssColor || cssColor === 'transparent') return null;
     
@@ -543,7 +1638,32 @@ class BrowserGradeConverter {
     return null;
   }
   
+  /**
+   * True when a box paints or sizes anything beyond its text, so a
+   * pseudo-element needs a frame rather than a bare text layer
+   */
+  private hasBoxStyling(computedStyle: ComputedStyle): boolean {
+    const isSet = (property: string, ...initial: string[]) => {
+      const value = computedStyle[property];
+      return value !== undefined && value !== '' && !initial.includes(String(value).trim());
+    };
+    const sides = ['top', 'right', 'bottom', 'left'];
+    
+    return isSet('background-color', 'transparent', 'rgba(0, 0, 0, 0)') ||
+      isSet('background-image', 'none') ||
+      sides.some(side => isSet(`border-${side}-width`, '0', '0px') && isSet(`border-${side}-style`, 'none')) ||
+      sides.some(side => isSet(`padding-${side}`, '0', '0px')) ||
+      isSet('width', 'auto') ||
+      isSet('height', 'auto') ||
+      PositionMapper.isPositioned(computedStyle) ||
+      ['block', 'flex', 'grid', 'inline-block', 'inline-flex', 'inline-grid'].includes(String(computedStyle.display));
+  }
+  
   private generateNodeName(element: any, computedStyle: ComputedStyle): string {
+    if (element.pseudoElement) {
+      return `::${element.pseudoElement}`;
+    }
+    
     const className = element.className || '';
     const tagName = element.tagName || 'div';
     const display = computedStyle.display || 'block';
@@ -559,7 +1679,7 @@ class BrowserGradeConverter {
 // FIGMA PLUGIN MAIN FUNCTION
 // ========================================
 
-figma.showUI(__html__, { width: 400, height: 500 });
+figma.showUI(__html__, { width: 400, height: 680 });
 
 figma.ui.onmessage = async (msg) => {
   console.log('📨 Received message:', msg.type);
@@ -568,21 +1688,24 @@ figma.ui.onmessage = async (msg) => {
     try {
       console.log('🚀 Starting Browser-Grade Conversion (FIXED)...');
       
-      const { html, css } = msg;
+      const { html, css, viewport, images, createVariables, stateVariants, fontFallbacks, preserveHyperlinks } = msg;
       
       console.log('📝 Input received:');
       console.log('- HTML length:', html.length);
       console.log('- CSS length:', css.length);
       
-      // Use the browser-grade converter
-      const converter = new BrowserGradeConverter();
+      // Use the browser-grade converter (an optional viewport drives @media evaluation,
+      // images carries the bytes the UI resolved for image sources)
+      const converter = new BrowserGradeConverter(viewport, images, { createVariables, stateVariants, fontFallbacks, preserveHyperlinks });
       const nodes = await converter.convert(html, css);
       
       if (nodes.length > 0) {
         console.log(`✅ Successfully created ${nodes.length} nodes`);
         figma.ui.postMessage({ 
           type: 'success', 
-          message: `Created ${nodes.length} elements with browser-grade CSS computation!` 
+          message: `Created ${nodes.length} elements with browser-grade CSS computation!`,
+          fontSubstitutions: converter.fontSubstitutions.map(({ missing, resolved, elements }) =>
+            `${missing} → ${resolved.family} ${resolved.style} (${elements.length} text layer${elements.length === 1 ? '' : 's'})`)
         });
       } else {
         console.log('⚠️ No nodes created');
@@ -0,0 +1,31 @@
+// Shared conversion option definitions for both HTML to Figma converters
+
+import { FontFallbackMode } from '../figma/font-resolver';
+import { MediaEnvironment } from '../engine/media-query-evaluator';
+
+export interface ConversionOptions {
+  useAutoLayout?: boolean;
+  /** Publish the repeated colors, text styles and effects as local styles */
+  createLocalStyles?: boolean;
+  /** Reuse local styles that already exist in the file */
+  useExistingStyles?: boolean;
+  /** Turn `:root` custom properties into a Figma Variable collection and bind to it */
+  createVariables?: boolean;
+  /** Turn repeated structures into components and instances */
+  detectComponents?: boolean;
+  highResImages?: boolean;
+  /** Turn elements with :hover/:focus/:active/:disabled rules into component sets */
+  stateVariants?: boolean;
+  /**
+   * Missing fonts: `auto` substitutes them and annotates the text layers,
+   * `strict` aborts listing them, `ignore` silently uses Inter
+   */
+  fontFallbacks?: FontFallbackMode;
+  /**
+   * Turn `<a href>` into text hyperlinks (NODE links for `#fragment`s) and
+   * anchors with frames of their own into open-URL interactions
+   */
+  preserveHyperlinks?: boolean;
+  /** Environment @media queries are evaluated against */
+  viewport?: MediaEnvironment;
+}
@@ -5,6 +5,10 @@ export interface RGB {
   b: number;
 }
 
+export interface RGBA extends RGB {
+  a: number;
+}
+
 export class ColorParser {
   static parseColor(cssColor: string): RGB | null {
     if (!cssColor || cssColor === 'transparent' || cssColor === 'none') {
@@ -68,15 +72,16 @@ export class ColorParser {
   }
   
   private static parseRgbColor(rgb: string): RGB | null {
-    // Match both rgb(r, g, b) and rgba(r, g, b, a) formats
-    const match = rgb.match(/rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*[\d.]+)?\s*\)/);
+    // Match rgb(r, g, b), rgba(r, g, b, a) and the space-separated rgb(r g b / a),
+    // with numbers or percentages
+    const match = rgb.match(/rgba?\(\s*([\d.]+%?)\s*[,\s]\s*([\d.]+%?)\s*[,\s]\s*([\d.]+%?)\s*(?:[,/]\s*[\d.]+%?\s*)?\)/);
     
     if (match) {
-      const [, r, g, b] = match;
+      const channel = (value: string) => Math.min(1, value.endsWith('%') ? parseFloat(value) / 100 : parseFloat(value) / 255);
       const result = {
-        r: parseInt(r) / 255,
-        g: parseInt(g) / 255,
-        b: parseInt(b) / 255
+        r: channel(match[1]),
+        g: channel(match[2]),
+        b: channel(match[3])
       };
       console.log(`[ColorParser] Parsed ${rgb} to rgb(${result.r}, ${result.g}, ${result.b})`);
       return result;
@@ -87,13 +92,14 @@ export class ColorParser {
   }
   
   private static parseHslColor(hsl: string): RGB | null {
-    const match = hsl.match(/hsla?\(\s*(\d+)\s*,\s*(\d+)%\s*,\s*(\d+)%\s*(?:,\s*[\d.]+)?\s*\)/);
+    // Comma- and space-separated forms, with an optional alpha
+    const match = hsl.match(/hsla?\(\s*([\d.]+)(?:deg)?\s*[,\s]\s*([\d.]+)%\s*[,\s]\s*([\d.]+)%\s*(?:[,/]\s*[\d.]+%?\s*)?\)/);
     
     if (match) {
       const [, h, s, l] = match;
-      const hNum = parseInt(h) / 360;
-      const sNum = parseInt(s) / 100;
-      const lNum = parseInt(l) / 100;
+      const hNum = (parseFloat(h) % 360) / 360;
+      const sNum = parseFloat(s) / 100;
+      const lNum = parseFloat(l) / 100;
       
       const result = this.hslToRgb(hNum, sNum, lNum);
       console.log(`[ColorParser] Parsed ${hsl} to rgb(${result.r}, ${result.g}, ${result.b})`);
@@ -172,6 +178,40 @@ export class ColorParser {
     return null;
   }
   
+  // Parse a color keeping its alpha channel ('transparent' is fully transparent black)
+  static parseColorWithAlpha(cssColor: string): RGBA | null {
+    const color = (cssColor || '').trim().toLowerCase();
+    if (color === 'transparent') {
+      return { r: 0, g: 0, b: 0, a: 0 };
+    }
+    
+    const rgb = this.parseColor(color);
+    return rgb ? { ...rgb, a: this.parseAlpha(color) } : null;
+  }
+  
+  private static parseAlpha(color: string): number {
+    const hex = color.match(/^#([0-9a-f]{8}|[0-9a-f]{4})$/);
+    if (hex) {
+      const alpha = hex[1].length === 8 ? hex[1].slice(6) : hex[1][3].repeat(2);
+      return parseInt(alpha, 16) / 255;
+    }
+    
+    // rgba(r, g, b, a), hsla(h, s, l, a) and the space-separated "/ a" form
+    const functional = color.match(/^(?:rgba?|hsla?)\((.*)\)$/);
+    if (functional) {
+      const args = functional[1];
+      const alpha = args.includes('/')
+        ? args.split('/')[1]
+        : args.split(',').length === 4 ? args.split(',')[3] : undefined;
+      if (alpha !== undefined) {
+        const value = parseFloat(alpha);
+        if (!isNaN(value)) return alpha.trim().endsWith('%') ? value / 100 : value;
+      }
+    }
+    
+    return 1;
+  }
+  
   // Helper to parse border shorthand (e.g., "1px solid #333")
   static parseBorder(borderValue: string): {
     width: number;